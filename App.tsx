@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useCallback, useRef, Suspense } from 'react';
-import { GcpCredentials, FilterConfig, SavedView } from './types';
+import { GcpCredentials, FilterConfig, SavedView, OAuthConfig, ScanScope } from './types';
 import { Layout } from './components/Layout';
 import { ResourceTable } from './components/ResourceTable';
 import { Dashboard } from './components/Dashboard';
@@ -13,6 +13,7 @@ import { SettingsPage } from './components/SettingsPage';
 import { useNotifications } from './hooks/useNotifications';
 import { useResourceManager } from './hooks/useResourceManager';
 import { useLogs } from './hooks/useLogs';
+import { beginOAuthSignIn, completeOAuthRedirect, onTokenRefreshed, saveOAuthConfig, signOut } from './services/authService';
 import { Button } from './components/DesignSystem';
 import { SectionHeader } from './components/DesignSystem';
 import { ShieldCheck, Sparkles, Loader2 } from 'lucide-react';
@@ -79,6 +80,7 @@ export const App = () => {
     resources, 
     stats, 
     isConnecting, 
+    isSyncing,
     loadingStatus, 
     report, 
     isAnalysing, 
@@ -86,6 +88,12 @@ export const App = () => {
     savedPipelines, // Used in ResourceTable
     appSettings,
     connectProject, 
+    cancelScan,
+    capabilities,
+    isCheckingPermissions,
+    recheckPermissions,
+    scanProgress,
+    refreshResources,
     loadDemoData, 
     analyzeResources, 
     updateResourceLabels, 
@@ -93,6 +101,10 @@ export const App = () => {
     batchProgress,
     bulkUpdateLabels,
     updateGovernance,
+    taxonomy,
+    policies,
+    exceptions,
+    updateExceptions,
     updateSavedViews,
     updateSavedPipelines, // Used in ResourceTable
     updateSettings
@@ -109,12 +121,14 @@ export const App = () => {
     if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
     if (credentials) {
       idleTimerRef.current = setTimeout(() => {
+        cancelScan();
+        signOut();
         setCredentials(null);
         setActiveTab('dashboard');
         addNotification('Session timed out due to inactivity.', 'warning');
       }, IDLE_TIMEOUT_MS);
     }
-  }, [credentials, addNotification]);
+  }, [credentials, addNotification, cancelScan]);
 
   useEffect(() => {
     if (!credentials) return;
@@ -173,6 +187,28 @@ export const App = () => {
     }
   };
 
+  const handleOAuthSignIn = async (config: OAuthConfig, projectId: string, scope?: ScanScope) => {
+    localStorage.setItem('lastProjectId', projectId);
+    saveOAuthConfig(config);
+    try {
+      await beginOAuthSignIn(config, projectId, scope);
+    } catch (e: any) {
+      addNotification(`Sign-in failed: ${e.message}`, 'error');
+    }
+  };
+
+  // Returning from the authorization server: finish the code exchange, then connect as usual
+  useEffect(() => {
+    completeOAuthRedirect()
+      .then(creds => { if (creds) handleConnect(creds); })
+      .catch(e => addNotification(e.message, 'error'));
+  }, []);
+
+  // Silent refreshes swap the token in place so later calls pick it up
+  useEffect(() => onTokenRefreshed(accessToken => {
+    setCredentials(prev => prev && { ...prev, accessToken });
+  }), []);
+
   const handleDemo = () => {
     loadDemoData();
     setCredentials({ projectId: 'demo-mode', accessToken: 'demo-mode' });
@@ -180,6 +216,8 @@ export const App = () => {
   };
 
   const handleDisconnect = () => {
+    cancelScan();
+    signOut();
     setCredentials(null);
     setActiveTab('dashboard');
     setFilterConfig(DEFAULT_FILTER_CONFIG);
@@ -234,9 +272,11 @@ export const App = () => {
       <ErrorBoundary>
         <LoginScreen 
           onConnect={handleConnect} 
+          onOAuthSignIn={handleOAuthSignIn}
           isConnecting={isConnecting}
           loadingStatus={loadingStatus}
           onDemo={handleDemo}
+          onCancel={cancelScan}
         />
         <div className="fixed top-6 right-6 z-[100] flex flex-col gap-3 pointer-events-none w-full max-w-sm">
             <AnimatePresence>
@@ -289,6 +329,9 @@ export const App = () => {
         onSelectView={handleLoadView}
         onDeleteView={handleDeleteView}
         projectId={credentials?.projectId}
+        scanProgress={scanProgress}
+        isScanning={isConnecting}
+        onCancelScan={cancelScan}
       >
         <AnimatePresence mode="wait">
           {activeTab === 'dashboard' && (
@@ -299,6 +342,8 @@ export const App = () => {
                 onNavigate={setActiveTab}
                 onExplore={handleExplore}
                 onRunAudit={analyzeResources}
+                exceptions={exceptions}
+                policies={policies}
               />
             </PageTransition>
           )}
@@ -335,12 +380,14 @@ export const App = () => {
                 onUpdateLabels={(id, labels) => updateResourceLabels(credentials, id, labels, false)}
                 onRevert={revertResource}
                 onBulkUpdateLabels={(updates) => bulkUpdateLabels(credentials, updates)}
-                onRefresh={() => handleConnect(credentials)} 
-                isLoading={isConnecting}
+                onRefresh={() => refreshResources()} 
+                onFullRescan={() => refreshResources('FULL')}
+                isLoading={isConnecting || isSyncing}
                 batchProgress={batchProgress}
                 projectId={credentials.projectId}
                 savedPipelines={savedPipelines}
                 onSavePipeline={handleSavePipeline}
+                taxonomy={taxonomy}
               />
             </PageTransition>
           )}
@@ -355,6 +402,10 @@ export const App = () => {
                     resources={resources} 
                     onUpdatePolicies={updateGovernance} 
                     onNavigateToViolations={handlePolicyNavigate}
+                    taxonomy={taxonomy}
+                    policies={policies}
+                    exceptions={exceptions}
+                    onUpdateExceptions={updateExceptions}
                 />
              </PageTransition>
           )}
@@ -380,6 +431,9 @@ export const App = () => {
                     projectId={credentials.projectId} 
                     settings={appSettings}
                     onUpdate={updateSettings}
+                    capabilities={capabilities}
+                    onCheckPermissions={recheckPermissions}
+                    isCheckingPermissions={isCheckingPermissions}
                 />
             </PageTransition>
           )}
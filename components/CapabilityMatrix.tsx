@@ -0,0 +1,93 @@
+import React from 'react';
+import { CheckCircle2, XCircle, MinusCircle, AlertTriangle } from 'lucide-react';
+import { ProjectCapabilities, ResourceType } from '../types';
+import { RESOURCE_PERMISSIONS, RESOURCE_TYPE_LABELS } from '../constants';
+import { Tooltip } from './DesignSystem';
+
+const TYPES = Object.keys(RESOURCE_PERMISSIONS) as Exclude<ResourceType, 'ASSET'>[];
+
+interface CapabilityMatrixProps {
+  capabilities: ProjectCapabilities[];
+}
+
+// A single project shows ✓/✗; several projects show how many of them grant the capability
+const CapabilityCell = ({ allowed, total, missing, notApplicable }: { allowed: number; total: number; missing: string[]; notApplicable?: boolean }) => {
+  if (notApplicable) {
+    return (
+      <Tooltip content="This resource type has no labels">
+        <MinusCircle className="w-4 h-4 text-slate-300 dark:text-slate-600 mx-auto" />
+      </Tooltip>
+    );
+  }
+
+  const isFull = allowed === total;
+  const icon = isFull
+    ? <CheckCircle2 className="w-4 h-4 text-emerald-500" />
+    : <XCircle className={`w-4 h-4 ${allowed === 0 ? 'text-red-500' : 'text-amber-500'}`} />;
+
+  return (
+    <Tooltip content={missing.length > 0 ? `Missing: ${missing.join(', ')}` : 'Granted'}>
+      <span className="inline-flex items-center gap-1 font-mono text-[10px] text-slate-500">
+        {icon}
+        {total > 1 && <span>{allowed}/{total}</span>}
+      </span>
+    </Tooltip>
+  );
+};
+
+export const CapabilityMatrix: React.FC<CapabilityMatrixProps> = ({ capabilities }) => {
+  const checked = capabilities.filter(c => !c.error);
+  const failed = capabilities.filter(c => c.error);
+
+  if (capabilities.length === 0) {
+    return <p className="text-xs text-slate-500">Permissions have not been checked yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {checked.length > 0 && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[10px] uppercase tracking-wider text-slate-400 border-b border-slate-200 dark:border-slate-800">
+              <th className="text-left font-bold py-1.5">Resource Type</th>
+              <th className="text-center font-bold py-1.5 w-20">Discover</th>
+              <th className="text-center font-bold py-1.5 w-20">Label</th>
+            </tr>
+          </thead>
+          <tbody>
+            {TYPES.map(type => {
+              const { list, update, globalUpdate = [] } = RESOURCE_PERMISSIONS[type];
+              const perType = checked.map(c => c.types[type]).filter(Boolean);
+              const missingOf = (permissions: string[]) =>
+                Array.from(new Set(perType.flatMap(t => t!.missing.filter(p => permissions.includes(p)))));
+
+              return (
+                <tr key={type} className="border-b border-slate-100 dark:border-slate-800/60 last:border-0">
+                  <td className="py-1.5 text-slate-700 dark:text-slate-300">{RESOURCE_TYPE_LABELS[type]}</td>
+                  <td className="py-1.5 text-center">
+                    <CapabilityCell allowed={perType.filter(t => t!.canList).length} total={perType.length} missing={missingOf(list)} />
+                  </td>
+                  <td className="py-1.5 text-center">
+                    <CapabilityCell
+                      allowed={perType.filter(t => t!.canUpdate).length}
+                      total={perType.length}
+                      missing={missingOf([...update, ...globalUpdate])}
+                      notApplicable={update.length === 0}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {failed.map(c => (
+        <div key={c.projectId} className="flex items-start gap-2 text-[11px] text-amber-700 dark:text-amber-400">
+          <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+          <span><span className="font-mono">{c.projectId}</span>: {c.error}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
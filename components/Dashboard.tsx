@@ -1,14 +1,16 @@
 
-import React from 'react';
-import { GceResource, FilterConfig } from '../types';
+import React, { useMemo } from 'react';
+import { GceResource, FilterConfig, PolicyException, GovernancePolicy } from '../types';
 import { Button, Badge, GlassCard } from './DesignSystem';
 import { 
   Shield, CheckCircle2, AlertOctagon, Terminal, ArrowRight,
-  Layers, Tag, BarChart3, MapPin, AlertCircle, Sparkles, GitCommit, Search, RefreshCw, Wand2
+  Layers, Tag, BarChart3, MapPin, AlertCircle, Sparkles, GitCommit, Search, RefreshCw, Wand2, CalendarClock
 } from 'lucide-react';
 import { DonutChart, AnimatedCounter, HealthGauge, BarChart } from './Visualizations';
 import { useDashboardAnalytics } from '../hooks/useDashboardAnalytics';
 import { RegionIcon } from './RegionIcon';
+import { ExceptionStatusBadge } from './PolicyExceptions';
+import { getExpiringExceptions, EXPIRING_SOON_DAYS } from '../services/policyExceptions';
 import { motion } from 'framer-motion';
 
 const MotionDiv = motion.div as any;
@@ -21,6 +23,8 @@ interface DashboardProps {
   onRunAudit?: () => void; // New prop for triggering audit
   aiInsight?: string | null;
   isGeneratingInsight?: boolean;
+  exceptions?: PolicyException[];
+  policies?: GovernancePolicy[];
 }
 
 const InsightCard = ({ title, icon: Icon, children, onClick, colorClass = "text-indigo-500", bgClass = "bg-indigo-50 dark:bg-indigo-900/20" }: any) => (
@@ -46,9 +50,12 @@ export const Dashboard: React.FC<DashboardProps> = ({
     stats, 
     onNavigate,
     onExplore,
-    onRunAudit
+    onRunAudit,
+    exceptions = [],
+    policies = []
 }) => {
   const analysis = useDashboardAnalytics(resources, stats);
+  const expiringExceptions = useMemo(() => getExpiringExceptions(exceptions), [exceptions]);
 
   // Animation Variants
   const containerVars: any = {
@@ -232,6 +239,39 @@ export const Dashboard: React.FC<DashboardProps> = ({
           </div>
       </MotionDiv>
 
+      {/* Exceptions about to lapse; their violations will count against compliance again */}
+      {expiringExceptions.length > 0 && (
+        <MotionDiv variants={itemVars} className="bg-white dark:bg-slate-900 border border-amber-200 dark:border-amber-900/40 rounded-2xl p-6 shadow-sm">
+            <div className="flex justify-between items-start mb-4">
+                <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                   <CalendarClock className="w-5 h-5 text-amber-500" /> Expiring Exceptions
+                </h3>
+                <button onClick={() => onNavigate('policy')} className="text-xs font-bold text-indigo-600 dark:text-indigo-400 hover:underline flex items-center gap-1">
+                    Review <ArrowRight className="w-3 h-3" />
+                </button>
+            </div>
+            <p className="text-xs text-slate-500 mb-4">
+                {expiringExceptions.length} waiver{expiringExceptions.length === 1 ? '' : 's'} lapse within {EXPIRING_SOON_DAYS} days. Renew them or remediate the affected resources.
+            </p>
+            <div className="divide-y divide-slate-100 dark:divide-slate-800">
+                {expiringExceptions.map(e => (
+                    <div key={e.id} className="flex items-center justify-between gap-4 py-2.5">
+                        <div className="min-w-0">
+                            <div className="text-sm font-bold text-slate-700 dark:text-slate-200 truncate">
+                                {policies.find(p => p.id === e.policyId)?.name || e.policyId}
+                                <span className="font-mono font-normal text-slate-500 ml-2">
+                                    {e.resourceId ? (resources.find(r => r.id === e.resourceId)?.name || e.resourceId) : 'selector'}
+                                </span>
+                            </div>
+                            <div className="text-[11px] text-slate-500 truncate">{e.justification} — approved by {e.approver}</div>
+                        </div>
+                        <ExceptionStatusBadge exception={e} />
+                    </div>
+                ))}
+            </div>
+        </MotionDiv>
+      )}
+
       {/* 3. Deep Dive Analytics */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
          
@@ -1,6 +1,6 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { GceResource, LabelOperation, OperationType, SavedPipeline } from '../types';
+import { GceResource, LabelOperation, OperationType, SavedPipeline, TaxonomyRule } from '../types';
 import { 
   Tag, Eraser, ArrowRight, X, 
   RefreshCw, Plus, Trash2,
@@ -11,6 +11,8 @@ import {
   AlertTriangle, ScanSearch
 } from 'lucide-react';
 import { Button, Input, ToggleSwitch, Badge, Select, Modal } from './DesignSystem';
+import { TaxonomyValueSelect } from './TaxonomyValueSelect';
+import { getAllowedValues } from '../services/taxonomyHierarchy';
 import { motion, AnimatePresence } from 'framer-motion';
 
 const MotionDiv = motion.div as any;
@@ -24,6 +26,7 @@ interface LabelingStudioProps {
   onApply: (updates: Map<string, Record<string, string>>, reason?: string) => void;
   savedPipelines?: SavedPipeline[];
   onSavePipeline?: (pipeline: SavedPipeline) => void;
+  taxonomy?: TaxonomyRule[];
 }
 
 // --- Constants ---
@@ -111,6 +114,17 @@ const resolveTokens = (template: string, resource: GceResource): string => {
     return result;
 };
 
+// Labels fixed by the enabled static ADD steps before `index`; token values are unknown until applied
+const staticLabelsBefore = (ops: LabelOperation[], index: number) => {
+    const labels: Record<string, string> = {};
+    ops.slice(0, index).forEach(op => {
+        if (op.enabled && op.type === 'ADD' && op.config.key && op.config.value && !op.config.value.includes('{{')) {
+            labels[op.config.key] = op.config.value;
+        }
+    });
+    return labels;
+};
+
 const applyOperations = (labels: Record<string, string>, resource: GceResource, ops: LabelOperation[]) => {
   let currentLabels = { ...labels };
 
@@ -232,7 +246,7 @@ const TokenBadge: React.FC<{ token: { label: string; token: string; desc?: strin
 );
 
 export const LabelingStudio: React.FC<LabelingStudioProps> = ({ 
-  isOpen, onClose, selectedResources, onApply, savedPipelines = [], onSavePipeline 
+  isOpen, onClose, selectedResources, onApply, savedPipelines = [], onSavePipeline, taxonomy = []
 }) => {
   const [pipeline, setPipeline] = useState<LabelOperation[]>([]);
   const [viewMode, setViewMode] = useState<'BUILD' | 'REVIEW' | 'ANALYSIS'>('BUILD');
@@ -263,6 +277,23 @@ export const LabelingStudio: React.FC<LabelingStudioProps> = ({
     setPipeline(prev => prev.map(p => p.id === id ? { ...p, config: { ...p.config, [field]: value } } : p));
   };
 
+  // Setting a hierarchy value in an ADD step clears later dependent ADD steps that left its branch
+  const updateAddValue = (id: string, value: string) => {
+    setPipeline(prev => {
+      const next = prev.map(p => p.id === id ? { ...p, config: { ...p.config, value } } : p);
+      const start = next.findIndex(p => p.id === id) + 1;
+      for (let i = start; i < next.length; i++) {
+        const op = next[i];
+        if (op.type !== 'ADD' || !op.config.key || !op.config.value || op.config.value.includes('{{')) continue;
+        const allowed = getAllowedValues(taxonomy, op.config.key, staticLabelsBefore(next, i));
+        if (allowed.length > 0 && !allowed.includes(op.config.value)) {
+          next[i] = { ...op, config: { ...op.config, value: '' } };
+        }
+      }
+      return next;
+    });
+  };
+
   const removeOperation = (id: string) => {
     setPipeline(prev => prev.filter(p => p.id !== id));
   };
@@ -542,6 +573,7 @@ export const LabelingStudio: React.FC<LabelingStudioProps> = ({
                         <AnimatePresence>
                         {pipeline.map((op, idx) => {
                             const Meta = OP_DESCRIPTIONS[op.type];
+                            const taxonomyOptions = op.type === 'ADD' ? getAllowedValues(taxonomy, op.config.key || '', staticLabelsBefore(pipeline, idx)) : [];
                             return (
                                 <MotionDiv 
                                     key={op.id} layout initial={{ opacity: 0, x: -10 }} animate={{ opacity: 1, x: 0 }} exit={{ opacity: 0, scale: 0.95 }}
@@ -601,11 +633,22 @@ export const LabelingStudio: React.FC<LabelingStudioProps> = ({
                                                             <div className="flex gap-2">
                                                                 <Input 
                                                                     value={op.config.value} 
-                                                                    onChange={e => updateConfig(op.id, 'value', e.target.value)} 
+                                                                    onChange={e => op.type === 'ADD' ? updateAddValue(op.id, e.target.value) : updateConfig(op.id, 'value', e.target.value)} 
                                                                     placeholder="static-value or {{name}}" 
                                                                     className="text-xs font-mono h-8 flex-1" 
                                                                 />
                                                             </div>
+                                                            {taxonomyOptions.length > 0 && (
+                                                                <div className="mt-2">
+                                                                    <TaxonomyValueSelect 
+                                                                        options={taxonomyOptions}
+                                                                        value={op.config.value?.includes('{{') ? '' : op.config.value || ''}
+                                                                        onChange={value => updateAddValue(op.id, value)}
+                                                                        placeholder="Pick from taxonomy..."
+                                                                        className="text-xs font-mono h-8 py-1"
+                                                                    />
+                                                                </div>
+                                                            )}
                                                             <div className="flex flex-wrap gap-2 mt-2">
                                                                 {DYNAMIC_TOKENS.map(t => (
                                                                     <TokenBadge 
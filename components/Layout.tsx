@@ -1,8 +1,8 @@
 
 import React from 'react';
 import { NAVIGATION_ITEMS, APP_NAME } from '../constants';
-import { LogOut, Menu, X, CheckCircle2, AlertTriangle, Info, Moon, Sun, Bookmark, Trash2, Tags, Search, ChevronRight, AlertOctagon, Terminal, Zap } from 'lucide-react';
-import { Notification, SavedView } from '../types';
+import { LogOut, Menu, X, CheckCircle2, AlertTriangle, Info, Moon, Sun, Bookmark, Trash2, Tags, Search, ChevronRight, AlertOctagon, Terminal, Zap, Activity, Loader2, StopCircle, RotateCw } from 'lucide-react';
+import { Notification, SavedView, ScanSourceProgress, ScanSourceState } from '../types';
 import { motion, AnimatePresence } from 'framer-motion';
 
 // Fix for framer-motion type mismatches
@@ -22,8 +22,94 @@ interface LayoutProps {
   onSelectView?: (view: SavedView) => void;
   onDeleteView?: (id: string) => void;
   projectId?: string;
+  scanProgress?: ScanSourceProgress[];
+  isScanning?: boolean;
+  onCancelScan?: () => void;
 }
 
+const SCAN_STATE_STYLES: Record<ScanSourceState, string> = {
+    RUNNING: 'text-indigo-600 dark:text-indigo-400',
+    DONE: 'text-emerald-600 dark:text-emerald-400',
+    FAILED: 'text-red-600 dark:text-red-400',
+    CANCELLED: 'text-slate-400 dark:text-slate-500',
+};
+
+const ScanStatusPanel: React.FC<{ sources: ScanSourceProgress[], isScanning: boolean, onCancel?: () => void }> = ({ sources, isScanning, onCancel }) => {
+    const [open, setOpen] = React.useState(false);
+    const finished = sources.filter(s => s.state !== 'RUNNING').length;
+    const totalItems = sources.reduce((sum, s) => sum + s.items, 0);
+    const failed = sources.filter(s => s.state === 'FAILED' || s.errors > 0).length;
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setOpen(!open)}
+                className="flex items-center gap-2 px-2.5 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-300 rounded-lg border border-slate-200 dark:border-slate-800 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+                title="Scan Status"
+            >
+                {isScanning ? <Loader2 className="w-3.5 h-3.5 animate-spin text-indigo-500" /> : <Activity className="w-3.5 h-3.5" />}
+                <span className="font-mono">{finished}/{sources.length}</span>
+                {failed > 0 && <AlertTriangle className="w-3.5 h-3.5 text-amber-500" />}
+            </button>
+
+            <AnimatePresence>
+                {open && (
+                    <MotionDiv
+                        initial={{ opacity: 0, y: -4 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -4 }}
+                        className="absolute right-0 top-full mt-2 w-[420px] bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl shadow-xl z-50 overflow-hidden"
+                    >
+                        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100 dark:border-slate-800">
+                            <div>
+                                <h4 className="text-xs font-bold uppercase tracking-wider text-slate-700 dark:text-slate-200">
+                                    {isScanning ? 'Scan in Progress' : 'Last Scan'}
+                                </h4>
+                                <p className="text-[10px] text-slate-500 font-mono mt-0.5">{totalItems} items from {sources.length} sources</p>
+                            </div>
+                            {isScanning && onCancel && (
+                                <button
+                                    onClick={onCancel}
+                                    className="flex items-center gap-1.5 px-2 py-1 text-xs font-medium text-red-600 dark:text-red-400 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                                >
+                                    <StopCircle className="w-3.5 h-3.5" /> Cancel
+                                </button>
+                            )}
+                        </div>
+                        <div className="max-h-[360px] overflow-y-auto custom-scrollbar">
+                            <table className="w-full text-xs">
+                                <thead className="text-[10px] uppercase tracking-wider text-slate-400 bg-slate-50 dark:bg-slate-950/50">
+                                    <tr>
+                                        <th className="text-left font-bold px-4 py-2">Source</th>
+                                        <th className="text-right font-bold px-2 py-2">Pages</th>
+                                        <th className="text-right font-bold px-2 py-2">Items</th>
+                                        <th className="text-right font-bold px-2 py-2">Errors</th>
+                                        <th className="text-right font-bold px-4 py-2"><RotateCw className="w-3 h-3 inline" /></th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                                    {sources.map(s => (
+                                        <tr key={s.source} title={[s.lastError, s.remediation].filter(Boolean).join('\n')}>
+                                            <td className="px-4 py-2">
+                                                <div className="font-medium text-slate-700 dark:text-slate-200 truncate max-w-[200px]">{s.source}</div>
+                                                <div className={`text-[9px] font-bold uppercase tracking-wide ${SCAN_STATE_STYLES[s.state]}`}>{s.state}</div>
+                                            </td>
+                                            <td className="text-right px-2 py-2 font-mono text-slate-500">{s.pages}</td>
+                                            <td className="text-right px-2 py-2 font-mono text-slate-700 dark:text-slate-300">{s.items}</td>
+                                            <td className={`text-right px-2 py-2 font-mono ${s.errors > 0 ? 'text-red-600 dark:text-red-400 font-bold' : 'text-slate-400'}`}>{s.errors}</td>
+                                            <td className={`text-right px-4 py-2 font-mono ${s.retries > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-slate-400'}`}>{s.retries}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </MotionDiv>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+};
+
 const ToastItem: React.FC<{ n: Notification, onDismiss: (id: string) => void }> = ({ n, onDismiss }) => {
     // Determine styles based on type
     let styles = {
@@ -138,7 +224,10 @@ export const Layout: React.FC<LayoutProps> = ({
   savedViews = [],
   onSelectView,
   onDeleteView,
-  projectId
+  projectId,
+  scanProgress = [],
+  isScanning = false,
+  onCancelScan
 }) => {
   const [mobileMenuOpen, setMobileMenuOpen] = React.useState(false);
 
@@ -318,6 +407,10 @@ export const Layout: React.FC<LayoutProps> = ({
                <kbd className="hidden sm:inline-block px-1.5 py-0.5 text-[9px] font-bold text-slate-400 bg-white dark:bg-slate-800 rounded border border-slate-200 dark:border-slate-700 font-mono">⌘K</kbd>
             </div>
 
+            {scanProgress.length > 0 && (
+                <ScanStatusPanel sources={scanProgress} isScanning={isScanning} onCancel={onCancelScan} />
+            )}
+
             <div className="h-6 w-px bg-slate-200 dark:bg-slate-800"></div>
 
             <button
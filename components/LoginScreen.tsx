@@ -1,12 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { GcpCredentials } from '../types';
-import { APP_NAME, APP_VERSION } from '../constants';
+import { GcpCredentials, ScanScope, AuthMode, OAuthConfig, ProjectCapabilities, TrafficBundle } from '../types';
+import { loadOAuthConfig } from '../services/authService';
+import { preflightPermissions } from '../services/permissionService';
+import { isAuthError } from '../services/gcpErrors';
+import { parseTrafficBundle, startReplay, stopReplay } from '../services/trafficRecorder';
+import { APP_NAME, APP_VERSION, PROJECT_PERMISSIONS, YALLA_ROLE_PERMISSIONS } from '../constants';
 import { Button, Input, Modal, Badge } from './DesignSystem';
+import { CapabilityMatrix } from './CapabilityMatrix';
 import { 
   Tags, ArrowRight, Key, Cloud, Lock, 
   Activity, CheckCircle2, Zap, ShieldAlert, 
-  Shield, Terminal, Copy
+  Shield, Terminal, Copy, FolderTree, LogIn, Settings2, KeyRound, XCircle
 } from 'lucide-react';
 
 const MotionDiv = motion.div as any;
@@ -14,9 +19,11 @@ const MotionForm = motion.form as any;
 
 interface LoginScreenProps {
   onConnect: (creds: GcpCredentials) => Promise<void>;
+  onOAuthSignIn: (config: OAuthConfig, projectId: string, scope?: ScanScope) => void;
   isConnecting: boolean;
   loadingStatus?: { progress: number, message: string };
   onDemo: () => void;
+  onCancel?: () => void;
 }
 
 const ConnectionStep = ({ label, active, completed }: { label: string, active: boolean, completed: boolean }) => (
@@ -29,11 +36,22 @@ const ConnectionStep = ({ label, active, completed }: { label: string, active: b
     </div>
 );
 
-export const LoginScreen: React.FC<LoginScreenProps> = ({ onConnect, isConnecting, loadingStatus, onDemo }) => {
+export const LoginScreen: React.FC<LoginScreenProps> = ({ onConnect, onOAuthSignIn, isConnecting, loadingStatus, onDemo, onCancel }) => {
   const [projectId, setProjectId] = useState('');
   const [token, setToken] = useState('');
+  const [oauthConfig, setOauthConfig] = useState<OAuthConfig>(loadOAuthConfig);
+  const [authMode, setAuthMode] = useState<AuthMode>(() => oauthConfig.clientId ? 'OAUTH' : 'TOKEN');
+  const [showOAuthSettings, setShowOAuthSettings] = useState(false);
+  const [scopeType, setScopeType] = useState<ScanScope['type']>('PROJECT');
+  const [scopeId, setScopeId] = useState('');
   const [showSecurityModal, setShowSecurityModal] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [preflight, setPreflight] = useState<ProjectCapabilities | null>(null);
+  const [isCheckingPermissions, setIsCheckingPermissions] = useState(false);
+  const [preflightError, setPreflightError] = useState<string | null>(null);
+  const [replayBundle, setReplayBundle] = useState<TrafficBundle | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
       const lastId = localStorage.getItem('lastProjectId');
@@ -42,16 +60,77 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onConnect, isConnectin
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (projectId && token) {
-      onConnect({ projectId, accessToken: token });
+    if (!projectId) return;
+    const scope: ScanScope | undefined = scopeType !== 'PROJECT' && scopeId.trim()
+      ? { type: scopeType, id: scopeId.trim() }
+      : undefined;
+
+    if (authMode === 'OAUTH') {
+      if (oauthConfig.clientId) onOAuthSignIn(oauthConfig, projectId, scope);
+    } else if (token) {
+      onConnect({ projectId, accessToken: token, scope, authMode: 'TOKEN' });
     }
   };
 
-  const copyCommand = () => {
-     const cmd = `gcloud iam roles create YallaLabelManager \\
+  // Test the pasted token against the project before connecting
+  const checkPermissions = async () => {
+     if (!projectId || !token) return;
+     setIsCheckingPermissions(true);
+     setPreflightError(null);
+     try {
+        const [result] = await preflightPermissions([projectId], token);
+        setPreflight(result);
+     } catch (e: any) {
+        setPreflight(null);
+        setPreflightError(isAuthError(e) ? 'Token was rejected (expired or invalid).' : e.message);
+     } finally {
+        setIsCheckingPermissions(false);
+     }
+  };
+
+  // Replay serves every API call from the bundle, so the token is a placeholder
+  const loadReplayBundle = async (e: React.ChangeEvent<HTMLInputElement>) => {
+     const file = e.target.files?.[0];
+     e.target.value = '';
+     if (!file) return;
+     try {
+        const bundle = parseTrafficBundle(await file.text());
+        startReplay(bundle);
+        setReplayBundle(bundle);
+        setReplayError(null);
+        setAuthMode('TOKEN');
+        setToken('replay');
+        if (bundle.projectIds[0]) setProjectId(bundle.projectIds[0]);
+     } catch (err: any) {
+        setReplayError(err.message);
+     }
+  };
+
+  const cancelReplay = () => {
+     stopReplay();
+     setReplayBundle(null);
+     setToken('');
+  };
+
+  // A preflight result only describes the project and token it was run with
+  useEffect(() => { setPreflight(null); setPreflightError(null); }, [projectId, token]);
+
+  const missingPermissions = preflight && !preflight.error
+     ? PROJECT_PERMISSIONS.filter(p => !preflight.granted.includes(p))
+     : [];
+
+  const roleCommand = `gcloud iam roles create YallaLabelManager \\
   --project=${projectId || '$PROJECT_ID'} \\
   --title="Yalla Label Manager" \\
-  --permissions=compute.instances.list,compute.instances.get,compute.instances.setLabels,compute.disks.list,compute.disks.get,compute.disks.setLabels,storage.buckets.list,storage.buckets.get,storage.buckets.update,logging.logEntries.list,resourcemanager.projects.get,compute.regions.list,run.services.list,run.services.update,container.clusters.list,container.clusters.update`;
+  --permissions=${YALLA_ROLE_PERMISSIONS.join(',')}`;
+
+  // Existing roles only need the gap filled
+  const updateCommand = `gcloud iam roles update YallaLabelManager \\
+  --project=${projectId || '$PROJECT_ID'} \\
+  --add-permissions=${missingPermissions.join(',')}`;
+
+  const copyCommand = () => {
+     const cmd = missingPermissions.length > 0 ? updateCommand : roleCommand;
      
      navigator.clipboard.writeText(cmd);
      setCopied(true);
@@ -115,6 +194,14 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onConnect, isConnectin
                            <ConnectionStep label="Connect Resource Manager" active={progress >= 40 && progress < 70} completed={progress >= 70} />
                            <ConnectionStep label="Sync Governance Config" active={progress >= 70 && progress < 100} completed={progress >= 100} />
                         </div>
+
+                        {onCancel && (
+                           <div className="flex justify-center">
+                              <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+                                 Cancel Scan
+                              </Button>
+                           </div>
+                        )}
                      </MotionDiv>
                   ) : (
                      <MotionForm 
@@ -137,30 +224,143 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onConnect, isConnectin
                               name="project_id_field_no_fill"
                            />
                         </div>
+
+                        <div className="space-y-2">
+                           <label className="text-[10px] font-bold uppercase tracking-wider text-slate-500 ml-1">Scan Scope</label>
+                           <div className="grid grid-cols-3 gap-1 p-1 bg-slate-100 dark:bg-slate-950 rounded-lg border border-slate-200 dark:border-slate-800">
+                              {(['PROJECT', 'FOLDER', 'ORGANIZATION'] as const).map(type => (
+                                 <button
+                                    key={type}
+                                    type="button"
+                                    onClick={() => setScopeType(type)}
+                                    className={`text-[10px] font-bold uppercase tracking-wide py-1.5 rounded-md transition-colors ${scopeType === type ? 'bg-white dark:bg-slate-800 text-indigo-600 dark:text-indigo-400 shadow-sm' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
+                                 >
+                                    {type === 'ORGANIZATION' ? 'Org' : type.toLowerCase()}
+                                 </button>
+                              ))}
+                           </div>
+                           {scopeType !== 'PROJECT' && (
+                              <Input 
+                                 value={scopeId}
+                                 onChange={(e) => setScopeId(e.target.value.replace(/^(folders|organizations)\//, ''))}
+                                 placeholder={scopeType === 'FOLDER' ? 'Folder ID (e.g. 123456789012)' : 'Organization ID (e.g. 987654321098)'}
+                                 required
+                                 className="bg-white dark:bg-slate-950 border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-600 h-11 text-sm font-mono focus:border-indigo-500 focus:ring-indigo-500/20"
+                                 icon={<FolderTree className="w-4 h-4 text-slate-400 dark:text-slate-500" />}
+                                 autoComplete="off"
+                              />
+                           )}
+                        </div>
                         
                         <div className="space-y-2">
-                           <div className="flex justify-between items-center ml-1">
-                              <label className="text-[10px] font-bold uppercase tracking-wider text-slate-500">Access Token</label>
-                              <a 
-                                 href="https://developers.google.com/oauthplayground" 
-                                 target="_blank" 
-                                 rel="noreferrer"
-                                 className="text-[10px] text-indigo-600 dark:text-indigo-400 hover:text-indigo-500 hover:underline flex items-center gap-1"
-                              >
-                                 Get Token <ArrowRight className="w-2.5 h-2.5" />
-                              </a>
+                           <label className="text-[10px] font-bold uppercase tracking-wider text-slate-500 ml-1">Sign-In Method</label>
+                           <div className="grid grid-cols-2 gap-1 p-1 bg-slate-100 dark:bg-slate-950 rounded-lg border border-slate-200 dark:border-slate-800">
+                              {(['OAUTH', 'TOKEN'] as const).map(mode => (
+                                 <button
+                                    key={mode}
+                                    type="button"
+                                    onClick={() => setAuthMode(mode)}
+                                    className={`text-[10px] font-bold uppercase tracking-wide py-1.5 rounded-md transition-colors ${authMode === mode ? 'bg-white dark:bg-slate-800 text-indigo-600 dark:text-indigo-400 shadow-sm' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
+                                 >
+                                    {mode === 'OAUTH' ? 'Google Sign-In' : 'Access Token'}
+                                 </button>
+                              ))}
                            </div>
-                           <Input 
-                              type="password"
-                              value={token}
-                              onChange={(e) => setToken(e.target.value)}
-                              placeholder="oauth2-token"
-                              required
-                              className="bg-white dark:bg-slate-950 border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-600 h-11 text-sm font-mono focus:border-indigo-500 focus:ring-indigo-500/20"
-                              icon={<Key className="w-4 h-4 text-slate-400 dark:text-slate-500" />}
-                              autoComplete="new-password"
-                              data-lpignore="true"
-                           />
+                        </div>
+
+                        <div className="space-y-2">
+                           {authMode === 'OAUTH' ? (
+                              <>
+                                 <div className="flex justify-between items-center ml-1">
+                                    <label className="text-[10px] font-bold uppercase tracking-wider text-slate-500">OAuth Client ID</label>
+                                    <button
+                                       type="button"
+                                       onClick={() => setShowOAuthSettings(!showOAuthSettings)}
+                                       className="text-[10px] text-indigo-600 dark:text-indigo-400 hover:text-indigo-500 hover:underline flex items-center gap-1"
+                                    >
+                                       <Settings2 className="w-2.5 h-2.5" /> {showOAuthSettings ? 'Hide' : 'Advanced'}
+                                    </button>
+                                 </div>
+                                 <Input 
+                                    value={oauthConfig.clientId}
+                                    onChange={(e) => setOauthConfig({ ...oauthConfig, clientId: e.target.value.trim() })}
+                                    placeholder="1234-abc.apps.googleusercontent.com"
+                                    required
+                                    className="bg-white dark:bg-slate-950 border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-600 h-11 text-sm font-mono focus:border-indigo-500 focus:ring-indigo-500/20"
+                                    icon={<Key className="w-4 h-4 text-slate-400 dark:text-slate-500" />}
+                                    autoComplete="off"
+                                 />
+                                 {showOAuthSettings && (
+                                    <div className="space-y-2 p-3 rounded-lg border border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-950/50">
+                                       <label className="text-[10px] font-bold uppercase tracking-wider text-slate-500">Scopes</label>
+                                       <Input 
+                                          value={oauthConfig.scopes.join(' ')}
+                                          onChange={(e) => setOauthConfig({ ...oauthConfig, scopes: e.target.value.split(/\s+/).filter(Boolean) })}
+                                          className="h-9 text-xs font-mono"
+                                       />
+                                       <label className="text-[10px] font-bold uppercase tracking-wider text-slate-500">Authorization Endpoint</label>
+                                       <Input 
+                                          value={oauthConfig.authorizationEndpoint}
+                                          onChange={(e) => setOauthConfig({ ...oauthConfig, authorizationEndpoint: e.target.value.trim() })}
+                                          className="h-9 text-xs font-mono"
+                                       />
+                                       <label className="text-[10px] font-bold uppercase tracking-wider text-slate-500">Token Endpoint</label>
+                                       <Input 
+                                          value={oauthConfig.tokenEndpoint}
+                                          onChange={(e) => setOauthConfig({ ...oauthConfig, tokenEndpoint: e.target.value.trim() })}
+                                          className="h-9 text-xs font-mono"
+                                       />
+                                       <p className="text-[10px] text-slate-400 leading-relaxed">
+                                          Redirect URI: <span className="font-mono">{window.location.origin}{window.location.pathname}</span>
+                                       </p>
+                                    </div>
+                                 )}
+                              </>
+                           ) : (
+                              <>
+                                 <div className="flex justify-between items-center ml-1">
+                                    <label className="text-[10px] font-bold uppercase tracking-wider text-slate-500">Access Token</label>
+                                    <a 
+                                       href="https://developers.google.com/oauthplayground" 
+                                       target="_blank" 
+                                       rel="noreferrer"
+                                       className="text-[10px] text-indigo-600 dark:text-indigo-400 hover:text-indigo-500 hover:underline flex items-center gap-1"
+                                    >
+                                       Get Token <ArrowRight className="w-2.5 h-2.5" />
+                                    </a>
+                                 </div>
+                                 <Input 
+                                    type="password"
+                                    value={token}
+                                    onChange={(e) => setToken(e.target.value)}
+                                    placeholder="oauth2-token"
+                                    required
+                                    className="bg-white dark:bg-slate-950 border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-600 h-11 text-sm font-mono focus:border-indigo-500 focus:ring-indigo-500/20"
+                                    icon={<Key className="w-4 h-4 text-slate-400 dark:text-slate-500" />}
+                                    autoComplete="new-password"
+                                    data-lpignore="true"
+                                 />
+                                 <div className="flex justify-end">
+                                    <button
+                                       type="button"
+                                       onClick={checkPermissions}
+                                       disabled={!projectId || !token || isCheckingPermissions}
+                                       className="text-[10px] text-indigo-600 dark:text-indigo-400 hover:text-indigo-500 hover:underline disabled:opacity-40 disabled:no-underline flex items-center gap-1"
+                                    >
+                                       <KeyRound className={`w-2.5 h-2.5 ${isCheckingPermissions ? 'animate-pulse' : ''}`} />
+                                       {isCheckingPermissions ? 'Checking...' : 'Check Permissions'}
+                                    </button>
+                                 </div>
+                                 {preflightError && (
+                                    <p className="text-[10px] text-red-600 dark:text-red-400">{preflightError}</p>
+                                 )}
+                                 {preflight && (
+                                    <div className="p-3 rounded-lg border border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-950/50 max-h-56 overflow-y-auto">
+                                       <CapabilityMatrix capabilities={[preflight]} />
+                                    </div>
+                                 )}
+                              </>
+                           )}
                            
                            {/* Enhanced Security Tip Trigger */}
                            <button 
@@ -172,7 +372,9 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onConnect, isConnectin
                               <div className="flex-1">
                                  <div className="text-xs font-bold text-amber-700 dark:text-amber-400 mb-0.5">Recommended: Use Limited Access</div>
                                  <div className="text-[10px] text-amber-600/80 dark:text-amber-200/60 leading-relaxed group-hover:text-amber-700 dark:group-hover:text-amber-200/80">
-                                    Click to view required IAM permissions for a least-privilege role.
+                                    {missingPermissions.length > 0
+                                       ? `This token is missing ${missingPermissions.length} permissions. Click to see which.`
+                                       : 'Click to view required IAM permissions for a least-privilege role.'}
                                  </div>
                               </div>
                               <ArrowRight className="w-3 h-3 text-amber-500/50 mt-1 opacity-0 group-hover:opacity-100 transition-opacity" />
@@ -183,9 +385,9 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onConnect, isConnectin
                            <Button 
                               type="submit" 
                               className="w-full h-11 font-bold bg-indigo-600 hover:bg-indigo-700 dark:hover:bg-indigo-500 text-white shadow-lg shadow-indigo-600/20 transition-all"
-                              rightIcon={<ArrowRight className="w-4 h-4" />}
+                              rightIcon={authMode === 'OAUTH' ? <LogIn className="w-4 h-4" /> : <ArrowRight className="w-4 h-4" />}
                            >
-                              Secure Connect
+                              {authMode === 'OAUTH' ? 'Sign in with Google' : 'Secure Connect'}
                            </Button>
                         </div>
                      </MotionForm>
@@ -195,15 +397,37 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onConnect, isConnectin
 
             {/* Footer Actions */}
             {!isConnecting && (
-               <div className="px-8 py-4 bg-slate-50/80 dark:bg-[#080c17]/80 border-t border-slate-100 dark:border-slate-800/60 flex justify-center">
-                  <button 
-                     type="button"
-                     onClick={onDemo}
-                     className="text-xs text-slate-500 hover:text-slate-800 dark:hover:text-white transition-colors flex items-center gap-2 group font-medium"
-                  >
-                     <span className="w-1.5 h-1.5 rounded-full bg-slate-400 dark:bg-slate-700 group-hover:bg-emerald-500 transition-colors"></span>
-                     Initialize Demo Environment
-                  </button>
+               <div className="px-8 py-4 bg-slate-50/80 dark:bg-[#080c17]/80 border-t border-slate-100 dark:border-slate-800/60 space-y-2">
+                  <div className="flex justify-center gap-6">
+                     <button 
+                        type="button"
+                        onClick={onDemo}
+                        className="text-xs text-slate-500 hover:text-slate-800 dark:hover:text-white transition-colors flex items-center gap-2 group font-medium"
+                     >
+                        <span className="w-1.5 h-1.5 rounded-full bg-slate-400 dark:bg-slate-700 group-hover:bg-emerald-500 transition-colors"></span>
+                        Initialize Demo Environment
+                     </button>
+                     <button 
+                        type="button"
+                        onClick={() => bundleInputRef.current?.click()}
+                        className="text-xs text-slate-500 hover:text-slate-800 dark:hover:text-white transition-colors flex items-center gap-2 group font-medium"
+                     >
+                        <span className="w-1.5 h-1.5 rounded-full bg-slate-400 dark:bg-slate-700 group-hover:bg-indigo-500 transition-colors"></span>
+                        Replay Traffic Bundle
+                     </button>
+                     <input ref={bundleInputRef} type="file" accept="application/json,.json" className="hidden" onChange={loadReplayBundle} />
+                  </div>
+                  {replayBundle && (
+                     <p className="text-[10px] text-center text-indigo-600 dark:text-indigo-400 font-mono">
+                        Replaying {replayBundle.exchanges.length} exchanges recorded {new Date(replayBundle.recordedAt).toLocaleString()}
+                        {replayBundle.projectIds.length > 1 && ` (projects: ${replayBundle.projectIds.join(', ')})`}
+                        {' · '}
+                        <button type="button" onClick={cancelReplay} className="underline hover:text-indigo-500">Stop</button>
+                     </p>
+                  )}
+                  {replayError && (
+                     <p className="text-[10px] text-center text-red-600 dark:text-red-400">{replayError}</p>
+                  )}
                </div>
             )}
          </MotionDiv>
@@ -251,19 +475,29 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onConnect, isConnectin
                         </div>
                      </div>
 
+                     {missingPermissions.length > 0 && (
+                        <div>
+                           <h5 className="text-xs font-bold uppercase text-red-500 tracking-wider mb-3">Missing for this Token ({missingPermissions.length})</h5>
+                           <div className="grid grid-cols-2 gap-2 text-[10px] font-mono max-h-40 overflow-y-auto">
+                              {missingPermissions.map(permission => (
+                                 <div key={permission} className="p-2 bg-red-50 dark:bg-red-900/20 rounded border border-red-200 dark:border-red-900/50 flex items-center gap-2 text-red-700 dark:text-red-300 break-all">
+                                    <XCircle className="w-3 h-3 shrink-0" /> {permission}
+                                 </div>
+                              ))}
+                           </div>
+                        </div>
+                     )}
+
                      <div>
                         <div className="flex justify-between items-center mb-2">
                            <h5 className="text-xs font-bold uppercase text-slate-400 tracking-wider flex items-center gap-2">
-                              <Terminal className="w-3 h-3" /> Quick Setup Command
+                              <Terminal className="w-3 h-3" /> {missingPermissions.length > 0 ? 'Grant Missing Permissions' : 'Quick Setup Command'}
                            </h5>
                            <Badge variant="neutral" className="font-mono text-[9px]">Cloud Shell</Badge>
                         </div>
                         <div className="relative group">
                            <pre className="bg-slate-100 dark:bg-slate-900 text-slate-700 dark:text-slate-300 p-4 rounded-xl text-[10px] font-mono leading-relaxed overflow-x-auto border border-slate-200 dark:border-slate-800">
-                              {`gcloud iam roles create YallaLabelManager \\
-  --project=${projectId || '$PROJECT_ID'} \\
-  --title="Yalla Label Manager" \\
-  --permissions=compute.instances.list,compute.instances.get,compute.instances.setLabels,compute.disks.list,compute.disks.get,compute.disks.setLabels,storage.buckets.list,storage.buckets.get,storage.buckets.update,logging.logEntries.list,resourcemanager.projects.get,compute.regions.list,run.services.list,run.services.update,container.clusters.list,container.clusters.update`}
+                              {missingPermissions.length > 0 ? updateCommand : roleCommand}
                            </pre>
                            <button 
                               onClick={copyCommand}
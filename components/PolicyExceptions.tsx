@@ -0,0 +1,259 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarClock, FileCheck2, Plus, ShieldOff, Trash2, User } from 'lucide-react';
+import { GceResource, GovernancePolicy, PolicyException, PolicyScope } from '../types';
+import { Badge, Button, Input, Modal, Select } from './DesignSystem';
+import { PolicyScopeEditor, PolicyScopeSummary } from './PolicyScopeEditor';
+import { findException, isExceptionActive, daysUntilExpiry, validateException, EXPIRING_SOON_DAYS } from '../services/policyExceptions';
+
+interface PolicyExceptionsPanelProps {
+  exceptions: PolicyException[];
+  policies: GovernancePolicy[];
+  resources: GceResource[];
+  onChange: (exceptions: PolicyException[]) => void;
+}
+
+const DURATION_PRESETS = [30, 90, 180];
+
+const toDateInput = (ts: number) => new Date(ts - new Date(ts).getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+
+// A date-only expiry lasts through the end of that local day
+const fromDateInput = (value: string) => value ? new Date(`${value}T23:59:59`).getTime() : 0;
+
+const daysFromNow = (days: number) => Date.now() + days * 24 * 60 * 60 * 1000;
+
+export const ExceptionStatusBadge: React.FC<{ exception: PolicyException }> = ({ exception }) => {
+  if (!isExceptionActive(exception)) return <Badge variant="neutral" className="text-[9px]">EXPIRED</Badge>;
+  const days = daysUntilExpiry(exception);
+  if (days <= EXPIRING_SOON_DAYS) return <Badge variant="warning" className="text-[9px]">{days <= 1 ? 'EXPIRES TODAY' : `EXPIRES IN ${days}D`}</Badge>;
+  return <Badge variant="success" className="text-[9px]">ACTIVE</Badge>;
+};
+
+const PolicyExceptionModal = ({ policies, resources, onClose, onSave }: {
+  policies: GovernancePolicy[];
+  resources: GceResource[];
+  onClose: () => void;
+  onSave: (exception: PolicyException) => void;
+}) => {
+  const [policyId, setPolicyId] = useState(policies.find(p => p.isEnabled)?.id || '');
+  const [target, setTarget] = useState<'resource' | 'selector'>('resource');
+  const [resourceId, setResourceId] = useState('');
+  const [selector, setSelector] = useState<PolicyScope>({});
+  const [justification, setJustification] = useState('');
+  const [approver, setApprover] = useState('');
+  const [expiresAt, setExpiresAt] = useState(fromDateInput(toDateInput(daysFromNow(90))));
+
+  // Only resources currently failing the policy are worth waiving individually
+  const violating = useMemo(() => resources.filter(r =>
+    [...(r.violations || []), ...(r.waivedViolations || [])].some(v => v.policyId === policyId)
+  ), [resources, policyId]);
+
+  const draft: Partial<PolicyException> = {
+    policyId,
+    justification,
+    approver,
+    expiresAt,
+    ...(target === 'resource' ? { resourceId } : { selector })
+  };
+  const error = validateException(draft);
+
+  const covered = useMemo(() => {
+    if (error) return 0;
+    const probe = [{ ...draft, id: 'draft', createdAt: Date.now() } as PolicyException];
+    return violating.filter(r => findException(r, policyId, probe)).length;
+  }, [error, violating, policyId, target, resourceId, selector, expiresAt]);
+
+  const handleSave = () => {
+    onSave({
+      ...draft,
+      id: `exc-${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: Date.now(),
+      justification: justification.trim(),
+      approver: approver.trim()
+    } as PolicyException);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title="New Policy Exception" size="lg">
+      <div className="p-2 space-y-5">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="text-[10px] uppercase font-bold text-slate-500 mb-1 block">Policy</label>
+            <Select value={policyId} onChange={e => { setPolicyId(e.target.value); setResourceId(''); }}>
+              {policies.map(p => (
+                <option key={p.id} value={p.id}>{p.name}{p.isEnabled ? '' : ' (disabled)'}</option>
+              ))}
+            </Select>
+          </div>
+          <div>
+            <label className="text-[10px] uppercase font-bold text-slate-500 mb-1 block">Applies To</label>
+            <div className="flex gap-1 bg-slate-100 dark:bg-slate-900 p-1 rounded-lg">
+              {(['resource', 'selector'] as const).map(t => (
+                <button
+                  key={t}
+                  type="button"
+                  onClick={() => setTarget(t)}
+                  className={`flex-1 px-3 py-1.5 text-xs font-medium rounded-md transition-all ${target === t ? 'bg-white dark:bg-slate-800 text-indigo-600 dark:text-white shadow-sm' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
+                >
+                  {t === 'resource' ? 'Single Resource' : 'Selector'}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {target === 'resource' ? (
+          <div>
+            <label className="text-[10px] uppercase font-bold text-slate-500 mb-1 block">Resource</label>
+            <Select value={resourceId} onChange={e => setResourceId(e.target.value)}>
+              <option value="">{violating.length ? 'Select a violating resource...' : 'No resources violate this policy'}</option>
+              {violating.map(r => (
+                <option key={r.id} value={r.id}>{r.name} ({r.zone})</option>
+              ))}
+            </Select>
+          </div>
+        ) : (
+          <div className="border border-slate-200 dark:border-slate-800 rounded-lg p-4">
+            <PolicyScopeEditor scope={selector} onChange={setSelector} resources={violating} />
+          </div>
+        )}
+
+        <div>
+          <label className="text-[10px] uppercase font-bold text-slate-500 mb-1 block">Justification</label>
+          <textarea
+            value={justification}
+            onChange={e => setJustification(e.target.value)}
+            placeholder="e.g. Bucket serves the public marketing site; access is read-only."
+            rows={3}
+            className="w-full bg-white dark:bg-slate-950 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="text-[10px] uppercase font-bold text-slate-500 mb-1 block">Approver</label>
+            <Input value={approver} onChange={e => setApprover(e.target.value)} placeholder="security-lead@example.com" />
+          </div>
+          <div>
+            <label className="text-[10px] uppercase font-bold text-slate-500 mb-1 flex justify-between">
+              Expires
+              <span className="flex gap-2 normal-case font-medium">
+                {DURATION_PRESETS.map(days => (
+                  <button key={days} type="button" onClick={() => setExpiresAt(fromDateInput(toDateInput(daysFromNow(days))))} className="text-indigo-500 hover:underline">
+                    {days}d
+                  </button>
+                ))}
+              </span>
+            </label>
+            <Input type="date" value={expiresAt ? toDateInput(expiresAt) : ''} min={toDateInput(Date.now())} onChange={e => setExpiresAt(fromDateInput(e.target.value))} />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 pt-4 border-t border-slate-200 dark:border-slate-800">
+          <span className={`text-xs mr-auto ${error ? 'text-red-600 dark:text-red-400' : 'text-slate-500'}`}>
+            {error || `Waives ${covered} current violation${covered === 1 ? '' : 's'}`}
+          </span>
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button variant="primary" onClick={handleSave} disabled={!!error}>Grant Exception</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export const PolicyExceptionsPanel: React.FC<PolicyExceptionsPanelProps> = ({ exceptions, policies, resources, onChange }) => {
+  const [isCreating, setIsCreating] = useState(false);
+
+  const policyName = (id: string) => policies.find(p => p.id === id)?.name || id;
+  const resourceName = (id: string) => resources.find(r => r.id === id)?.name || id;
+
+  const waivedCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    resources.forEach(r => r.waivedViolations?.forEach(v => {
+      if (v.exceptionId) counts[v.exceptionId] = (counts[v.exceptionId] || 0) + 1;
+    }));
+    return counts;
+  }, [resources]);
+
+  // Active exceptions first, soonest expiry on top; expired ones sink to the bottom
+  const sorted = useMemo(() => [...exceptions].sort((a, b) => {
+    const activeDiff = Number(isExceptionActive(b)) - Number(isExceptionActive(a));
+    return activeDiff || a.expiresAt - b.expiresAt;
+  }), [exceptions]);
+
+  const expiredCount = exceptions.filter(e => !isExceptionActive(e)).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row gap-4 justify-between items-start md:items-center bg-white dark:bg-slate-900 p-4 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm">
+        <p className="text-xs text-slate-500 max-w-xl">
+          Waived violations stay visible on each resource but do not count against the governance score. Every exception expires; renew it or fix the resource before then.
+        </p>
+        <div className="flex gap-2 shrink-0">
+          {expiredCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => onChange(exceptions.filter(isExceptionActive))}>
+              Clear {expiredCount} Expired
+            </Button>
+          )}
+          <Button variant="primary" size="sm" onClick={() => setIsCreating(true)} leftIcon={<Plus className="w-4 h-4" />}>
+            New Exception
+          </Button>
+        </div>
+      </div>
+
+      {sorted.length === 0 && (
+        <div className="text-center py-16 text-slate-400 border border-dashed border-slate-200 dark:border-slate-800 rounded-xl">
+          <ShieldOff className="w-8 h-8 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">No policy exceptions granted.</p>
+        </div>
+      )}
+
+      {sorted.map(exception => (
+        <div
+          key={exception.id}
+          className={`bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl p-4 flex flex-col md:flex-row gap-4 justify-between ${isExceptionActive(exception) ? '' : 'opacity-60'}`}
+        >
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center gap-2 mb-1">
+              <ExceptionStatusBadge exception={exception} />
+              <span className="text-sm font-bold text-slate-900 dark:text-white truncate">{policyName(exception.policyId)}</span>
+              <span className="text-xs text-slate-400">·</span>
+              <span className="text-xs font-mono text-slate-600 dark:text-slate-300 truncate">
+                {exception.resourceId ? resourceName(exception.resourceId) : 'Selector'}
+              </span>
+            </div>
+            {!exception.resourceId && <PolicyScopeSummary scope={exception.selector} />}
+            <p className="text-xs text-slate-600 dark:text-slate-400 mt-2 flex items-start gap-1.5">
+              <FileCheck2 className="w-3.5 h-3.5 mt-0.5 shrink-0 text-slate-400" /> {exception.justification}
+            </p>
+            <div className="flex flex-wrap gap-4 mt-2 text-[11px] text-slate-500">
+              <span className="flex items-center gap-1"><User className="w-3 h-3" /> {exception.approver}</span>
+              <span className="flex items-center gap-1"><CalendarClock className="w-3 h-3" /> Until {new Date(exception.expiresAt).toLocaleDateString()}</span>
+              <span>Waiving {waivedCounts[exception.id] || 0} violation{waivedCounts[exception.id] === 1 ? '' : 's'}</span>
+            </div>
+          </div>
+          <div className="flex items-start">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+              onClick={() => onChange(exceptions.filter(e => e.id !== exception.id))}
+              leftIcon={<Trash2 className="w-4 h-4" />}
+            >
+              Revoke
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {isCreating && (
+        <PolicyExceptionModal
+          policies={policies}
+          resources={resources}
+          onClose={() => setIsCreating(false)}
+          onSave={exception => onChange([...exceptions, exception])}
+        />
+      )}
+    </div>
+  );
+};
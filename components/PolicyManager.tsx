@@ -1,14 +1,19 @@
 
-import React, { useState, useMemo } from 'react';
-import { GovernancePolicy, TaxonomyRule, GceResource, PolicyCategory, PolicySeverity, FilterConfig, PolicyRuleConfig, RuleType } from '../types';
+import React, { useState, useMemo, useRef } from 'react';
+import { GovernancePolicy, TaxonomyRule, GceResource, PolicyCategory, PolicySeverity, FilterConfig, PolicyRuleConfig, RuleType, PolicyScope, PolicyException } from '../types';
 import { 
   ShieldCheck, ShieldAlert, AlertTriangle, BookOpen, 
   Plus, Trash2, Edit3, Save, X, Lightbulb, Check, Info, ArrowRight,
   PieChart, DollarSign, Lock, Activity, Eye, Filter, Settings, Layers, Box,
-  Search, BarChart2, Zap, Copy, FileText, List, Code
+  Search, BarChart2, Zap, Copy, FileText, List, Code, Crosshair, ShieldOff, GitBranch, Upload
 } from 'lucide-react';
 import { Card, ToggleSwitch, Button, Input, Badge, Select, Modal, Tooltip } from './DesignSystem';
-import { getPolicies, DEFAULT_TAXONOMY, createCustomPolicy, evaluateResource } from '../services/policyService';
+import { getPolicies, DEFAULT_TAXONOMY, createCustomPolicy, evaluateResource, restoreGovernanceContext, validateValuePattern } from '../services/policyService';
+import { parseHierarchyFile, applyHierarchy } from '../services/taxonomyHierarchy';
+import { validateExpression } from '../services/policyExpression';
+import { matchesScope, validateScope } from '../services/policyScope';
+import { PolicyScopeEditor, PolicyScopeSummary } from './PolicyScopeEditor';
+import { PolicyExceptionsPanel } from './PolicyExceptions';
 import { motion, AnimatePresence } from 'framer-motion';
 import { AnimatedCounter, HealthGauge } from './Visualizations';
 
@@ -16,6 +21,10 @@ interface PolicyManagerProps {
   resources: GceResource[];
   onUpdatePolicies: (taxonomy: TaxonomyRule[], policies: GovernancePolicy[]) => void;
   onNavigateToViolations: (filter?: Partial<FilterConfig>) => void;
+  exceptions: PolicyException[];
+  onUpdateExceptions: (exceptions: PolicyException[]) => void;
+  taxonomy?: TaxonomyRule[];
+  policies?: GovernancePolicy[];
 }
 
 // --- Templates for Quick Start ---
@@ -42,7 +51,8 @@ const POLICY_TEMPLATES = [
         category: "OPERATIONS",
         severity: "CRITICAL",
         ruleType: "REGION_RESTRICTION",
-        params: { values: ["us-"] }
+        params: { values: ["us-"] },
+        scope: { labelSelector: "environment=production" }
     },
     {
         name: "Strict Naming (Lowercase)",
@@ -51,6 +61,14 @@ const POLICY_TEMPLATES = [
         severity: "INFO",
         ruleType: "NAME_REGEX",
         params: { regex: "^[a-z0-9-]+$" }
+    },
+    {
+        name: "Production Needs Owner",
+        description: "Production resources must name an accountable owner.",
+        category: "OPERATIONS",
+        severity: "CRITICAL",
+        ruleType: "CUSTOM",
+        params: { expression: 'labels.environment == "production" && !has(labels.owner)', message: "Production resource has no owner label" }
     }
 ];
 
@@ -93,6 +111,14 @@ const PolicyDetails = ({ policy, taxonomy }: { policy: GovernancePolicy, taxonom
                         </code>
                     </div>
                 )}
+                {type === 'CUSTOM' && (
+                    <div className="space-y-1">
+                        <div>Violates when:</div>
+                        <code className="block bg-slate-200 dark:bg-slate-800 px-1.5 py-1 rounded text-slate-700 dark:text-slate-300 select-all whitespace-pre-wrap break-all">
+                            {params.expression}
+                        </code>
+                    </div>
+                )}
                 {type === 'REGION_RESTRICTION' && (
                     <div className="space-y-1">
                         <div>Allowed Prefixes:</div>
@@ -110,6 +136,7 @@ const PolicyDetails = ({ policy, taxonomy }: { policy: GovernancePolicy, taxonom
     // Standard Policies
     if (policy.id === 'req-labels') {
         const required = taxonomy.filter(t => t.isRequired).map(t => t.key);
+        const conditional = taxonomy.filter(t => !t.isRequired && t.requiredWhen?.trim());
         return (
             <div className="mt-4 bg-slate-50 dark:bg-slate-950/30 rounded-lg p-3 border border-slate-100 dark:border-slate-800">
                 <div className="font-bold mb-2 text-[9px] uppercase tracking-wider text-slate-400 flex items-center gap-1">
@@ -122,13 +149,23 @@ const PolicyDetails = ({ policy, taxonomy }: { policy: GovernancePolicy, taxonom
                         </span>
                     ))}
                 </div>
+                {conditional.length > 0 && (
+                    <div className="mt-3 space-y-1">
+                        {conditional.map(t => (
+                            <div key={t.key} className="text-[10px] text-slate-500 flex items-center gap-1.5">
+                                <span className="px-1.5 py-0.5 rounded bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 font-mono font-bold text-slate-700 dark:text-slate-300">{t.key}</span>
+                                when <code className="font-mono text-indigo-600 dark:text-indigo-400">{t.requiredWhen}</code>
+                            </div>
+                        ))}
+                    </div>
+                )}
                 <p className="text-[10px] text-slate-400 mt-2 italic">Defined in Global Taxonomy</p>
             </div>
         );
     }
 
     if (policy.id === 'taxonomy-values') {
-        const withValues = taxonomy.filter(t => t.allowedValues.length > 0);
+        const withValues = taxonomy.filter(t => t.allowedValues.length > 0 || t.valuePattern);
         return (
             <div className="mt-4 bg-slate-50 dark:bg-slate-950/30 rounded-lg p-3 border border-slate-100 dark:border-slate-800">
                 <div className="font-bold mb-2 text-[9px] uppercase tracking-wider text-slate-400 flex items-center gap-1">
@@ -137,13 +174,23 @@ const PolicyDetails = ({ policy, taxonomy }: { policy: GovernancePolicy, taxonom
                 <div className="space-y-2 max-h-32 overflow-y-auto custom-scrollbar pr-2">
                     {withValues.map(t => (
                         <div key={t.key} className="text-[10px] flex flex-col gap-1 border-b border-slate-100 dark:border-slate-800/50 pb-2 last:border-0 last:pb-0">
-                            <span className="font-mono text-slate-700 dark:text-slate-300 font-bold">{t.key}</span>
+                            <span className="font-mono text-slate-700 dark:text-slate-300 font-bold">
+                                {t.key}
+                                {t.parentKey && (
+                                    <span className="font-normal text-slate-400 ml-1.5">
+                                        depends on {t.parentKey} ({Object.keys(t.valuesByParent || {}).length} branches)
+                                    </span>
+                                )}
+                            </span>
                             <div className="flex flex-wrap gap-1">
                                 {t.allowedValues.map(v => (
                                     <span key={v} className="text-slate-500 dark:text-slate-400 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 px-1.5 rounded">
                                         {v}
                                     </span>
                                 ))}
+                                {t.valuePattern && (
+                                    <code className="font-mono bg-slate-200 dark:bg-slate-900 px-1.5 rounded text-slate-700 dark:text-slate-300">/{t.valuePattern}/</code>
+                                )}
                             </div>
                         </div>
                     ))}
@@ -193,13 +240,15 @@ const PolicyEditorModal = ({
     onClose, 
     onSave, 
     initialPolicy,
-    availableCategories 
+    availableCategories,
+    resources
 }: { 
     isOpen: boolean, 
     onClose: () => void, 
     onSave: (p: GovernancePolicy) => void,
     initialPolicy?: GovernancePolicy,
-    availableCategories: string[]
+    availableCategories: string[],
+    resources: GceResource[]
 }) => {
     const [name, setName] = useState(initialPolicy?.name || '');
     const [description, setDescription] = useState(initialPolicy?.description || '');
@@ -210,6 +259,11 @@ const PolicyEditorModal = ({
     const [ruleType, setRuleType] = useState<RuleType>(initialPolicy?.ruleConfig?.type || 'REQUIRED_LABEL');
     const [params, setParams] = useState(initialPolicy?.ruleConfig?.params || { key: '', values: [], regex: '' });
 
+    const [scope, setScope] = useState<PolicyScope>(initialPolicy?.scope || {});
+
+    const expressionError = ruleType === 'CUSTOM' ? validateExpression(params.expression || '') : null;
+    const scopeError = validateScope(scope);
+
     // Load template logic
     const loadTemplate = (tpl: any) => {
         setName(tpl.name);
@@ -218,20 +272,24 @@ const PolicyEditorModal = ({
         setSeverity(tpl.severity as PolicySeverity);
         setRuleType(tpl.ruleType as RuleType);
         setParams(tpl.params);
+        setScope(tpl.scope || {});
     };
 
     if (!isOpen) return null;
 
     const handleSave = () => {
-        if (!name || !description || !category) return;
+        if (!name || !description || !category || expressionError || scopeError) return;
         
         // Clean params based on type
         const cleanParams = { ...params };
         if (ruleType === 'REQUIRED_LABEL') { delete cleanParams.regex; delete cleanParams.values; }
         if (ruleType === 'NAME_REGEX') { delete cleanParams.key; delete cleanParams.values; }
+        if (ruleType === 'CUSTOM') { delete cleanParams.key; delete cleanParams.values; delete cleanParams.regex; }
+        else { delete cleanParams.expression; delete cleanParams.message; }
         
         const newPolicy = createCustomPolicy(name, description, severity, category, { type: ruleType, params: cleanParams });
         if (initialPolicy) newPolicy.id = initialPolicy.id; // Preserve ID on edit
+        newPolicy.scope = scope;
         
         onSave(newPolicy);
         onClose();
@@ -324,6 +382,7 @@ const PolicyEditorModal = ({
                                 <option value="ALLOWED_VALUES">Restrict Label Values</option>
                                 <option value="NAME_REGEX">Naming Convention (Regex)</option>
                                 <option value="REGION_RESTRICTION">Region Restriction</option>
+                                <option value="CUSTOM">Custom Expression</option>
                             </Select>
                         </div>
 
@@ -363,28 +422,164 @@ const PolicyEditorModal = ({
                                 <p className="text-xs text-indigo-700 dark:text-indigo-300 mt-2">Resources in zones starting with other prefixes will be flagged.</p>
                             </div>
                         )}
+
+                        {ruleType === 'CUSTOM' && (
+                            <div className="bg-indigo-50 dark:bg-indigo-900/20 p-4 rounded-lg space-y-3">
+                                <div>
+                                    <label className="text-[10px] uppercase font-bold text-indigo-500 mb-1 block">Violation Condition</label>
+                                    <textarea
+                                        value={params.expression || ''}
+                                        onChange={e => setParams({...params, expression: e.target.value})}
+                                        placeholder={'labels.environment == "production" && !has(labels.owner)'}
+                                        rows={3}
+                                        spellCheck={false}
+                                        className={`w-full rounded-lg border bg-white dark:bg-slate-950 px-3 py-2 text-xs font-mono text-slate-900 dark:text-white placeholder:text-slate-400 focus:outline-none focus:ring-2 ${expressionError && params.expression ? 'border-red-400 focus:ring-red-500/20' : 'border-slate-200 dark:border-slate-800 focus:ring-indigo-500/20'}`}
+                                    />
+                                    {expressionError && params.expression ? (
+                                        <div className="mt-1 text-[11px] font-mono text-red-600 dark:text-red-400">
+                                            <div className="whitespace-pre overflow-x-auto">{params.expression.split('\n').join(' ')}</div>
+                                            <div className="whitespace-pre">{' '.repeat(expressionError.position)}^ {expressionError.message}</div>
+                                        </div>
+                                    ) : (
+                                        <p className="text-xs text-indigo-700 dark:text-indigo-300 mt-2">
+                                            Resources for which this is true are flagged. Fields: <code>labels.key</code>, <code>labels["cost-center"]</code>, <code>name</code>, <code>type</code>, <code>zone</code>, <code>status</code>, ...; operators <code>== != &lt; &gt; in && || !</code>; functions <code>has()</code>, <code>size()</code>, <code>int()</code>, <code>.startsWith()</code>, <code>.endsWith()</code>, <code>.contains()</code>, <code>.matches("literal regex")</code>.
+                                        </p>
+                                    )}
+                                </div>
+                                <div>
+                                    <label className="text-[10px] uppercase font-bold text-indigo-500 mb-1 block">Violation Message (Optional)</label>
+                                    <Input value={params.message || ''} onChange={e => setParams({...params, message: e.target.value})} placeholder="e.g. Production resource has no owner label" />
+                                </div>
+                            </div>
+                        )}
                     </div>
                 </div>
 
+                <div className="border-t border-slate-200 dark:border-slate-800 pt-6">
+                    <h4 className="text-sm font-bold text-slate-900 dark:text-white mb-4 flex items-center gap-2">
+                        <Crosshair className="w-4 h-4"/> Scope
+                    </h4>
+                    <PolicyScopeEditor scope={scope} onChange={setScope} resources={resources} />
+                </div>
+
                 <div className="flex justify-end pt-4 border-t border-slate-200 dark:border-slate-800">
                     <Button variant="ghost" onClick={onClose} className="mr-2">Cancel</Button>
-                    <Button variant="primary" onClick={handleSave} disabled={!name}>Save Definition</Button>
+                    <Button variant="primary" onClick={handleSave} disabled={!name || !!expressionError || !!scopeError}>Save Definition</Button>
                 </div>
             </div>
         </Modal>
     )
 }
 
-export const PolicyManager: React.FC<PolicyManagerProps> = ({ resources, onUpdatePolicies, onNavigateToViolations }) => {
-  const [taxonomy, setTaxonomy] = useState<TaxonomyRule[]>(DEFAULT_TAXONOMY);
-  const [policies, setPolicies] = useState<GovernancePolicy[]>(getPolicies(DEFAULT_TAXONOMY));
+// Built-in policies keep their code-defined rule; only where they apply is editable
+const PolicyScopeModal = ({ policy, resources, onClose, onSave }: {
+    policy: GovernancePolicy,
+    resources: GceResource[],
+    onClose: () => void,
+    onSave: (scope: PolicyScope) => void
+}) => {
+    const [scope, setScope] = useState<PolicyScope>(policy.scope || {});
+    const scopeError = validateScope(scope);
+
+    return (
+        <Modal isOpen onClose={onClose} title={`Scope: ${policy.name}`} size="lg">
+            <div className="p-2 space-y-6">
+                <PolicyScopeEditor scope={scope} onChange={setScope} resources={resources} />
+                <div className="flex justify-end pt-4 border-t border-slate-200 dark:border-slate-800">
+                    <Button variant="ghost" onClick={() => setScope({})} className="mr-auto">Apply Everywhere</Button>
+                    <Button variant="ghost" onClick={onClose} className="mr-2">Cancel</Button>
+                    <Button variant="primary" onClick={() => { onSave(scope); onClose(); }} disabled={!!scopeError}>Save Scope</Button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+// Conditional requirements and value patterns per key; keys, values and hierarchy come from the import
+const TaxonomyRulesModal = ({ taxonomy, onClose, onSave }: {
+    taxonomy: TaxonomyRule[],
+    onClose: () => void,
+    onSave: (taxonomy: TaxonomyRule[]) => void
+}) => {
+    const [draft, setDraft] = useState<TaxonomyRule[]>(taxonomy);
+
+    const updateRule = (key: string, field: 'requiredWhen' | 'valuePattern', value: string) => {
+        setDraft(prev => prev.map(rule => rule.key === key ? { ...rule, [field]: value } : rule));
+    };
+
+    const errors = draft.map(rule => ({
+        requiredWhen: validateScope({ labelSelector: rule.requiredWhen }),
+        valuePattern: rule.valuePattern?.trim() ? validateValuePattern(rule.valuePattern.trim()) : null
+    }));
+    const hasErrors = errors.some(e => e.requiredWhen || e.valuePattern);
+
+    // Blank fields are dropped rather than stored as empty strings
+    const handleSave = () => {
+        onSave(draft.map(rule => {
+            const { requiredWhen, valuePattern, ...rest } = rule;
+            return {
+                ...rest,
+                ...(requiredWhen?.trim() && !rule.isRequired ? { requiredWhen: requiredWhen.trim() } : {}),
+                ...(valuePattern?.trim() ? { valuePattern: valuePattern.trim() } : {})
+            };
+        }));
+        onClose();
+    };
+
+    return (
+        <Modal isOpen onClose={onClose} title="Taxonomy Rules" size="lg">
+            <div className="p-2 space-y-4">
+                <p className="text-xs text-slate-500">
+                    <strong>Required when</strong> is a label selector (e.g. <code className="font-mono">environment=production</code>); the key becomes mandatory on resources it matches.
+                    {' '}<strong>Value pattern</strong> is a regular expression the whole value must match.
+                </p>
+                <div className="space-y-3 max-h-[55vh] overflow-y-auto custom-scrollbar pr-2">
+                    {draft.map((rule, idx) => (
+                        <div key={rule.key} className="grid grid-cols-1 md:grid-cols-[140px_1fr_1fr] gap-3 items-start border-b border-slate-100 dark:border-slate-800/50 pb-3 last:border-0">
+                            <span className="font-mono text-xs font-bold text-slate-700 dark:text-slate-300 pt-2.5 truncate" title={rule.key}>{rule.key}</span>
+                            <Input
+                                value={rule.isRequired ? '' : rule.requiredWhen || ''}
+                                onChange={e => updateRule(rule.key, 'requiredWhen', e.target.value)}
+                                placeholder={rule.isRequired ? 'Always required' : 'Required when...'}
+                                disabled={rule.isRequired}
+                                error={rule.isRequired ? undefined : errors[idx].requiredWhen || undefined}
+                                className="font-mono text-xs"
+                            />
+                            <Input
+                                value={rule.valuePattern || ''}
+                                onChange={e => updateRule(rule.key, 'valuePattern', e.target.value)}
+                                placeholder="Value pattern..."
+                                error={errors[idx].valuePattern || undefined}
+                                className="font-mono text-xs"
+                            />
+                        </div>
+                    ))}
+                </div>
+                <div className="flex justify-end pt-4 border-t border-slate-200 dark:border-slate-800">
+                    <Button variant="ghost" onClick={onClose} className="mr-2">Cancel</Button>
+                    <Button variant="primary" onClick={handleSave} disabled={hasErrors}>Save Rules</Button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+export const PolicyManager: React.FC<PolicyManagerProps> = ({ 
+  resources, onUpdatePolicies, onNavigateToViolations, exceptions, onUpdateExceptions, taxonomy: initialTaxonomy, policies: initialPolicies 
+}) => {
+  const [taxonomy, setTaxonomy] = useState<TaxonomyRule[]>(initialTaxonomy || DEFAULT_TAXONOMY);
+  const [policies, setPolicies] = useState<GovernancePolicy[]>(initialPolicies || getPolicies(initialTaxonomy || DEFAULT_TAXONOMY));
+  const hierarchyInputRef = useRef<HTMLInputElement>(null);
+  const [hierarchyStatus, setHierarchyStatus] = useState<{ ok: boolean, message: string } | null>(null);
   
-  const [activeTab, setActiveTab] = useState<'overview' | 'policies'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'policies' | 'exceptions'>('overview');
   const [selectedCategory, setSelectedCategory] = useState<string>('ALL');
   const [searchQuery, setSearchQuery] = useState('');
   
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingPolicy, setEditingPolicy] = useState<GovernancePolicy | undefined>(undefined);
+  const [scopingPolicy, setScopingPolicy] = useState<GovernancePolicy | undefined>(undefined);
+  const [isEditingTaxonomy, setIsEditingTaxonomy] = useState(false);
 
   // Compute Compliance Statistics & Live Impact
   const { stats, policyImpacts } = useMemo(() => {
@@ -407,7 +602,7 @@ export const PolicyManager: React.FC<PolicyManagerProps> = ({ resources, onUpdat
         } else {
             // Or calculate hypothetical impact for disabled policies
             if (p.check) {
-                violationCount = resources.filter(r => p.check(r)).length;
+                violationCount = resources.filter(r => matchesScope(r, p.scope) && p.check(r)).length;
             }
         }
         impactMap[p.id] = { 
@@ -461,6 +656,12 @@ export const PolicyManager: React.FC<PolicyManagerProps> = ({ resources, onUpdat
     onUpdatePolicies(taxonomy, newPolicies);
   };
 
+  const updateScope = (id: string, scope: PolicyScope) => {
+    const newPolicies = policies.map(p => p.id === id ? { ...p, scope } : p);
+    setPolicies(newPolicies);
+    onUpdatePolicies(taxonomy, newPolicies);
+  };
+
   const deletePolicy = (id: string) => {
       const newPolicies = policies.filter(p => p.id !== id);
       setPolicies(newPolicies);
@@ -479,6 +680,27 @@ export const PolicyManager: React.FC<PolicyManagerProps> = ({ resources, onUpdat
       setEditingPolicy(undefined);
   };
 
+  // Standard policy checks close over the taxonomy, so they are rebuilt along with it
+  const saveTaxonomy = (newTaxonomy: TaxonomyRule[]) => {
+      const newPolicies = restoreGovernanceContext(policies, newTaxonomy);
+      setTaxonomy(newTaxonomy);
+      setPolicies(newPolicies);
+      onUpdatePolicies(newTaxonomy, newPolicies);
+  };
+
+  const importHierarchy = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const hierarchy = parseHierarchyFile(await file.text(), file.name);
+          saveTaxonomy(applyHierarchy(taxonomy, hierarchy));
+          setHierarchyStatus({ ok: true, message: `Imported ${hierarchy.levels.join(' → ')} (${hierarchy.paths.length} paths)` });
+      } catch (err: any) {
+          setHierarchyStatus({ ok: false, message: err.message });
+      }
+  };
+
   const openCreateModal = () => {
       setEditingPolicy(undefined);
       setIsModalOpen(true);
@@ -535,6 +757,12 @@ export const PolicyManager: React.FC<PolicyManagerProps> = ({ resources, onUpdat
              >
                 <ShieldCheck className="w-4 h-4" /> Rules Engine
              </button>
+             <button 
+                onClick={() => setActiveTab('exceptions')}
+                className={`px-4 py-2 text-sm font-medium rounded-md transition-all flex items-center gap-2 ${activeTab === 'exceptions' ? 'bg-white dark:bg-slate-800 text-indigo-600 dark:text-white shadow-sm' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
+             >
+                <ShieldOff className="w-4 h-4" /> Exceptions
+             </button>
           </div>
           <div className="flex items-center gap-3">
              <span className="text-xs text-slate-500 font-mono">
@@ -640,11 +868,28 @@ export const PolicyManager: React.FC<PolicyManagerProps> = ({ resources, onUpdat
                         />
                     </div>
                 </div>
-                <Button onClick={openCreateModal} leftIcon={<Plus className="w-4 h-4"/>} className="shadow-lg shadow-indigo-500/20">
-                    Create Policy
-                </Button>
+                <div className="flex gap-2">
+                    <Button variant="secondary" onClick={() => setIsEditingTaxonomy(true)} leftIcon={<Edit3 className="w-4 h-4"/>}>
+                        Taxonomy Rules
+                    </Button>
+                    <Button variant="secondary" onClick={() => hierarchyInputRef.current?.click()} leftIcon={<Upload className="w-4 h-4"/>}>
+                        Import Hierarchy
+                    </Button>
+                    <input ref={hierarchyInputRef} type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={importHierarchy} />
+                    <Button onClick={openCreateModal} leftIcon={<Plus className="w-4 h-4"/>} className="shadow-lg shadow-indigo-500/20">
+                        Create Policy
+                    </Button>
+                </div>
             </div>
 
+            {hierarchyStatus && (
+                <div className={`flex items-center gap-2 text-xs px-4 py-2 rounded-lg border ${hierarchyStatus.ok ? 'bg-emerald-50 dark:bg-emerald-900/10 border-emerald-200 dark:border-emerald-900/30 text-emerald-700 dark:text-emerald-400' : 'bg-red-50 dark:bg-red-900/10 border-red-200 dark:border-red-900/30 text-red-700 dark:text-red-400'}`}>
+                    <GitBranch className="w-3.5 h-3.5" />
+                    <span className="flex-1">{hierarchyStatus.message}</span>
+                    <button onClick={() => setHierarchyStatus(null)}><X className="w-3.5 h-3.5" /></button>
+                </div>
+            )}
+
             {/* Policy List Grid */}
             <div className="grid grid-cols-1 gap-4">
                 {displayPolicies.length === 0 && (
@@ -679,6 +924,7 @@ export const PolicyManager: React.FC<PolicyManagerProps> = ({ resources, onUpdat
                                         
                                         {/* DETAIL VIEW OF RULE LOGIC */}
                                         <PolicyDetails policy={policy} taxonomy={taxonomy} />
+                                        <PolicyScopeSummary scope={policy.scope} />
                                     </div>
                                 </div>
 
@@ -721,6 +967,10 @@ export const PolicyManager: React.FC<PolicyManagerProps> = ({ resources, onUpdat
                                             </div>
                                         )}
 
+                                        {!policy.isCustom && (
+                                            <Button size="xs" variant="ghost" onClick={() => setScopingPolicy(policy)} title="Edit Scope"><Crosshair className="w-3.5 h-3.5"/></Button>
+                                        )}
+
                                         {!policy.isCustom && (
                                             <div className="flex flex-col gap-1 w-24">
                                                 <span className="text-[9px] uppercase font-bold text-slate-400">Severity</span>
@@ -751,6 +1001,16 @@ export const PolicyManager: React.FC<PolicyManagerProps> = ({ resources, onUpdat
          </div>
       )}
 
+      {/* TAB: EXCEPTIONS */}
+      {activeTab === 'exceptions' && (
+         <PolicyExceptionsPanel
+            exceptions={exceptions}
+            policies={policies}
+            resources={resources}
+            onChange={onUpdateExceptions}
+         />
+      )}
+
       {/* Editor Modal */}
       <PolicyEditorModal 
          isOpen={isModalOpen}
@@ -758,7 +1018,25 @@ export const PolicyManager: React.FC<PolicyManagerProps> = ({ resources, onUpdat
          onSave={handleSavePolicy}
          initialPolicy={editingPolicy}
          availableCategories={availableCategories}
+         resources={resources}
       />
+
+      {scopingPolicy && (
+         <PolicyScopeModal
+            policy={scopingPolicy}
+            resources={resources}
+            onClose={() => setScopingPolicy(undefined)}
+            onSave={(scope) => updateScope(scopingPolicy.id, scope)}
+         />
+      )}
+
+      {isEditingTaxonomy && (
+         <TaxonomyRulesModal
+            taxonomy={taxonomy}
+            onClose={() => setIsEditingTaxonomy(false)}
+            onSave={saveTaxonomy}
+         />
+      )}
     </div>
   );
 };
@@ -0,0 +1,102 @@
+import React, { useMemo } from 'react';
+import { Crosshair } from 'lucide-react';
+import { GceResource, PolicyScope, ResourceType } from '../types';
+import { RESOURCE_TYPE_LABELS } from '../constants';
+import { matchesScope, validateScope, describeScope } from '../services/policyScope';
+import { Input } from './DesignSystem';
+
+interface PolicyScopeEditorProps {
+  scope: PolicyScope;
+  onChange: (scope: PolicyScope) => void;
+  resources: GceResource[];
+}
+
+const TYPES = Object.keys(RESOURCE_TYPE_LABELS) as ResourceType[];
+
+const splitList = (value: string) => value.split(',').map(s => s.trim());
+
+// Type chips cycle through: any -> only -> never -> any
+const nextTypeState = (scope: PolicyScope, type: ResourceType): PolicyScope => {
+  const include = scope.includeTypes || [];
+  const exclude = scope.excludeTypes || [];
+  if (include.includes(type)) {
+    return { ...scope, includeTypes: include.filter(t => t !== type), excludeTypes: [...exclude, type] };
+  }
+  if (exclude.includes(type)) {
+    return { ...scope, excludeTypes: exclude.filter(t => t !== type) };
+  }
+  return { ...scope, includeTypes: [...include, type] };
+};
+
+export const PolicyScopeEditor: React.FC<PolicyScopeEditorProps> = ({ scope, onChange, resources }) => {
+  const selectorError = validateScope(scope);
+  const matched = useMemo(() => resources.filter(r => matchesScope(r, scope)).length, [resources, scope]);
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="text-[10px] uppercase font-bold text-slate-500 mb-1 block">Resource Types</label>
+        <div className="flex flex-wrap gap-1">
+          {TYPES.map(type => {
+            const state = scope.includeTypes?.includes(type) ? 'only' : scope.excludeTypes?.includes(type) ? 'never' : 'any';
+            return (
+              <button
+                key={type}
+                type="button"
+                onClick={() => onChange(nextTypeState(scope, type))}
+                title={state === 'only' ? 'Included (click to exclude)' : state === 'never' ? 'Excluded (click to reset)' : 'Click to include only selected types'}
+                className={`text-[10px] px-2 py-1 rounded border transition-colors ${
+                  state === 'only' ? 'bg-indigo-50 dark:bg-indigo-900/30 border-indigo-300 dark:border-indigo-700 text-indigo-700 dark:text-indigo-300 font-bold'
+                  : state === 'never' ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-900/40 text-red-600 dark:text-red-400 line-through'
+                  : 'border-slate-200 dark:border-slate-800 text-slate-500 hover:border-slate-300'
+                }`}
+              >
+                {RESOURCE_TYPE_LABELS[type]}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label className="text-[10px] uppercase font-bold text-slate-500 mb-1 block">Locations</label>
+          <Input value={scope.locations?.join(',') || ''} onChange={e => onChange({ ...scope, locations: splitList(e.target.value) })} placeholder="us-*, !us-east4" className="font-mono" />
+        </div>
+        <div>
+          <label className="text-[10px] uppercase font-bold text-slate-500 mb-1 block">Projects</label>
+          <Input value={scope.projects?.join(',') || ''} onChange={e => onChange({ ...scope, projects: splitList(e.target.value) })} placeholder="prod-*" className="font-mono" />
+        </div>
+        <div>
+          <label className="text-[10px] uppercase font-bold text-slate-500 mb-1 block">Name Patterns</label>
+          <Input value={scope.namePatterns?.join(',') || ''} onChange={e => onChange({ ...scope, namePatterns: splitList(e.target.value) })} placeholder="*-prod-*, !*-tmp" className="font-mono" />
+        </div>
+      </div>
+
+      <div>
+        <label className="text-[10px] uppercase font-bold text-slate-500 mb-1 block">Label Selector</label>
+        <Input value={scope.labelSelector || ''} onChange={e => onChange({ ...scope, labelSelector: e.target.value })} placeholder="environment=production, !legacy, tier in (web,api)" className="font-mono" />
+        {selectorError && <p className="text-[11px] text-red-600 dark:text-red-400 mt-1">{selectorError}</p>}
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-400 bg-slate-50 dark:bg-slate-950/50 border border-slate-200 dark:border-slate-800 rounded-lg px-3 py-2">
+        <Crosshair className="w-3.5 h-3.5 text-indigo-500" />
+        Applies to <span className="font-bold text-slate-900 dark:text-white">{matched}</span> of {resources.length} resources
+      </div>
+    </div>
+  );
+};
+
+// Compact read-only view for policy cards; renders nothing for unscoped policies
+export const PolicyScopeSummary: React.FC<{ scope?: PolicyScope }> = ({ scope }) => {
+  const lines = describeScope(scope);
+  if (lines.length === 0) return null;
+  return (
+    <div className="mt-2 flex flex-wrap gap-1 text-[10px] text-slate-500 dark:text-slate-400">
+      <Crosshair className="w-3 h-3 text-slate-400 mt-0.5" />
+      {lines.map(line => (
+        <span key={line} className="px-1.5 py-0.5 rounded bg-slate-100 dark:bg-slate-800 font-mono">{line}</span>
+      ))}
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 
 import React, { useState, useMemo, useCallback } from 'react';
-import { GceResource } from '../types';
+import { GceResource, TaxonomyRule } from '../types';
 import { 
   Server, HardDrive, Zap, Clock, Check, X, Pencil, Save, 
   Trash2, Plus, Copy, History, 
@@ -8,12 +8,15 @@ import {
   Cpu, Tag, Globe, Network, Database,
   Image as ImageIcon, Cloud, PlayCircle, StopCircle, Box,
   Ship, ShieldAlert, ExternalLink, Activity, Info, Camera, Lock,
-  GitCommit, ShieldCheck, MapPin, Calendar, Link, Fingerprint, User, Layers
+  GitCommit, ShieldCheck, MapPin, Calendar, Link, Fingerprint, User, Layers, ShieldOff
 } from 'lucide-react';
 import { Button, Input, Badge, Spinner } from './DesignSystem';
 import { validateKey, validateValue } from '../utils/validation';
 import { RegionIcon } from './RegionIcon';
+import { UNLABELABLE_RESOURCE_TYPES } from '../constants';
 import { ServiceIcon } from './ServiceIcons';
+import { TaxonomyValueSelect } from './TaxonomyValueSelect';
+import { getAllowedValues, pruneDependentValues } from '../services/taxonomyHierarchy';
 import { motion, AnimatePresence } from 'framer-motion';
 import { GRID_TEMPLATE } from './ResourceTable';
 
@@ -28,6 +31,7 @@ interface ResourceRowProps {
   onRevert: (id: string) => void;
   onViewHistory: (r: GceResource) => void;
   projectId?: string;
+  taxonomy?: TaxonomyRule[];
 }
 
 // --- Helpers ---
@@ -52,6 +56,20 @@ const getConsoleUrl = (resource: GceResource, projectId?: string) => {
             return `https://console.cloud.google.com/storage/browser/${resource.name}${p}`;
         case 'GKE_CLUSTER':
             return `https://console.cloud.google.com/kubernetes/clusters/details/${resource.zone}/${resource.name}/details${p}`;
+        case 'BIGQUERY_DATASET':
+            return `https://console.cloud.google.com/bigquery?project=${projectId}&p=${projectId}&d=${resource.name}&page=dataset`;
+        case 'PUBSUB_TOPIC':
+            return `https://console.cloud.google.com/cloudpubsub/topic/detail/${resource.name}${p}`;
+        case 'PUBSUB_SUBSCRIPTION':
+            return `https://console.cloud.google.com/cloudpubsub/subscription/detail/${resource.name}${p}`;
+        case 'VPC_NETWORK':
+            return `https://console.cloud.google.com/networking/networks/details/${resource.name}${p}`;
+        case 'FIREWALL_RULE':
+            return `https://console.cloud.google.com/networking/firewalls/details/${resource.name}${p}`;
+        case 'FORWARDING_RULE':
+            return `https://console.cloud.google.com/net-services/loadbalancing/list/loadBalancers${p}`;
+        case 'ADDRESS':
+            return `https://console.cloud.google.com/networking/addresses/list${p}`;
         default:
             return '#';
     }
@@ -117,7 +135,8 @@ export const ResourceRow = React.memo(({
   onApply, 
   onRevert, 
   onViewHistory,
-  projectId
+  projectId,
+  taxonomy
 }: ResourceRowProps) => {
   const [isEditing, setIsEditing] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
@@ -128,10 +147,11 @@ export const ResourceRow = React.memo(({
   // --- Derived Metrics ---
   const violations = resource.violations || [];
   const hasViolations = violations.length > 0;
+  const waivedViolations = resource.waivedViolations || [];
   const isDrifted = resource.driftStatus === 'DRIFTED';
   
   const labelCount = Object.keys(resource.labels).length;
-  const consoleUrl = useMemo(() => getConsoleUrl(resource, projectId), [resource, projectId]);
+  const consoleUrl = useMemo(() => getConsoleUrl(resource, resource.projectId || projectId), [resource, projectId]);
   
   // Prioritize key labels for the collapsed view: ONLY Top 2
   const { visibleLabels, hiddenCount } = useMemo(() => {
@@ -179,6 +199,8 @@ export const ResourceRow = React.memo(({
     setTimeout(() => setCopiedId(false), 2000);
   }, [resource.id]);
 
+  const canEditLabels = !UNLABELABLE_RESOURCE_TYPES.includes(resource.type);
+
   const handleEditOpen = (e: React.MouseEvent) => {
       e.stopPropagation();
       setEditForm(Object.entries(resource.labels).map(([key, value]) => ({ key, value })));
@@ -187,6 +209,17 @@ export const ResourceRow = React.memo(({
       setActiveTab('GOVERNANCE');
   };
 
+  const formLabels = (rows: {key: string, value: string}[]) =>
+      Object.fromEntries(rows.filter(r => r.key.trim()).map(r => [r.key.trim(), r.value]));
+
+  // Changing a hierarchy value clears dependent values that no longer belong to its branch
+  const setFormValue = (idx: number, value: string) => {
+      const rows = editForm.map((row, i) => i === idx ? { ...row, value } : row);
+      if (!taxonomy?.length) return setEditForm(rows);
+      const pruned = pruneDependentValues(taxonomy, rows[idx].key.trim(), formLabels(rows));
+      setEditForm(rows.map(row => row.key.trim() in pruned ? { ...row, value: pruned[row.key.trim()] } : row));
+  };
+
   const handleSave = () => {
       const newLabels: Record<string, string> = {};
       editForm.forEach(({key, value}) => {
@@ -295,6 +328,7 @@ export const ResourceRow = React.memo(({
                 {resource.sizeGb && <span>{resource.sizeGb} GB</span>}
                 {resource.provisioningModel === 'SPOT' && <span className="text-amber-600 font-bold">SPOT</span>}
                 {resource.publicAccess && <span className="text-red-500 flex items-center gap-0.5"><Globe className="w-2.5 h-2.5"/> Public</span>}
+                {resource.publicAccessUnknown && <span className="text-amber-600 flex items-center gap-0.5"><Globe className="w-2.5 h-2.5"/> Exposure Unknown</span>}
                 {resource.type === 'DISK' && resource.resourcePolicies && resource.resourcePolicies.length > 0 && (
                     <span className="text-emerald-600 font-bold flex items-center gap-0.5"><Camera className="w-2.5 h-2.5"/> Auto-Snap</span>
                 )}
@@ -348,9 +382,11 @@ export const ResourceRow = React.memo(({
                 </div>
             ) : (
                 <>
-                    <button onClick={handleEditOpen} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors">
-                        <Pencil className="w-4 h-4" />
-                    </button>
+                    {canEditLabels && (
+                        <button onClick={handleEditOpen} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors">
+                            <Pencil className="w-4 h-4" />
+                        </button>
+                    )}
                     <button onClick={() => onViewHistory(resource)} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors">
                         <History className="w-4 h-4" />
                     </button>
@@ -403,6 +439,8 @@ export const ResourceRow = React.memo(({
                                 <div className="space-y-1 bg-white dark:bg-slate-900 p-4 rounded-xl border border-slate-200 dark:border-slate-800 h-full shadow-sm">
                                     <DetailRow label="Name" value={resource.name} icon={Tag} />
                                     <DetailRow label="Resource ID" value={resource.id} icon={Fingerprint} />
+                                    {resource.projectId && <DetailRow label="Project" value={resource.projectId} icon={Box} />}
+                                    {resource.assetType && <DetailRow label="Asset Type" value={resource.assetType} icon={Layers} />}
                                     <DetailRow label="Zone" value={resource.zone} icon={MapPin} />
                                     <DetailRow label="Created" value={createdDateFormatted} icon={Calendar} />
                                     {resource.description && <div className="pt-2 mt-2 border-t border-slate-100 dark:border-slate-800/50 text-xs text-slate-500 italic">{resource.description}</div>}
@@ -505,7 +543,63 @@ export const ResourceRow = React.memo(({
                                         <>
                                             <DetailRow label="Storage Class" value={resource.storageClass} icon={Box} />
                                             <DetailRow label="Location Type" value={resource.locationType} icon={MapPin} />
-                                            <DetailRow label="Public Access" value={resource.publicAccess ? 'Enabled' : 'Blocked'} icon={resource.publicAccess ? Globe : Lock} className={resource.publicAccess ? 'text-red-500' : ''} />
+                                            <DetailRow label="Public Access" value={resource.publicAccessUnknown ? 'Unknown (IAM not readable)' : resource.publicAccess ? 'Enabled' : 'Blocked'} icon={resource.publicAccess || resource.publicAccessUnknown ? Globe : Lock} className={resource.publicAccess ? 'text-red-500' : resource.publicAccessUnknown ? 'text-amber-600' : ''} />
+                                        </>
+                                    )}
+
+                                    {/* Snapshot / Image Details */}
+                                    {(resource.type === 'SNAPSHOT' || resource.type === 'IMAGE') && (
+                                        <>
+                                            <DetailRow label="Size" value={resource.sizeGb ? `${resource.sizeGb} GB` : undefined} icon={HardDrive} />
+                                            <DetailRow label="Source Disk" value={resource.sourceDisk} icon={GitCommit} />
+                                            {resource.type === 'SNAPSHOT' && <DetailRow label="Snapshot Type" value={resource.storageClass} icon={Box} />}
+                                            {resource.type === 'IMAGE' && <DetailRow label="Family" value={resource.family} icon={Layers} />}
+                                        </>
+                                    )}
+
+                                    {/* Pub/Sub Details */}
+                                    {(resource.type === 'PUBSUB_TOPIC' || resource.type === 'PUBSUB_SUBSCRIPTION') && (
+                                        <>
+                                            {resource.type === 'PUBSUB_SUBSCRIPTION' && (
+                                                <>
+                                                    <DetailRow label="Topic" value={resource.pubsubDetails?.topic} icon={Link} className={resource.pubsubDetails?.topic === '_deleted-topic_' ? 'text-amber-600' : ''} />
+                                                    <DetailRow label="Delivery" value={resource.pubsubDetails?.deliveryType} icon={Activity} />
+                                                    <DetailRow label="Ack Deadline" value={resource.pubsubDetails?.ackDeadlineSeconds ? `${resource.pubsubDetails.ackDeadlineSeconds}s` : undefined} icon={Clock} />
+                                                </>
+                                            )}
+                                            <DetailRow label="Retention" value={resource.pubsubDetails?.messageRetention} icon={History} />
+                                        </>
+                                    )}
+
+                                    {/* Networking Resource Details */}
+                                    {resource.type === 'VPC_NETWORK' && (
+                                        <>
+                                            <DetailRow label="Subnetworks" value={resource.networkDetails?.subnetworkCount} icon={Network} />
+                                            <DetailRow label="Routing Mode" value={resource.networkDetails?.routingMode} icon={Globe} />
+                                        </>
+                                    )}
+                                    {resource.type === 'FIREWALL_RULE' && (
+                                        <>
+                                            <DetailRow label="Network" value={resource.networkDetails?.network} icon={Network} />
+                                            <DetailRow label="Direction" value={resource.networkDetails?.direction} icon={Activity} />
+                                            <DetailRow label="Priority" value={resource.networkDetails?.priority} icon={Layers} />
+                                            <DetailRow label="Allowed" value={resource.networkDetails?.allowed?.join(', ')} icon={ShieldCheck} />
+                                            <DetailRow label="Source Ranges" value={resource.networkDetails?.sourceRanges?.join(', ')} icon={Globe} className={resource.networkDetails?.openToInternet ? 'text-red-500' : ''} />
+                                        </>
+                                    )}
+                                    {resource.type === 'FORWARDING_RULE' && (
+                                        <>
+                                            <DetailRow label="IP Address" value={resource.networkDetails?.ipAddress} icon={Globe} />
+                                            <DetailRow label="Scheme" value={resource.networkDetails?.loadBalancingScheme} icon={Network} />
+                                            <DetailRow label="Target" value={resource.networkDetails?.target || 'None'} icon={Link} className={!resource.networkDetails?.target ? 'text-amber-600' : ''} />
+                                            <DetailRow label="Ports" value={resource.networkDetails?.portRange} icon={Box} />
+                                        </>
+                                    )}
+                                    {resource.type === 'ADDRESS' && (
+                                        <>
+                                            <DetailRow label="IP Address" value={resource.networkDetails?.ipAddress} icon={Globe} />
+                                            <DetailRow label="Address Type" value={resource.networkDetails?.addressType} icon={Network} />
+                                            <DetailRow label="Used By" value={resource.users?.length ? resource.users.join(', ') : 'Unattached'} icon={Link} className={!resource.users?.length ? 'text-amber-600' : ''} />
                                         </>
                                     )}
 
@@ -514,6 +608,9 @@ export const ResourceRow = React.memo(({
                                         <>
                                             <DetailRow label="Size" value={`${resource.sizeGb} GB`} icon={HardDrive} />
                                             <DetailRow label="Type" value={resource.machineType} icon={Server} />
+                                            {resource.users && (
+                                                <DetailRow label="Attached To" value={resource.users.length > 0 ? resource.users.join(', ') : 'Unattached'} icon={Link} className={resource.users.length === 0 ? 'text-amber-600' : ''} />
+                                            )}
                                             {resource.resourcePolicies?.length > 0 && (
                                                 <DetailRow label="Snapshot Policy" value={resource.resourcePolicies.join(', ')} icon={Camera} />
                                             )}
@@ -569,7 +666,9 @@ export const ResourceRow = React.memo(({
 
                                 {isEditing ? (
                                     <div className="space-y-2 max-h-[300px] overflow-y-auto pr-2 custom-scrollbar">
-                                        {editForm.map((item, idx) => (
+                                        {editForm.map((item, idx) => {
+                                            const options = taxonomy ? getAllowedValues(taxonomy, item.key.trim(), formLabels(editForm)) : [];
+                                            return (
                                             <div key={idx} className="flex gap-2">
                                                 <Input 
                                                     value={item.key} 
@@ -578,16 +677,26 @@ export const ResourceRow = React.memo(({
                                                     className="h-8 text-xs font-mono"
                                                     error={validateKey(item.key) || undefined}
                                                 />
-                                                <Input 
-                                                    value={item.value} 
-                                                    onChange={e => { const n = [...editForm]; n[idx].value = e.target.value; setEditForm(n); }} 
-                                                    placeholder="Value" 
-                                                    className="h-8 text-xs font-mono"
-                                                    error={validateValue(item.value) || undefined}
-                                                />
+                                                {options.length > 0 ? (
+                                                    <TaxonomyValueSelect 
+                                                        options={options}
+                                                        value={item.value}
+                                                        onChange={value => setFormValue(idx, value)}
+                                                        className="h-8 py-1 text-xs font-mono"
+                                                    />
+                                                ) : (
+                                                    <Input 
+                                                        value={item.value} 
+                                                        onChange={e => setFormValue(idx, e.target.value)} 
+                                                        placeholder="Value" 
+                                                        className="h-8 text-xs font-mono"
+                                                        error={validateValue(item.value) || undefined}
+                                                    />
+                                                )}
                                                 <button onClick={() => setEditForm(p => p.filter((_, i) => i !== idx))} className="text-slate-400 hover:text-red-500 p-1"><Trash2 className="w-4 h-4"/></button>
                                             </div>
-                                        ))}
+                                            );
+                                        })}
                                         <div className="pt-2 flex justify-end gap-2">
                                             <Button size="xs" variant="ghost" onClick={() => setIsEditing(false)}>Cancel</Button>
                                             <Button size="xs" variant="primary" onClick={handleSave} leftIcon={<Save className="w-3 h-3"/>}>Save Changes</Button>
@@ -607,9 +716,13 @@ export const ResourceRow = React.memo(({
                                             {labelCount === 0 && <span className="text-slate-400 italic text-sm">No labels assigned.</span>}
                                         </div>
                                         <div className="mt-4 pt-3 border-t border-slate-100 dark:border-slate-800">
-                                            <Button size="sm" variant="secondary" onClick={handleEditOpen} leftIcon={<Pencil className="w-3 h-3"/>} className="w-full">
-                                                Edit Labels
-                                            </Button>
+                                            {canEditLabels ? (
+                                                <Button size="sm" variant="secondary" onClick={handleEditOpen} leftIcon={<Pencil className="w-3 h-3"/>} className="w-full">
+                                                    Edit Labels
+                                                </Button>
+                                            ) : (
+                                                <p className="text-xs text-slate-400 italic text-center">This resource type does not support labels.</p>
+                                            )}
                                         </div>
                                     </div>
                                 )}
@@ -661,6 +774,29 @@ export const ResourceRow = React.memo(({
                                         </div>
                                     </div>
                                 </div>
+
+                                {waivedViolations.length > 0 && (
+                                    <div className="p-4 rounded-xl border bg-slate-50 dark:bg-slate-800/40 border-slate-200 dark:border-slate-700">
+                                        <div className="flex items-start gap-3">
+                                            <div className="p-2 rounded-lg bg-slate-200 dark:bg-slate-700 text-slate-500 dark:text-slate-300">
+                                                <ShieldOff className="w-6 h-6" />
+                                            </div>
+                                            <div>
+                                                <h4 className="font-bold text-sm text-slate-700 dark:text-slate-200">
+                                                    Waived by Exception
+                                                </h4>
+                                                <ul className="mt-2 space-y-1">
+                                                    {waivedViolations.map((v, i) => (
+                                                        <li key={i} className="text-xs text-slate-500 dark:text-slate-400 flex items-start gap-1.5">
+                                                            <span className="mt-1 w-1 h-1 rounded-full bg-slate-400 shrink-0"></span>
+                                                            {v.message}
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            </div>
+                                        </div>
+                                    </div>
+                                )}
                             </div>
                         </div>
                     )}
@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useMemo, Suspense } from 'react';
-import { GceResource, FilterConfig, SavedView, SavedPipeline } from '../types';
+import { GceResource, FilterConfig, SavedView, SavedPipeline, BatchProgress, TaxonomyRule } from '../types';
 import { 
   FilterX, ChevronDown, ChevronRight, Tag,
   Cloud, RefreshCw, ArrowUp, ArrowDown, ArrowUpDown,
@@ -34,11 +34,13 @@ interface ResourceTableProps {
   onRevert: (id: string) => void;
   onBulkUpdateLabels?: (updates: Map<string, Record<string, string>>, reason?: string) => void;
   onRefresh?: () => void;
+  onFullRescan?: () => void;
   isLoading?: boolean;
-  batchProgress?: { processed: number, total: number, status: 'updating' | 'rolling-back' } | null;
+  batchProgress?: BatchProgress | null;
   projectId?: string;
   savedPipelines?: SavedPipeline[];
   onSavePipeline?: (pipeline: SavedPipeline) => void;
+  taxonomy?: TaxonomyRule[];
 }
 
 type DisplayItem = 
@@ -58,11 +60,13 @@ export const ResourceTable: React.FC<ResourceTableProps> = React.memo(({
   onRevert, 
   onBulkUpdateLabels,
   onRefresh,
+  onFullRescan,
   isLoading,
   batchProgress,
   projectId,
   savedPipelines,
-  onSavePipeline
+  onSavePipeline,
+  taxonomy
 }) => {
   const [sortConfig, setSortConfig] = useState<SortConfig>(null);
 
@@ -74,6 +78,7 @@ export const ResourceTable: React.FC<ResourceTableProps> = React.memo(({
     startIndex: defaultStartIndex, 
     availableZones, 
     availableMachineTypes,
+    availableProjects,
     setCurrentPage, 
     handleItemsPerPageChange 
   } = useResourceFilter(resources, filterConfig, sortConfig);
@@ -214,7 +219,7 @@ export const ResourceTable: React.FC<ResourceTableProps> = React.memo(({
                 <br/>Verify your API permissions or check the region filters.
              </p>
              {onRefresh && (
-                <Button variant="primary" onClick={onRefresh} className="shadow-lg shadow-blue-500/20" leftIcon={<RefreshCw className="w-4 h-4"/>}>
+                <Button variant="primary" onClick={onFullRescan || onRefresh} className="shadow-lg shadow-blue-500/20" leftIcon={<RefreshCw className="w-4 h-4"/>}>
                     Scan Again
                 </Button>
              )}
@@ -291,11 +296,13 @@ export const ResourceTable: React.FC<ResourceTableProps> = React.memo(({
               onDeleteView={onDeleteView}
               availableZones={availableZones}
               availableMachineTypes={availableMachineTypes}
+              availableProjects={availableProjects}
               availableLabelKeys={availableLabelKeys}
               groupBy={groupByLabel}
               onGroupByChange={setGroupByLabel}
               counts={counts}
               onRefresh={onRefresh}
+              onFullRescan={onFullRescan}
               isRefreshing={isLoading}
            />
 
@@ -344,6 +351,21 @@ export const ResourceTable: React.FC<ResourceTableProps> = React.memo(({
               </div>
            )}
 
+           {/* Adaptive rate per API service while a batch is writing */}
+           {batchProgress?.status === 'updating' && (batchProgress.rates?.length || 0) > 0 && (
+              <div className="absolute top-2 right-4 z-50 flex gap-1.5">
+                 {batchProgress.rates!.filter(r => r.active > 0 || r.queued > 0 || r.concurrency < r.maxConcurrency).map(r => (
+                    <span
+                      key={r.service}
+                      title={`${r.active} in flight, ${r.queued} queued, ${r.throttleCount} throttled responses`}
+                      className={`text-[10px] font-mono font-bold px-2 py-0.5 rounded shadow-sm ${r.concurrency < r.maxConcurrency ? 'text-amber-700 bg-amber-100' : 'text-blue-700 bg-blue-100'}`}
+                    >
+                       {r.service} {r.concurrency}/{r.maxConcurrency}{r.cooldownUntil ? ' · paused' : ''}
+                    </span>
+                 ))}
+              </div>
+           )}
+
            <BulkActionBar 
              count={selectedIds.size} 
              onOpenStudio={() => setIsLabelingStudioOpen(true)}
@@ -360,6 +382,7 @@ export const ResourceTable: React.FC<ResourceTableProps> = React.memo(({
                   onApply={executeBulkStudioUpdates}
                   savedPipelines={savedPipelines}
                   onSavePipeline={onSavePipeline}
+                  taxonomy={taxonomy}
                />
            )}
 
@@ -425,6 +448,7 @@ export const ResourceTable: React.FC<ResourceTableProps> = React.memo(({
                        onRevert={onRevert}
                        onViewHistory={setHistoryResource}
                        projectId={projectId}
+                       taxonomy={taxonomy}
                      />
                    );
                  })}
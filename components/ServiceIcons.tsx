@@ -170,6 +170,79 @@ export const ServiceIcon: React.FC<ServiceIconProps> = ({ type, className = "w-6
         </svg>
       );
 
+    case 'BIGQUERY_DATASET': // BigQuery: Magnifier over Bars
+      return (
+        <svg viewBox="0 0 24 24" className={className} fill="none" xmlns="http://www.w3.org/2000/svg">
+          <title>BigQuery Dataset</title>
+          <circle cx="10.5" cy="10.5" r="7.5" fill={C.blueLight} stroke={C.blue} {...strokeStyle} />
+          {/* Query Bars */}
+          <path d="M7.5 13V11M10.5 13V8M13.5 13V10" stroke={C.blue} strokeWidth="2" strokeLinecap="round" />
+          {/* Handle */}
+          <path d="M16 16L21 21" stroke={C.blueDark} strokeWidth="2.5" strokeLinecap="round" />
+        </svg>
+      );
+
+    case 'PUBSUB_TOPIC': // Pub/Sub Topic: Hub broadcasting to subscribers
+    case 'PUBSUB_SUBSCRIPTION':
+      return (
+        <svg viewBox="0 0 24 24" className={className} fill="none" xmlns="http://www.w3.org/2000/svg">
+          <title>{type === 'PUBSUB_TOPIC' ? 'Pub/Sub Topic' : 'Pub/Sub Subscription'}</title>
+          <path d="M12 12L5 6M12 12L19 6M12 12V20" stroke={C.blue} strokeOpacity="0.5" {...strokeStyle} />
+          <circle cx="12" cy="12" r="3" fill={type === 'PUBSUB_TOPIC' ? C.blue : C.blueLight} stroke={C.blue} {...strokeStyle} />
+          <circle cx="5" cy="6" r="2" fill={type === 'PUBSUB_SUBSCRIPTION' ? C.blue : C.blueLight} stroke={C.blue} {...strokeStyle} />
+          <circle cx="19" cy="6" r="2" fill={C.blueLight} stroke={C.blue} {...strokeStyle} />
+          <circle cx="12" cy="20" r="2" fill={C.blueLight} stroke={C.blue} {...strokeStyle} />
+        </svg>
+      );
+
+    case 'VPC_NETWORK': // VPC Network: Connected Mesh
+      return (
+        <svg viewBox="0 0 24 24" className={className} fill="none" xmlns="http://www.w3.org/2000/svg">
+          <title>VPC Network</title>
+          {/* Links */}
+          <path d="M6 6L18 6L12 18Z" stroke={C.blue} strokeOpacity="0.5" {...strokeStyle} />
+          {/* Nodes */}
+          <circle cx="6" cy="6" r="3" fill={C.blueLight} stroke={C.blue} {...strokeStyle} />
+          <circle cx="18" cy="6" r="3" fill={C.blueLight} stroke={C.blue} {...strokeStyle} />
+          <circle cx="12" cy="18" r="3" fill={C.blue} stroke={C.blue} {...strokeStyle} />
+        </svg>
+      );
+
+    case 'FIREWALL_RULE': // Firewall: Brick Wall
+      return (
+        <svg viewBox="0 0 24 24" className={className} fill="none" xmlns="http://www.w3.org/2000/svg">
+          <title>Firewall Rule</title>
+          <rect x="3" y="4" width="18" height="16" rx="2" fill={C.redLight} stroke={C.red} {...strokeStyle} />
+          {/* Brick Courses */}
+          <path d="M3 9.5H21M3 14.5H21" stroke={C.red} {...strokeStyle} />
+          <path d="M9 4V9.5M15 9.5V14.5M9 14.5V20" stroke={C.red} {...strokeStyle} />
+        </svg>
+      );
+
+    case 'FORWARDING_RULE': // Load Balancer Frontend: Fan-out
+      return (
+        <svg viewBox="0 0 24 24" className={className} fill="none" xmlns="http://www.w3.org/2000/svg">
+          <title>Forwarding Rule</title>
+          {/* Frontend */}
+          <circle cx="5" cy="12" r="3" fill={C.greenLight} stroke={C.green} {...strokeStyle} />
+          {/* Routes */}
+          <path d="M8 12H12M12 12L19 5M12 12H19M12 12L19 19" stroke={C.green} {...strokeStyle} />
+          {/* Backends */}
+          <circle cx="19" cy="5" r="1.5" fill={C.green} />
+          <circle cx="19" cy="12" r="1.5" fill={C.green} />
+          <circle cx="19" cy="19" r="1.5" fill={C.green} />
+        </svg>
+      );
+
+    case 'ADDRESS': // Static IP: Location Pin
+      return (
+        <svg viewBox="0 0 24 24" className={className} fill="none" xmlns="http://www.w3.org/2000/svg">
+          <title>Static IP Address</title>
+          <path d="M12 22C12 22 19 15.5 19 10C19 6.1 15.9 3 12 3C8.1 3 5 6.1 5 10C5 15.5 12 22 12 22Z" fill={C.yellowLight} stroke={C.yellowDark} {...strokeStyle} />
+          <circle cx="12" cy="10" r="2.5" fill={C.yellowDark} />
+        </svg>
+      );
+
     default: // Generic Resource
       return (
         <svg viewBox="0 0 24 24" className={className} fill="none" xmlns="http://www.w3.org/2000/svg">
@@ -1,25 +1,42 @@
 
 import React, { useState, useEffect } from 'react';
 import { SectionHeader, Card, ToggleSwitch, Select, Button } from './DesignSystem';
-import { Save, AlertTriangle, CheckCircle2, Shield, Globe, Clock, Sliders } from 'lucide-react';
+import { Save, AlertTriangle, CheckCircle2, Shield, Globe, Clock, Sliders, Layers, Search, KeyRound, RefreshCw, Radio, Download, Square } from 'lucide-react';
 import { APP_VERSION } from '../constants';
-import { AppSettings } from '../types';
+import { AppSettings, DiscoveryMode, ProjectCapabilities, TrafficMode } from '../types';
+import { getTrafficMode, getTrafficCount, subscribeTraffic, startRecording, stopRecording, stopReplay, downloadTrafficBundle } from '../services/trafficRecorder';
+import { CapabilityMatrix } from './CapabilityMatrix';
 import { motion, Variants } from 'framer-motion';
 
 interface SettingsPageProps {
     projectId: string;
     settings: AppSettings;
     onUpdate: (s: AppSettings) => void;
+    capabilities: ProjectCapabilities[];
+    onCheckPermissions: () => void;
+    isCheckingPermissions: boolean;
 }
 
-export const SettingsPage = ({ projectId, settings, onUpdate }: SettingsPageProps) => {
+export const SettingsPage = ({ projectId, settings, onUpdate, capabilities, onCheckPermissions, isCheckingPermissions }: SettingsPageProps) => {
     const [localSettings, setLocalSettings] = useState<AppSettings>(settings);
     const [isSaved, setIsSaved] = useState(false);
 
+    const [trafficMode, setTrafficMode] = useState<TrafficMode>(getTrafficMode);
+    const [trafficCount, setTrafficCount] = useState(getTrafficCount);
+
     useEffect(() => {
         setLocalSettings(settings);
     }, [settings]);
 
+    useEffect(() => subscribeTraffic(() => {
+        setTrafficMode(getTrafficMode());
+        setTrafficCount(getTrafficCount());
+    }), []);
+
+    const handleStopRecording = () => {
+        downloadTrafficBundle(stopRecording());
+    };
+
     const handleSave = () => {
         onUpdate(localSettings);
         setIsSaved(true);
@@ -77,6 +94,94 @@ export const SettingsPage = ({ projectId, settings, onUpdate }: SettingsPageProp
                                 <span className="text-xs text-slate-500">Run AI Audit on connection</span>
                             </div>
                         </div>
+                        <div>
+                            <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                                <Layers className="w-4 h-4 text-slate-400" /> GKE Label Inheritance
+                            </label>
+                            <div className="flex items-center gap-3">
+                                <ToggleSwitch 
+                                    checked={!!localSettings.propagateClusterLabels}
+                                    onChange={(v) => setLocalSettings({...localSettings, propagateClusterLabels: v})}
+                                />
+                                <span className="text-xs text-slate-500">Push cluster labels to node pools</span>
+                            </div>
+                            <p className="text-xs text-slate-500 mt-2 leading-snug">
+                                Node VMs inherit cost allocation labels. Autopilot clusters are skipped.
+                            </p>
+                        </div>
+                        <div>
+                            <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                                <Search className="w-4 h-4 text-slate-400" /> Discovery Engine
+                            </label>
+                            <Select 
+                                value={localSettings.discoveryMode || 'SERVICE_APIS'}
+                                onChange={(e) => setLocalSettings({...localSettings, discoveryMode: e.target.value as DiscoveryMode})}
+                            >
+                                <option value="SERVICE_APIS">Service APIs (per product)</option>
+                                <option value="ASSET_INVENTORY">Cloud Asset Inventory</option>
+                            </Select>
+                            <p className="text-xs text-slate-500 mt-2 leading-snug">
+                                Asset Inventory needs a single permission and also lists labeled types Yalla doesn't model yet. Applies on next connect.
+                            </p>
+                        </div>
+                    </div>
+                </Card>
+
+                {/* IAM Preflight */}
+                <Card className="p-0 bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 overflow-hidden">
+                    <div className="px-6 py-4 border-b border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-950/30 flex items-center gap-2">
+                        <KeyRound className="w-4 h-4 text-slate-500" />
+                        <h3 className="text-sm font-bold text-slate-900 dark:text-white uppercase tracking-wider">Permissions</h3>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="ml-auto"
+                            onClick={onCheckPermissions}
+                            disabled={isCheckingPermissions}
+                            leftIcon={<RefreshCw className={`w-3 h-3 ${isCheckingPermissions ? 'animate-spin' : ''}`} />}
+                        >
+                            Re-check
+                        </Button>
+                    </div>
+                    <div className="p-6 space-y-3">
+                        <p className="text-xs text-slate-500 leading-snug">
+                            What your credentials can discover and label{capabilities.length > 1 ? ` across ${capabilities.length} projects` : ''}, per IAM testIamPermissions. Bulk edits skip resources you cannot modify.
+                        </p>
+                        <CapabilityMatrix capabilities={capabilities} />
+                    </div>
+                </Card>
+
+                {/* Traffic Capture */}
+                <Card className="p-0 bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 overflow-hidden">
+                    <div className="px-6 py-4 border-b border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-950/30 flex items-center gap-2">
+                        <Radio className={`w-4 h-4 ${trafficMode === 'RECORDING' ? 'text-red-500 animate-pulse' : 'text-slate-500'}`} />
+                        <h3 className="text-sm font-bold text-slate-900 dark:text-white uppercase tracking-wider">Traffic Capture</h3>
+                        {trafficMode === 'OFF' && (
+                            <Button variant="ghost" size="sm" className="ml-auto" onClick={startRecording} leftIcon={<Radio className="w-3 h-3" />}>
+                                Start Recording
+                            </Button>
+                        )}
+                        {trafficMode === 'RECORDING' && (
+                            <Button variant="ghost" size="sm" className="ml-auto" onClick={handleStopRecording} leftIcon={<Download className="w-3 h-3" />}>
+                                Stop &amp; Download
+                            </Button>
+                        )}
+                        {trafficMode === 'REPLAYING' && (
+                            <Button variant="ghost" size="sm" className="ml-auto" onClick={stopReplay} leftIcon={<Square className="w-3 h-3" />}>
+                                Stop Replay
+                            </Button>
+                        )}
+                    </div>
+                    <div className="p-6 space-y-2">
+                        <p className="text-xs text-slate-500 leading-snug">
+                            Records every GCP API request and response into a bundle for bug reports. Access tokens are redacted; resource names and labels are kept. Refresh the inventory or run a bulk edit while recording to capture it.
+                        </p>
+                        {trafficMode === 'RECORDING' && (
+                            <p className="text-xs font-mono text-red-600 dark:text-red-400">Recording: {trafficCount} exchanges captured</p>
+                        )}
+                        {trafficMode === 'REPLAYING' && (
+                            <p className="text-xs font-mono text-indigo-600 dark:text-indigo-400">Replaying {trafficCount} recorded exchanges; no requests reach GCP</p>
+                        )}
                     </div>
                 </Card>
 
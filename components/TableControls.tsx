@@ -3,7 +3,7 @@ import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { FilterConfig, SavedView } from '../types';
 import { 
   Search, Download, Plus, X, 
-  Filter, Save, RefreshCw,
+  Filter, Save, RefreshCw, RotateCcw,
   Bookmark, SlidersHorizontal, Trash2,
   Code, FileText, ChevronDown, ShieldAlert,
   Wand2, ChevronLeft, ChevronRight
@@ -29,6 +29,7 @@ export interface ResourceFiltersProps {
   onDeleteView?: (id: string) => void;
   availableZones: string[];
   availableMachineTypes: string[];
+  availableProjects?: string[];
   availableLabelKeys: string[];
   groupBy: string;
   onGroupByChange: (key: string) => void;
@@ -37,8 +38,10 @@ export interface ResourceFiltersProps {
     types: Record<string, number>;
     zones: Record<string, number>;
     machineTypes: Record<string, number>;
+    projects?: Record<string, number>;
   };
-  onRefresh?: () => void;
+  onRefresh?: () => void; // Incremental sync from audit activity
+  onFullRescan?: () => void;
   isRefreshing?: boolean;
 }
 
@@ -51,13 +54,21 @@ const RESOURCE_TYPES = [
   { id: 'DISK', label: 'Disks' },
   { id: 'IMAGE', label: 'Images' },
   { id: 'SNAPSHOT', label: 'Snapshots' },
+  { id: 'VPC_NETWORK', label: 'VPC Networks' },
+  { id: 'FIREWALL_RULE', label: 'Firewall Rules' },
+  { id: 'FORWARDING_RULE', label: 'Forwarding Rules' },
+  { id: 'ADDRESS', label: 'Static IPs' },
+  { id: 'BIGQUERY_DATASET', label: 'BigQuery Datasets' },
+  { id: 'PUBSUB_TOPIC', label: 'Pub/Sub Topics' },
+  { id: 'PUBSUB_SUBSCRIPTION', label: 'Pub/Sub Subscriptions' },
+  { id: 'ASSET', label: 'Other Assets' },
 ];
 
 export const ResourceFilters = React.memo(({ 
   config, onChange, show, onDownload, onExportTerraform, onToggleShow, onSaveView, savedViews = [], onLoadView, onDeleteView,
-  availableZones, availableMachineTypes, availableLabelKeys,
+  availableZones, availableMachineTypes, availableProjects = [], availableLabelKeys,
   groupBy, onGroupByChange,
-  counts, onRefresh, isRefreshing
+  counts, onRefresh, onFullRescan, isRefreshing
 }: ResourceFiltersProps) => {
   const [viewName, setViewName] = useState('');
   const [isViewsOpen, setIsViewsOpen] = useState(false);
@@ -117,6 +128,7 @@ export const ResourceFilters = React.memo(({
       if (type === 'types' && value) newConfig.types = config.types.filter(t => t !== value);
       if (type === 'zones' && value) newConfig.zones = config.zones.filter(z => z !== value);
       if (type === 'machineTypes' && value) newConfig.machineTypes = config.machineTypes.filter(m => m !== value);
+      if (type === 'projects' && value) newConfig.projects = (config.projects || []).filter(p => p !== value);
       if (type === 'hasPublicIp') newConfig.hasPublicIp = null;
       if (type === 'dateStart') newConfig.dateStart = '';
       if (type === 'dateEnd') newConfig.dateEnd = '';
@@ -135,6 +147,7 @@ export const ResourceFilters = React.memo(({
       count += config.statuses.length;
       count += config.zones.length;
       count += config.machineTypes.length;
+      count += config.projects?.length || 0;
       if (config.hasPublicIp !== null) count++;
       if (config.dateStart) count++;
       if (config.dateEnd) count++;
@@ -181,10 +194,23 @@ export const ResourceFilters = React.memo(({
                     isLoading={isRefreshing}
                     leftIcon={<RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />}
                     className="hidden sm:inline-flex"
+                    title="Sync changes from audit logs since the last scan"
                 >
                     Refresh
                 </Button>
             )}
+            {onFullRescan && (
+                <Button 
+                    variant="ghost" 
+                    size="md" 
+                    onClick={onFullRescan}
+                    disabled={isRefreshing}
+                    className="hidden sm:inline-flex px-2"
+                    title="Full rescan of every service"
+                >
+                    <RotateCcw className="w-4 h-4" />
+                </Button>
+            )}
             
             {/* Views Dropdown */}
             <div className="relative" ref={viewsRef}>
@@ -350,6 +376,12 @@ export const ResourceFilters = React.memo(({
                     <button onClick={() => removeFilter('zones', z)} className="hover:bg-blue-200 dark:hover:bg-blue-800 rounded-full p-0.5"><X className="w-3 h-3"/></button>
                 </Badge>
             ))}
+            {config.projects?.map(p => (
+                <Badge key={p} variant="purple" className="pl-2 pr-1 py-0.5 flex items-center gap-1">
+                    {p}
+                    <button onClick={() => removeFilter('projects', p)} className="hover:bg-violet-200 dark:hover:bg-violet-800 rounded-full p-0.5"><X className="w-3 h-3"/></button>
+                </Badge>
+            ))}
             {config.labels.map((l, idx) => l.key ? (
                 <Badge key={idx} variant="warning" className="pl-2 pr-1 py-0.5 flex items-center gap-1">
                     {l.key}{l.value ? `:${l.value}` : ''}
@@ -370,7 +402,7 @@ export const ResourceFilters = React.memo(({
                 </Badge>
             )}
             <button 
-                onClick={() => onChange({ ...config, search: '', statuses: [], types: [], zones: [], machineTypes: [], hasPublicIp: null, dateStart: '', dateEnd: '', labels: [], showUnlabeledOnly: false, showViolationsOnly: false, violatedPolicyId: undefined })}
+                onClick={() => onChange({ ...config, search: '', statuses: [], types: [], zones: [], machineTypes: [], projects: [], hasPublicIp: null, dateStart: '', dateEnd: '', labels: [], showUnlabeledOnly: false, showViolationsOnly: false, violatedPolicyId: undefined })}
                 className="text-[10px] text-slate-500 hover:text-red-500 underline decoration-dotted ml-1"
             >
                 Reset All Filters
@@ -407,6 +439,18 @@ export const ResourceFilters = React.memo(({
               />
            </div>
 
+           {availableProjects.length > 1 && (
+              <div>
+                 <MultiSelect 
+                    label="Project"
+                    options={availableProjects.map(p => ({ label: getLabelWithCount(p, p, counts.projects || {}), value: p }))}
+                    selected={config.projects || []}
+                    onChange={(vals) => onChange({...config, projects: vals})}
+                    placeholder="All Projects"
+                 />
+              </div>
+           )}
+
            <div className="md:col-span-2">
               <MultiSelect 
                  label="Machine Type"
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Select } from './DesignSystem';
+
+interface TaxonomyValueSelectProps {
+  options: string[];
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+// Dropdown over taxonomy values; a current value outside the list stays selectable so it is never silently dropped
+export const TaxonomyValueSelect: React.FC<TaxonomyValueSelectProps> = ({ options, value, onChange, placeholder = 'Select value...', className = '' }) => (
+  <Select
+    value={value}
+    onChange={e => onChange(e.target.value)}
+    className={className}
+    error={value && !options.includes(value) ? 'Not in taxonomy' : undefined}
+  >
+    <option value="">{placeholder}</option>
+    {value && !options.includes(value) && <option value={value}>{value} (not allowed)</option>}
+    {options.map(option => (
+      <option key={option} value={option}>{option}</option>
+    ))}
+  </Select>
+);
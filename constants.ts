@@ -1,9 +1,85 @@
 
 import { FileText, Server, Activity, Settings, ShieldCheck } from 'lucide-react';
+import { ResourceType } from './types';
 
 export const APP_NAME = "Yalla Label";
 export const APP_VERSION = "5.0.0-experiment";
 
+// Resource types whose GCP API has no labels field. They are inventoried for risk and
+// waste checks, but label editing and labeling policies do not apply to them.
+export const UNLABELABLE_RESOURCE_TYPES: ResourceType[] = ['VPC_NETWORK', 'FIREWALL_RULE'];
+
+// Human-readable names for resource types, used by the capability matrix and policy scopes
+export const RESOURCE_TYPE_LABELS: Record<ResourceType, string> = {
+  INSTANCE: 'VM Instances',
+  DISK: 'Disks',
+  SNAPSHOT: 'Snapshots',
+  IMAGE: 'Images',
+  CLOUD_RUN: 'Cloud Run',
+  CLOUD_SQL: 'Cloud SQL',
+  BUCKET: 'Buckets',
+  GKE_CLUSTER: 'GKE Clusters',
+  VPC_NETWORK: 'VPC Networks',
+  FIREWALL_RULE: 'Firewall Rules',
+  FORWARDING_RULE: 'Forwarding Rules',
+  ADDRESS: 'Static IPs',
+  BIGQUERY_DATASET: 'BigQuery Datasets',
+  PUBSUB_TOPIC: 'Pub/Sub Topics',
+  PUBSUB_SUBSCRIPTION: 'Pub/Sub Subscriptions',
+  ASSET: 'Other Assets',
+};
+
+// IAM permissions behind each managed resource type: `list` to discover it, `update` to write labels.
+// Global forwarding rules and addresses are separate Compute collections with their own permissions.
+export const RESOURCE_PERMISSIONS: Record<Exclude<ResourceType, 'ASSET'>, { list: string[]; update: string[]; globalUpdate?: string[] }> = {
+  INSTANCE: { list: ['compute.instances.list'], update: ['compute.instances.get', 'compute.instances.setLabels'] },
+  DISK: { list: ['compute.disks.list'], update: ['compute.disks.get', 'compute.disks.setLabels'] },
+  SNAPSHOT: { list: ['compute.snapshots.list'], update: ['compute.snapshots.get', 'compute.snapshots.setLabels'] },
+  IMAGE: { list: ['compute.images.list'], update: ['compute.images.get', 'compute.images.setLabels'] },
+  CLOUD_RUN: { list: ['run.services.list'], update: ['run.services.get', 'run.services.update'] },
+  CLOUD_SQL: { list: ['cloudsql.instances.list'], update: ['cloudsql.instances.get', 'cloudsql.instances.update'] },
+  BUCKET: { list: ['storage.buckets.list'], update: ['storage.buckets.get', 'storage.buckets.update'] },
+  GKE_CLUSTER: { list: ['container.clusters.list'], update: ['container.clusters.get', 'container.clusters.update'] },
+  VPC_NETWORK: { list: ['compute.networks.list'], update: [] },
+  FIREWALL_RULE: { list: ['compute.firewalls.list'], update: [] },
+  FORWARDING_RULE: {
+    list: ['compute.forwardingRules.list', 'compute.globalForwardingRules.list'],
+    update: ['compute.forwardingRules.get', 'compute.forwardingRules.setLabels'],
+    globalUpdate: ['compute.globalForwardingRules.get', 'compute.globalForwardingRules.setLabels'],
+  },
+  ADDRESS: {
+    list: ['compute.addresses.list', 'compute.globalAddresses.list'],
+    update: ['compute.addresses.get', 'compute.addresses.setLabels'],
+    globalUpdate: ['compute.globalAddresses.get', 'compute.globalAddresses.setLabels'],
+  },
+  BIGQUERY_DATASET: { list: ['bigquery.datasets.get'], update: ['bigquery.datasets.update'] },
+  PUBSUB_TOPIC: { list: ['pubsub.topics.list'], update: ['pubsub.topics.get', 'pubsub.topics.update'] },
+  PUBSUB_SUBSCRIPTION: { list: ['pubsub.subscriptions.list'], update: ['pubsub.subscriptions.get', 'pubsub.subscriptions.update'] },
+};
+
+// Needed regardless of resource type: project lookup, scope expansion, audit sync and asset search
+export const BASE_PERMISSIONS = [
+  'resourcemanager.projects.get',
+  'logging.logEntries.list',
+  'cloudasset.assets.searchAllResources',
+  'compute.regions.list',
+];
+
+// Needed to walk a folder or organization scan scope; checked on that folder/org, not on projects
+export const HIERARCHY_PERMISSIONS = [
+  'resourcemanager.projects.list',
+  'resourcemanager.folders.list',
+];
+
+// What project-level testIamPermissions is asked about; it rejects permissions that do not apply to projects
+export const PROJECT_PERMISSIONS = Array.from(new Set([
+  ...BASE_PERMISSIONS,
+  ...Object.values(RESOURCE_PERMISSIONS).flatMap(p => [...p.list, ...p.update, ...(p.globalUpdate || [])]),
+]));
+
+// Everything the YallaLabelManager custom role should grant
+export const YALLA_ROLE_PERMISSIONS = [...PROJECT_PERMISSIONS, ...HIERARCHY_PERMISSIONS];
+
 export const NAVIGATION_ITEMS = [
   { id: 'dashboard', label: 'Governance Dashboard', icon: Activity },
   { id: 'inventory', label: 'Resource Inventory', icon: Server },
@@ -58,7 +58,15 @@ export const useDashboardAnalytics = (resources: GceResource[], stats: { total:
         'IMAGE': 'Images',
         'CLOUD_SQL': 'Cloud SQL',
         'GKE_CLUSTER': 'GKE Clusters',
-        'CLOUD_RUN': 'Cloud Run'
+        'CLOUD_RUN': 'Cloud Run',
+        'VPC_NETWORK': 'VPC Networks',
+        'FIREWALL_RULE': 'Firewall Rules',
+        'FORWARDING_RULE': 'Forwarding Rules',
+        'ADDRESS': 'Static IPs',
+        'BIGQUERY_DATASET': 'BigQuery Datasets',
+        'PUBSUB_TOPIC': 'Pub/Sub Topics',
+        'PUBSUB_SUBSCRIPTION': 'Pub/Sub Subscriptions',
+        'ASSET': 'Other Assets'
     };
 
     const unlabeledBreakdown = Object.entries(unlabeledByType)
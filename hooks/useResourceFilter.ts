@@ -44,6 +44,11 @@ const matchesFilter = (r: GceResource, config: FilterConfig, ignoreKey?: keyof F
       if (!config.zones.includes(r.zone)) return false;
   }
 
+  // 4b. Projects (multi-project scans)
+  if (ignoreKey !== 'projects' && config.projects && config.projects.length > 0) {
+      if (!r.projectId || !config.projects.includes(r.projectId)) return false;
+  }
+
   // 5. Machine Types (Only for instances)
   if (ignoreKey !== 'machineTypes' && config.machineTypes.length > 0) {
     if (r.type !== 'INSTANCE' || !r.machineType || !config.machineTypes.includes(r.machineType)) return false;
@@ -125,7 +130,8 @@ export const calculateFacetedCounts = (resources: GceResource[], config: FilterC
         statuses: {} as Record<string, number>,
         types: {} as Record<string, number>,
         zones: {} as Record<string, number>,
-        machineTypes: {} as Record<string, number>
+        machineTypes: {} as Record<string, number>,
+        projects: {} as Record<string, number>
     };
 
     for (const r of resources) {
@@ -144,6 +150,9 @@ export const calculateFacetedCounts = (resources: GceResource[], config: FilterC
         if (matchesFilter(r, config, 'machineTypes') && r.machineType) {
             counts.machineTypes[r.machineType] = (counts.machineTypes[r.machineType] || 0) + 1;
         }
+        if (matchesFilter(r, config, 'projects') && r.projectId) {
+            counts.projects[r.projectId] = (counts.projects[r.projectId] || 0) + 1;
+        }
     }
 
     return counts;
@@ -161,6 +170,7 @@ export const useResourceFilter = (resources: GceResource[], filterConfig: Filter
 
   const availableZones = useMemo(() => Array.from(new Set(resources.map(r => r.zone))).sort(), [resources]);
   const availableMachineTypes = useMemo(() => Array.from(new Set(resources.filter(r => r.machineType).map(r => r.machineType!))).sort(), [resources]);
+  const availableProjects = useMemo(() => Array.from(new Set(resources.filter(r => r.projectId).map(r => r.projectId!))).sort(), [resources]);
 
   const filteredResources = useMemo(() => filterResources(resources, filterConfig), [resources, filterConfig]);
 
@@ -214,6 +224,7 @@ export const useResourceFilter = (resources: GceResource[], filterConfig: Filter
       startIndex,
       availableZones,
       availableMachineTypes,
+      availableProjects,
       setCurrentPage,
       handleItemsPerPageChange
   };
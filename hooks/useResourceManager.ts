@@ -1,39 +1,46 @@
 
 import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
-import { GceResource, GcpCredentials, LabelHistoryEntry, TaxonomyRule, GovernancePolicy, SavedView, AppSettings, SavedPipeline } from '../types';
-import { fetchAllResources, updateResourceLabels as updateResourceLabelsApi, fetchResource } from '../services/gcpService';
+import { GceResource, GcpCredentials, LabelHistoryEntry, TaxonomyRule, GovernancePolicy, PolicyException, SavedView, AppSettings, SavedPipeline, ResourceChange, ScanSourceProgress, BatchProgress, ProjectCapabilities } from '../types';
+import { fetchAllResources, fetchAllProjectsResources, fetchAssetInventoryResources, listProjectsInScope, updateResourceLabels as updateResourceLabelsApi, fetchResource, fetchResourceDetails, fetchGcpAuditLogs, parseResourceChange, isChangeAddressable, propagateClusterLabelsToNodePools, restoreNodePoolLabels, isAbortError, getRateStatus, subscribeRateStatus } from '../services/gcpService';
 import { analyzeResourceBatch, generateComplianceReport, generateDashboardBrief } from '../services/geminiService';
 import { persistenceService } from '../services/persistenceService';
-import { evaluateInventory, DEFAULT_TAXONOMY, getPolicies, restoreGovernanceContext } from '../services/policyService';
+import { onTokenRefreshed } from '../services/authService';
+import { preflightPermissions, getMissingUpdatePermissions, getMissingScopePermissions } from '../services/permissionService';
+import { isAuthError, describeError, summarizeErrors } from '../services/gcpErrors';
+import { evaluateInventory, DEFAULT_TAXONOMY, getPolicies, restoreGovernanceContext, validateTaxonomy } from '../services/policyService';
 
 const DEFAULT_SETTINGS: AppSettings = {
     defaultRegion: 'global',
     autoAnalyze: false,
     costCenterFormat: 'cc-XXXX',
-    departmentList: []
+    departmentList: [],
+    propagateClusterLabels: false,
+    discoveryMode: 'SERVICE_APIS'
 };
 
-// Internal rate limiting helper for atomic batch processing
-const createSlidingWindow = (concurrency: number) => {
+// Internal rate limiting helper for atomic batch processing.
+// A function limit is re-read whenever a slot frees up, so the window can track the API rate controllers.
+const createSlidingWindow = (concurrency: number | (() => number)) => {
+  const currentLimit = () => typeof concurrency === 'function' ? concurrency() : concurrency;
   const queue: (() => void)[] = [];
   let activeCount = 0;
 
   const next = () => {
     activeCount--;
-    if (queue.length > 0) {
+    while (queue.length > 0 && activeCount < currentLimit()) {
       const run = queue.shift();
+      activeCount++; // Reserve the slot before the waiter resumes
       if (run) run();
     }
   };
 
   const run = async <T>(fn: () => Promise<T>): Promise<T> => {
     const waitForSlot = async () => {
-      if (activeCount < concurrency) {
+      if (activeCount < currentLimit()) {
         activeCount++;
         return;
       }
       await new Promise<void>(resolve => queue.push(resolve));
-      activeCount++;
     };
 
     await waitForSlot();
@@ -48,6 +55,28 @@ const createSlidingWindow = (concurrency: number) => {
   return run;
 };
 
+const BULK_CONCURRENCY = 8;
+
+// The batch slows to the most throttled API service so a tripped quota is not hammered by queued writes
+const adaptiveBulkConcurrency = () =>
+  Math.max(1, Math.min(BULK_CONCURRENCY, ...getRateStatus().map(s => s.concurrency)));
+
+// Resources discovered through a folder/org scan carry their own project
+const projectOf = (resource: GceResource, credentials: GcpCredentials) => resource.projectId || credentials.projectId;
+
+const projectsOf = (resources: GceResource[], credentials: GcpCredentials) =>
+  Array.from(new Set([credentials.projectId, ...resources.map(r => projectOf(r, credentials))])).sort();
+
+// Audit entries can land in Cloud Logging a little after the API call; re-read this much overlap
+const AUDIT_INGESTION_SKEW_MS = 2 * 60 * 1000;
+
+// Run v1 audit names carry no region, so the zone only narrows the match when present
+const matchesChange = (resource: GceResource, change: ResourceChange, credentials: GcpCredentials) =>
+  resource.type === change.type &&
+  resource.name === change.name &&
+  projectOf(resource, credentials) === change.projectId &&
+  (!change.zone || resource.zone === change.zone);
+
 export const useResourceManager = (
   addLog: (msg: string, level?: string) => void,
   addNotification: (msg: string, type?: 'success'|'error'|'info'|'warning') => void
@@ -68,15 +97,23 @@ export const useResourceManager = (
   const [appSettings, setAppSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [taxonomy, setTaxonomy] = useState<TaxonomyRule[]>(DEFAULT_TAXONOMY);
   const [activePolicies, setActivePolicies] = useState<GovernancePolicy[]>(getPolicies(DEFAULT_TAXONOMY));
+  const [policyExceptions, setPolicyExceptions] = useState<PolicyException[]>([]);
 
-  const [batchProgress, setBatchProgress] = useState<{ processed: number, total: number, status: 'updating' | 'rolling-back' } | null>(null);
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
   
   const currentCredentials = useRef<GcpCredentials | null>(null);
+  const lastSyncAt = useRef<Date | null>(null); // Watermark for incremental sync
+  const [isSyncing, setIsSyncing] = useState(false);
   const pendingResources = useRef<GceResource[]>([]);
+  const scanController = useRef<AbortController | null>(null); // Owns the in-flight discovery scan
+  const [scanProgress, setScanProgress] = useState<ScanSourceProgress[]>([]);
+  const [capabilities, setCapabilities] = useState<ProjectCapabilities[]>([]);
+  const [isCheckingPermissions, setIsCheckingPermissions] = useState(false);
+  const pendingPreflight = useRef<Promise<ProjectCapabilities[] | null> | null>(null); // Bulk writes wait on this
 
   const governedResources = useMemo(() => {
-    return evaluateInventory(resources, taxonomy, activePolicies);
-  }, [resources, taxonomy, activePolicies]);
+    return evaluateInventory(resources, taxonomy, activePolicies, false, policyExceptions);
+  }, [resources, taxonomy, activePolicies, policyExceptions]);
 
   const stats = useMemo(() => {
     const total = governedResources.length;
@@ -84,6 +121,13 @@ export const useResourceManager = (
     return { total, labeled, unlabeled: total - labeled };
   }, [governedResources]);
 
+  // --- Follow OAuth token refreshes ---
+  useEffect(() => onTokenRefreshed(accessToken => {
+      if (!currentCredentials.current) return;
+      currentCredentials.current = { ...currentCredentials.current, accessToken };
+      persistenceService.updateAccessToken(accessToken);
+  }), []);
+
   // --- Listen for Remote Syncs ---
   useEffect(() => {
       const handleSync = async () => {
@@ -93,6 +137,7 @@ export const useResourceManager = (
               if (govData) {
                   setTaxonomy(govData.taxonomy);
                   setActivePolicies(restoreGovernanceContext(govData.policies, govData.taxonomy));
+                  setPolicyExceptions(govData.exceptions || []);
                   setSavedViews(govData.savedViews || []);
                   setSavedPipelines(govData.savedPipelines || []);
                   setAppSettings({ ...DEFAULT_SETTINGS, ...govData.settings });
@@ -110,6 +155,7 @@ export const useResourceManager = (
       override?: { 
           taxonomy?: TaxonomyRule[], 
           policies?: GovernancePolicy[],
+          exceptions?: PolicyException[],
           savedViews?: SavedView[],
           savedPipelines?: SavedPipeline[],
           settings?: AppSettings 
@@ -120,6 +166,7 @@ export const useResourceManager = (
           await persistenceService.saveGovernance(currentCredentials.current.projectId, {
               taxonomy: override?.taxonomy || taxonomy,
               policies: override?.policies || activePolicies,
+              exceptions: override?.exceptions || policyExceptions,
               savedViews: override?.savedViews || savedViews,
               savedPipelines: override?.savedPipelines || savedPipelines,
               settings: override?.settings || appSettings
@@ -130,7 +177,42 @@ export const useResourceManager = (
               await persistenceService.forceSync(currentCredentials.current.projectId);
           }
       }
-  }, [taxonomy, activePolicies, savedViews, savedPipelines, appSettings]);
+  }, [taxonomy, activePolicies, policyExceptions, savedViews, savedPipelines, appSettings]);
+
+  // --- IAM preflight: which projects/types can be listed and labeled ---
+  const checkPermissions = useCallback(async (projectIds: string[]) => {
+    const credentials = currentCredentials.current;
+    if (!credentials) return;
+
+    setIsCheckingPermissions(true);
+    const run = (async (): Promise<ProjectCapabilities[] | null> => {
+        try {
+            const [result, missingScope] = await Promise.all([
+                preflightPermissions(projectIds, credentials.accessToken),
+                credentials.scope ? getMissingScopePermissions(credentials.scope, credentials.accessToken).catch(() => []) : Promise.resolve([])
+            ]);
+            if (currentCredentials.current?.projectId !== credentials.projectId) return null; // Reconnected meanwhile
+            setCapabilities(result);
+            const restricted = result.filter(c => c.error || Object.values(c.types).some(t => t && !t.canUpdate && t.canList));
+            if (restricted.length > 0) {
+                addLog(`Permission preflight: limited access in ${restricted.map(c => c.projectId).join(', ')}.`, 'WARNING');
+            }
+            if (missingScope.length > 0) {
+                addLog(`Permission preflight: missing ${missingScope.join(', ')} on ${credentials.scope!.type.toLowerCase()} ${credentials.scope!.id}; projects beneath it may be skipped.`, 'WARNING');
+            }
+            return result;
+        } catch (e: any) {
+            addNotification(`Permission check failed: ${describeError(e)}`, 'warning');
+            return null;
+        }
+    })();
+    pendingPreflight.current = run;
+    await run;
+    if (pendingPreflight.current === run) {
+        pendingPreflight.current = null;
+        setIsCheckingPermissions(false);
+    }
+  }, [addLog, addNotification]);
 
   const loadDemoData = useCallback(async () => {
     setIsConnecting(true);
@@ -148,6 +230,7 @@ export const useResourceManager = (
     if (govData) {
         setTaxonomy(govData.taxonomy);
         setActivePolicies(restoreGovernanceContext(govData.policies, govData.taxonomy));
+        setPolicyExceptions(govData.exceptions || []);
         setSavedViews(govData.savedViews || []);
         setSavedPipelines(govData.savedPipelines || []);
         setAppSettings({ ...DEFAULT_SETTINGS, ...govData.settings });
@@ -188,20 +271,30 @@ export const useResourceManager = (
     setResources(demoResources);
     
     setLoadingStatus({ progress: 100, message: 'Demo Environment Ready' });
+    checkPermissions([projectId]);
     setIsConnecting(false);
     return true;
-  }, []);
+  }, [checkPermissions]);
 
   const connectProject = useCallback(async (credentials: GcpCredentials) => {
     if (credentials.accessToken === 'demo-mode') {
         return loadDemoData();
     }
 
+    // A new connection supersedes any scan still running for the previous one
+    scanController.current?.abort();
+    const controller = new AbortController();
+    scanController.current = controller;
+
     setIsConnecting(true);
     setLoadingStatus({ progress: 5, message: 'Authenticating...' });
+    setScanProgress([]);
+    setCapabilities([]);
     setResources([]); 
     pendingResources.current = []; 
     currentCredentials.current = credentials;
+    lastSyncAt.current = null;
+    const scanStartedAt = new Date();
     
     try {
       setLoadingStatus({ progress: 15, message: 'Initializing Security Context...' });
@@ -222,6 +315,7 @@ export const useResourceManager = (
           // Restore State
           setTaxonomy(govData.taxonomy);
           setActivePolicies(restoreGovernanceContext(govData.policies, govData.taxonomy));
+          setPolicyExceptions(govData.exceptions || []);
           setSavedViews(govData.savedViews || []);
           setSavedPipelines(govData.savedPipelines || []);
           setAppSettings({ ...DEFAULT_SETTINGS, ...govData.settings });
@@ -229,6 +323,7 @@ export const useResourceManager = (
       } else {
           setTaxonomy(DEFAULT_TAXONOMY);
           setActivePolicies(getPolicies(DEFAULT_TAXONOMY));
+          setPolicyExceptions([]);
           setSavedViews([]);
           setSavedPipelines([]);
           setAppSettings(DEFAULT_SETTINGS);
@@ -236,42 +331,90 @@ export const useResourceManager = (
 
       setLoadingStatus({ progress: 20, message: 'Starting Resource Discovery...' });
       
-      await fetchAllResources(
-        credentials.projectId, 
-        credentials.accessToken,
-        (newChunk, source) => {
-           const hydratedChunk = newChunk.map(r => {
-               // Drift Calculation
-               let driftStatus: 'SYNCED' | 'DRIFTED' | 'UNKNOWN' = 'UNKNOWN';
-               if (lastSnapshot) {
-                   const storedHash = snapshotMap.get(r.id);
-                   // Calculate current hash
-                   const currentHash = JSON.stringify(r.labels);
-                   if (!storedHash) {
-                       driftStatus = 'DRIFTED'; // New resource not in snapshot
-                   } else {
-                       driftStatus = storedHash !== currentHash ? 'DRIFTED' : 'SYNCED';
-                   }
-               }
-
-               return {
-                   ...r,
-                   history: historyMap[r.id] || [],
-                   driftStatus
-               };
-           });
-           
-           pendingResources.current = [...pendingResources.current, ...hydratedChunk];
-           setLoadingStatus(prev => ({
-               progress: Math.min(95, prev.progress + 5),
-               message: `Discovered ${pendingResources.current.length} resources (${source})...`
-           }));
-        }
-      );
+      const handleChunk = (newChunk: GceResource[], source: string) => {
+        if (controller.signal.aborted) return;
+        const hydratedChunk = newChunk.map(r => {
+            // Drift Calculation
+            let driftStatus: 'SYNCED' | 'DRIFTED' | 'UNKNOWN' = 'UNKNOWN';
+            if (lastSnapshot) {
+                const storedHash = snapshotMap.get(r.id);
+                // Calculate current hash
+                const currentHash = JSON.stringify(r.labels);
+                if (!storedHash) {
+                    driftStatus = 'DRIFTED'; // New resource not in snapshot
+                } else {
+                    driftStatus = storedHash !== currentHash ? 'DRIFTED' : 'SYNCED';
+                }
+            }
+
+            return {
+                ...r,
+                history: historyMap[r.id] || [],
+                driftStatus
+            };
+        });
+        
+        pendingResources.current = [...pendingResources.current, ...hydratedChunk];
+        setLoadingStatus(prev => ({
+            progress: Math.min(95, prev.progress + 5),
+            message: `Discovered ${pendingResources.current.length} resources (${source})...`
+        }));
+      };
+
+      const sourceFailures = new Map<string, ScanSourceProgress>();
+      const handleProgress = (progress: ScanSourceProgress) => {
+        if (scanController.current !== controller) return;
+        if (progress.errorKind) sourceFailures.set(progress.source, progress);
+        setScanProgress(prev => {
+            const index = prev.findIndex(p => p.source === progress.source);
+            if (index === -1) return [...prev, progress];
+            const next = [...prev];
+            next[index] = progress;
+            return next;
+        });
+      };
+      const scanOptions = { signal: controller.signal, onProgress: handleProgress };
+
+      const scope = credentials.scope;
+      const discoveryMode = govData?.settings?.discoveryMode || DEFAULT_SETTINGS.discoveryMode;
+      let usedAssetInventory = false;
+
+      if (discoveryMode === 'ASSET_INVENTORY') {
+          setLoadingStatus({ progress: 20, message: 'Searching Cloud Asset Inventory...' });
+          try {
+              await fetchAssetInventoryResources(scope || { type: 'PROJECT', id: credentials.projectId }, credentials.accessToken, handleChunk, scanOptions);
+              usedAssetInventory = true;
+          } catch (e: any) {
+              if (isAuthError(e) || isAbortError(e)) throw e;
+              addLog(`Asset Inventory discovery unavailable (${e.message}). Falling back to service APIs.`, 'WARNING');
+              addNotification('Cloud Asset Inventory unavailable. Using per-service discovery instead.', 'warning');
+              pendingResources.current = [];
+          }
+      }
+
+      if (usedAssetInventory) {
+          addLog(`Discovered ${pendingResources.current.length} resources via Cloud Asset Inventory.`, 'INFO');
+      } else if (scope && scope.type !== 'PROJECT') {
+          setLoadingStatus({ progress: 20, message: `Enumerating projects in ${scope.type.toLowerCase()} ${scope.id}...` });
+          const { projectIds, failures } = await listProjectsInScope(credentials.accessToken, scope, controller.signal);
+          if (projectIds.length === 0) {
+              if (failures.length > 0) throw failures[0]; // e.g. the permission error, not a misleading "no projects"
+              throw new Error(`No accessible projects found under ${scope.type.toLowerCase()} ${scope.id}`);
+          }
+          if (failures.length > 0) {
+              addLog(`Project enumeration under ${scope.type.toLowerCase()} ${scope.id} is incomplete: ${summarizeErrors(failures)}`, 'WARNING');
+              addNotification(`Some folders could not be listed, so projects beneath them are not scanned (${summarizeErrors(failures)}).`, 'warning');
+          }
+          addLog(`Scanning ${projectIds.length} projects under ${scope.type.toLowerCase()} ${scope.id}.`, 'INFO');
+          await fetchAllProjectsResources(projectIds, credentials.accessToken, handleChunk, scanOptions);
+      } else {
+          await fetchAllResources(credentials.projectId, credentials.accessToken, handleChunk, scanOptions);
+      }
       
       const finalResources = pendingResources.current;
       setResources(finalResources);
       setLoadingStatus({ progress: 100, message: 'Inventory Synced.' });
+      lastSyncAt.current = scanStartedAt;
       
       // AUTO-SAVE SNAPSHOT FOR TIME MACHINE & DRIFT BASELINE
       if (credentials.accessToken !== 'demo-mode') {
@@ -281,20 +424,45 @@ export const useResourceManager = (
 
       addLog('Discovery complete.', 'SUCCESS');
       addNotification(`Connected. Managed ${finalResources.length} resources.`, 'success');
+      if (sourceFailures.size > 0) {
+          const failures = Array.from(sourceFailures.values()).map(p => ({ kind: p.errorKind, remediation: p.remediation }));
+          addNotification(`${failures.length} discovery sources reported errors: ${summarizeErrors(failures)}`, 'warning');
+      }
+      checkPermissions(projectsOf(finalResources, credentials)); // Non-blocking; the matrix fills in when ready
       return true;
 
     } catch (error: any) {
-      const rawMsg = error.message || 'Unknown error';
-      if (rawMsg.includes('401')) {
+      if (isAbortError(error)) {
+          // Superseded scans stay silent; only an explicit cancel keeps its partial inventory
+          if (scanController.current === controller) {
+              setResources([...pendingResources.current]);
+              setLoadingStatus({ progress: 100, message: 'Scan cancelled.' });
+              addLog(`Scan cancelled after ${pendingResources.current.length} resources.`, 'WARNING');
+              addNotification(`Scan cancelled. Showing ${pendingResources.current.length} resources discovered so far.`, 'info');
+          }
+          return false;
+      }
+      if (isAuthError(error)) {
          addNotification('Session Expired. Please re-authenticate.', 'error');
       } else {
-         addNotification(`Connection Error: ${rawMsg}`, 'error');
+         addNotification(`Connection Error: ${describeError(error) || 'Unknown error'}`, 'error');
       }
       return false;
     } finally {
-      setIsConnecting(false);
+      if (scanController.current === controller) {
+          scanController.current = null;
+          setIsConnecting(false);
+      }
     }
-  }, [addLog, addNotification, loadDemoData]);
+  }, [addLog, addNotification, loadDemoData, checkPermissions]);
+
+  const recheckPermissions = useCallback(() => {
+    if (currentCredentials.current) checkPermissions(projectsOf(resources, currentCredentials.current));
+  }, [resources, checkPermissions]);
+
+  const cancelScan = useCallback(() => {
+    scanController.current?.abort();
+  }, []);
 
   useEffect(() => {
     if (!isConnecting) return;
@@ -306,15 +474,109 @@ export const useResourceManager = (
     return () => clearInterval(interval);
   }, [isConnecting, resources.length]);
 
-  const refreshResources = useCallback(async () => {
-    if (!currentCredentials.current) return;
-    return connectProject(currentCredentials.current);
-  }, [connectProject]);
+  /**
+   * Replays admin-activity audit entries since the watermark and re-reads only the
+   * resources they touched. Existing entries keep their history and driftStatus.
+   */
+  const syncIncremental = useCallback(async (credentials: GcpCredentials, since: Date) => {
+    const syncStartedAt = new Date();
+    const windowStart = new Date(since.getTime() - AUDIT_INGESTION_SKEW_MS);
+    const projectIds = Array.from(new Set([credentials.projectId, ...resources.map(r => projectOf(r, credentials))]));
+
+    const perProject = await Promise.all(projectIds.map(async (projectId) => {
+        const entries = await fetchGcpAuditLogs(projectId, credentials.accessToken, 1000, windowStart);
+        return entries.map(entry => parseResourceChange(entry, projectId));
+    }));
+
+    // Entries arrive oldest-first, so the last one per resource decides insert vs delete.
+    // Names are only unique per location (same-named instances in two zones are two resources).
+    const changes = new Map<string, ResourceChange>();
+    perProject.flat().forEach(change => {
+        if (change) changes.set(`${change.projectId}|${change.type}|${change.zone || ''}|${change.name}`, change);
+    });
+
+    // Without a location the resource cannot be re-read; the caller falls back to a full scan
+    const unaddressable = Array.from(changes.values()).filter(c => !isChangeAddressable(c));
+    if (unaddressable.length > 0) {
+        throw new Error(`${unaddressable.length} changed resources have no location in the audit log`);
+    }
+
+    if (changes.size === 0) {
+        lastSyncAt.current = syncStartedAt;
+        addNotification('Inventory is up to date.', 'info');
+        return;
+    }
+
+    const deletions = Array.from(changes.values()).filter(c => c.action === 'DELETE');
+    const upserts = await Promise.all(Array.from(changes.values()).filter(c => c.action === 'UPSERT').map(async (change) => {
+        const existing = resources.find(r => matchesChange(r, change, credentials));
+        const ref: GceResource = existing || {
+            id: '', name: change.name, type: change.type, zone: change.zone || '', status: 'UNKNOWN',
+            creationTimestamp: '', provisioningModel: 'STANDARD', labels: {}, labelFingerprint: ''
+        };
+        const fresh = await fetchResourceDetails(change.projectId, credentials.accessToken, ref);
+        return fresh ? { change, fresh } : null;
+    }));
+
+    setResources(prev => {
+        let next = prev.filter(r => !deletions.some(c => matchesChange(r, c, credentials)));
+        upserts.forEach(result => {
+            if (!result) return;
+            const { change, fresh } = result;
+            const index = next.findIndex(r => matchesChange(r, change, credentials));
+            if (index >= 0) {
+                const existing = next[index];
+                // Local UI state (proposals, dirty flags) survives; API fields are replaced
+                next[index] = { ...existing, ...fresh, id: existing.id, history: existing.history, driftStatus: existing.driftStatus };
+            } else {
+                next = [...next, { ...fresh, history: [], driftStatus: 'DRIFTED' }]; // New since the drift baseline
+            }
+        });
+        return [...next];
+    });
+
+    lastSyncAt.current = syncStartedAt;
+    const updated = upserts.filter(Boolean).length;
+    addLog(`Incremental sync: ${updated} updated, ${deletions.length} removed.`, 'INFO');
+    addNotification(`Synced ${updated + deletions.length} changed resources.`, 'success');
+  }, [resources, addLog, addNotification]);
+
+  const refreshResources = useCallback(async (mode: 'INCREMENTAL' | 'FULL' = 'INCREMENTAL') => {
+    const credentials = currentCredentials.current;
+    if (!credentials) return;
+    if (mode === 'FULL' || !lastSyncAt.current) return connectProject(credentials);
+
+    setIsSyncing(true);
+    try {
+        await syncIncremental(credentials, lastSyncAt.current);
+        return true;
+    } catch (error: any) {
+        if (isAuthError(error)) {
+            addNotification('Session Expired. Please re-authenticate.', 'error');
+            return false;
+        }
+        addLog(`Incremental sync unavailable (${error.message}). Running full scan.`, 'WARNING');
+        addNotification('Audit log window unavailable. Running a full rescan.', 'warning');
+        return connectProject(credentials);
+    } finally {
+        setIsSyncing(false);
+    }
+  }, [connectProject, syncIncremental, addLog, addNotification]);
 
   const updateGovernance = useCallback(async (newTaxonomy: TaxonomyRule[], newPolicies: GovernancePolicy[]) => {
+      const taxonomyError = validateTaxonomy(newTaxonomy);
+      if (taxonomyError) {
+          addNotification(`Taxonomy not saved: ${taxonomyError}`, 'error');
+          return;
+      }
       setTaxonomy(newTaxonomy);
       setActivePolicies(newPolicies);
       await persistState({ taxonomy: newTaxonomy, policies: newPolicies });
+  }, [persistState, addNotification]);
+
+  const updateExceptions = useCallback(async (newExceptions: PolicyException[]) => {
+      setPolicyExceptions(newExceptions);
+      await persistState({ exceptions: newExceptions });
   }, [persistState]);
 
   const updateSavedViews = useCallback(async (newViews: SavedView[]) => {
@@ -337,7 +599,7 @@ export const useResourceManager = (
     addNotification('AI Auditor initiated. Scanning inventory...', 'info');
     
     // Ensure we are auditing the FULLY evaluated state including violations
-    const currentInventory = evaluateInventory(resources, taxonomy, activePolicies);
+    const currentInventory = evaluateInventory(resources, taxonomy, activePolicies, false, policyExceptions);
 
     try {
       if (currentCredentials.current?.projectId === 'demo-mode') {
@@ -398,7 +660,7 @@ export const useResourceManager = (
     } finally {
       setIsAnalysing(false);
     }
-  }, [resources, addNotification, stats, taxonomy, activePolicies]);
+  }, [resources, addNotification, stats, taxonomy, activePolicies, policyExceptions]);
 
   // --- Background Dashboard Insight Generation ---
   const generateDashboardInsight = useCallback(async (metrics: any) => {
@@ -420,6 +682,22 @@ export const useResourceManager = (
 
   const clearDashboardInsight = useCallback(() => setDashboardInsight(null), []);
 
+  // Best effort: the cluster itself is already labeled, so a node pool failure only warns
+  const syncNodePoolLabels = useCallback(async (
+    credentials: GcpCredentials,
+    resource: GceResource,
+    newLabels: Record<string, string>,
+    operation?: any
+  ) => {
+    if (resource.type !== 'GKE_CLUSTER' || !appSettings.propagateClusterLabels) return;
+    try {
+        await propagateClusterLabelsToNodePools(projectOf(resource, credentials), credentials.accessToken, resource, newLabels, operation?.name);
+    } catch (e: any) {
+        console.error(`Node pool label propagation failed for ${resource.name}`, e);
+        addNotification(`Labels applied to ${resource.name}, but node pools were not updated: ${describeError(e)}`, 'warning');
+    }
+  }, [appSettings.propagateClusterLabels, addNotification]);
+
   const updateResourceLabels = useCallback(async (
     credentials: GcpCredentials, 
     resourceId: string, 
@@ -433,7 +711,8 @@ export const useResourceManager = (
 
     try {
       if (credentials.accessToken !== 'demo-mode') {
-        await updateResourceLabelsApi(credentials.projectId, credentials.accessToken, resource, newLabels);
+        const operation = await updateResourceLabelsApi(projectOf(resource, credentials), credentials.accessToken, resource, newLabels);
+        await syncNodePoolLabels(credentials, resource, newLabels, operation);
       } else {
         await new Promise(r => setTimeout(r, 600));
       }
@@ -478,18 +757,53 @@ export const useResourceManager = (
       addNotification(`Updated ${resource.name}`, 'success');
     } catch (error: any) {
       setResources(prev => prev.map(r => r.id === resourceId ? { ...r, isUpdating: false } : r));
-      addNotification(`Update failed: ${error.message}`, 'error');
+      addNotification(`Update failed: ${describeError(error)}`, 'error');
     }
-  }, [resources, addNotification]);
+  }, [resources, addNotification, syncNodePoolLabels]);
 
   /**
    * Optimized Bulk Update with Sliding Window Concurrency
    */
   const bulkUpdateLabels = useCallback(async (
     credentials: GcpCredentials,
-    updates: Map<string, Record<string, string>>,
+    requestedUpdates: Map<string, Record<string, string>>,
     changeReason?: string
   ) => {
+     // A batch started mid-preflight would otherwise trim nothing and write blind
+     let currentCapabilities = capabilities;
+     if (pendingPreflight.current) {
+         addNotification('Waiting for the permission check to finish before applying labels...', 'info');
+         const checked = await pendingPreflight.current;
+         if (!checked) {
+             addNotification('Batch refused: permissions could not be verified. Re-check permissions and try again.', 'error');
+             return;
+         }
+         currentCapabilities = checked;
+     }
+
+     // Drop resources the preflight says we cannot modify rather than failing (and rolling back) mid-batch
+     const capabilityByProject = new Map(currentCapabilities.map(c => [c.projectId, c]));
+     const updates = new Map(requestedUpdates);
+     const missingPermissions = new Set<string>();
+     resources.forEach(r => {
+         if (!updates.has(r.id)) return;
+         const missing = getMissingUpdatePermissions(r, capabilityByProject.get(projectOf(r, credentials)));
+         if (missing.length === 0) return;
+         updates.delete(r.id);
+         missing.forEach(p => missingPermissions.add(p));
+     });
+
+     const blockedCount = requestedUpdates.size - updates.size;
+     if (blockedCount > 0) {
+         const permissionList = Array.from(missingPermissions).join(', ');
+         if (updates.size === 0) {
+             addNotification(`Batch refused: you cannot modify any of the selected resources (missing ${permissionList}).`, 'error');
+             return;
+         }
+         addLog(`Skipped ${blockedCount} resources without label permissions: ${permissionList}`, 'WARNING');
+         addNotification(`Skipped ${blockedCount} resources you cannot modify (missing ${permissionList}).`, 'warning');
+     }
+
      const idsToUpdate = Array.from(updates.keys());
      const count = idsToUpdate.length;
      
@@ -502,158 +816,170 @@ export const useResourceManager = (
      });
 
      setResources(prev => prev.map(r => updates.has(r.id) ? { ...r, isUpdating: true } : r));
-     setBatchProgress({ processed: 0, total: count, status: 'updating' });
-
-     const successfulUpdates: string[] = [];
-     let errorOccurred: Error | null = null;
-     let processedCount = 0;
+     setBatchProgress({ processed: 0, total: count, status: 'updating', rates: getRateStatus() });
+     // The rate subscription keeps writing batch progress, so it must end however the batch does
+     const unsubscribeRates = subscribeRateStatus(rates => setBatchProgress(prev => prev && { ...prev, rates }));
+     try {
+         const successfulUpdates: string[] = [];
+         const failures: Error[] = []; // Every write that failed before the batch stopped dispatching
+         let processedCount = 0;
 
-     const limit = createSlidingWindow(8); 
+         const limit = createSlidingWindow(adaptiveBulkConcurrency);
 
-     const promises = idsToUpdate.map(id => {
-         return limit(async () => {
-             if (errorOccurred) return { id, status: 'skipped' };
+         const promises = idsToUpdate.map(id => {
+             return limit(async () => {
+                 if (failures.length > 0) return { id, status: 'skipped' };
 
-             const res = resources.find(r => r.id === id);
-             const labels = updates.get(id);
-             if (!res || !labels) return { id, status: 'skipped' };
-
-             try {
-                 if (credentials.accessToken !== 'demo-mode') {
-                     await updateResourceLabelsApi(credentials.projectId, credentials.accessToken, res, labels);
-                 } else {
-                     await new Promise(r => setTimeout(r, 50)); 
-                 }
+                 const res = resources.find(r => r.id === id);
+                 const labels = updates.get(id);
+                 if (!res || !labels) return { id, status: 'skipped' };
+
+                 try {
+                     if (credentials.accessToken !== 'demo-mode') {
+                         const operation = await updateResourceLabelsApi(projectOf(res, credentials), credentials.accessToken, res, labels);
+                         await syncNodePoolLabels(credentials, res, labels, operation);
+                     } else {
+                         await new Promise(r => setTimeout(r, 50)); 
+                     }
                  
-                 successfulUpdates.push(id);
-                 processedCount++;
+                     successfulUpdates.push(id);
+                     processedCount++;
                  
-                 if (processedCount % 5 === 0 || processedCount === count) {
-                    setBatchProgress({ processed: processedCount, total: count, status: 'updating' });
-                 }
+                     if (processedCount % 5 === 0 || processedCount === count) {
+                        setBatchProgress({ processed: processedCount, total: count, status: 'updating', rates: getRateStatus() });
+                     }
                  
-                 return { id, status: 'fulfilled' };
-             } catch (e: any) {
-                 errorOccurred = e; 
-                 console.error(`Bulk Update Error on ${id}:`, e);
-                 return { id, status: 'rejected', reason: e };
-             }
+                     return { id, status: 'fulfilled' };
+                 } catch (e: any) {
+                     failures.push(e);
+                     console.error(`Bulk Update Error on ${id}:`, e);
+                     return { id, status: 'rejected', reason: e };
+                 }
+             });
          });
-     });
 
-     await Promise.all(promises);
+         await Promise.all(promises);
 
-     if (errorOccurred) {
-         addNotification(`Transaction failed. Rolling back ${successfulUpdates.length} changes...`, 'warning');
-         setBatchProgress({ processed: 0, total: successfulUpdates.length, status: 'rolling-back' }); 
+         if (failures.length > 0) {
+             addNotification(`Transaction failed (${summarizeErrors(failures)}). Rolling back ${successfulUpdates.length} changes...`, 'warning');
+             setBatchProgress(prev => ({ ...prev, processed: 0, total: successfulUpdates.length, status: 'rolling-back' }));
 
-         const rollbackLimit = createSlidingWindow(3);
-         let rollbackCount = 0;
-         const stuckResources: string[] = [];
+             const rollbackLimit = createSlidingWindow(3);
+             let rollbackCount = 0;
+             const stuckResources: string[] = [];
+             const rollbackFailures: unknown[] = [];
 
-         const rollbackPromises = successfulUpdates.map(id => {
-             return rollbackLimit(async () => {
-                 const res = resources.find(r => r.id === id);
-                 const originalLabels = originalStates.get(id);
+             const rollbackPromises = successfulUpdates.map(id => {
+                 return rollbackLimit(async () => {
+                     const res = resources.find(r => r.id === id);
+                     const originalLabels = originalStates.get(id);
                  
-                 if (res && originalLabels) {
-                     try {
-                         if (credentials.accessToken !== 'demo-mode') {
-                             const freshResource = await fetchResource(credentials.projectId, credentials.accessToken, res);
-                             if (freshResource) {
-                                 await updateResourceLabelsApi(credentials.projectId, credentials.accessToken, freshResource, originalLabels);
+                     if (res && originalLabels) {
+                         try {
+                             if (credentials.accessToken !== 'demo-mode') {
+                                 const freshResource = await fetchResource(projectOf(res, credentials), credentials.accessToken, res);
+                                 if (!freshResource) {
+                                     throw new Error(`Could not refetch ${res.name} for rollback`);
+                                 }
+                                 const operation = await updateResourceLabelsApi(projectOf(res, credentials), credentials.accessToken, freshResource, originalLabels);
+                                 // Pools got the batch labels too; restore them from the pre-batch copy or the cluster is half rolled back
+                                 if (res.type === 'GKE_CLUSTER' && appSettings.propagateClusterLabels) {
+                                     await restoreNodePoolLabels(projectOf(res, credentials), credentials.accessToken, res, operation?.name);
+                                 }
                              }
+                             rollbackCount++;
+                             if (rollbackCount % 2 === 0 || rollbackCount === successfulUpdates.length) {
+                                setBatchProgress(prev => ({ ...prev, processed: rollbackCount, total: successfulUpdates.length, status: 'rolling-back' }));
+                             }
+                         } catch (rollbackError) {
+                             console.error(`Critical: Failed to rollback resource ${id}`, rollbackError);
+                             // Rollback failed. Resource is now in a "drifted" state (server has new labels, our original intention was old labels).
+                             stuckResources.push(id);
+                             rollbackFailures.push(rollbackError);
                          }
-                         rollbackCount++;
-                         if (rollbackCount % 2 === 0 || rollbackCount === successfulUpdates.length) {
-                            setBatchProgress({ processed: rollbackCount, total: successfulUpdates.length, status: 'rolling-back' });
-                         }
-                     } catch (rollbackError) {
-                         console.error(`Critical: Failed to rollback resource ${id}`, rollbackError);
-                         // Rollback failed. Resource is now in a "drifted" state (server has new labels, our original intention was old labels).
-                         stuckResources.push(id);
                      }
-                 }
+                 });
              });
-         });
 
-         await Promise.all(rollbackPromises);
-
-         setResources(prev => prev.map(r => {
-             if (updates.has(r.id)) {
-                 // If rollback failed for this item, we must update local state to reflect the "Stuck" (New) labels
-                 // so the user sees reality, even though the batch failed.
-                 if (stuckResources.includes(r.id)) {
-                     const stuckLabels = updates.get(r.id)!;
-                     return { 
-                         ...r, 
-                         labels: stuckLabels,
-                         isUpdating: false, 
-                         driftStatus: 'DRIFTED' as const // Mark as drifted/inconsistent
-                     };
+             await Promise.all(rollbackPromises);
+
+             setResources(prev => prev.map(r => {
+                 if (updates.has(r.id)) {
+                     // If rollback failed for this item, we must update local state to reflect the "Stuck" (New) labels
+                     // so the user sees reality, even though the batch failed.
+                     if (stuckResources.includes(r.id)) {
+                         const stuckLabels = updates.get(r.id)!;
+                         return { 
+                             ...r, 
+                             labels: stuckLabels,
+                             isUpdating: false, 
+                             driftStatus: 'DRIFTED' as const // Mark as drifted/inconsistent
+                         };
+                     }
+                     // Otherwise, it was successfully rolled back (or skipped), so keep original state
+                     return { ...r, isUpdating: false };
                  }
-                 // Otherwise, it was successfully rolled back (or skipped), so keep original state
-                 return { ...r, isUpdating: false };
-             }
-             return r;
-         }));
+                 return r;
+             }));
          
-         if (stuckResources.length > 0) {
-             addNotification(`Transaction aborted. ${stuckResources.length} resources could not be rolled back and are now drifted.`, 'error');
-         } else {
-             addNotification(`Transaction aborted. ${rollbackCount}/${successfulUpdates.length} changes reverted successfully.`, 'warning');
-         }
+             if (stuckResources.length > 0) {
+                 addNotification(`Transaction aborted. ${stuckResources.length} resources could not be rolled back and are now drifted (${summarizeErrors(rollbackFailures)}).`, 'error');
+             } else {
+                 addNotification(`Transaction aborted. ${rollbackCount}/${successfulUpdates.length} changes reverted successfully.`, 'warning');
+             }
 
-     } else {
-         const updatesToPersist = new Map<string, LabelHistoryEntry[]>();
-
-         setResources(prev => {
-             const next = prev.map(r => {
-                if (updates.has(r.id)) {
-                    const newLabels = updates.get(r.id)!;
-                    const historyEntry: LabelHistoryEntry = {
-                        timestamp: new Date(),
-                        actor: 'User (Batch)',
-                        changeType: 'BATCH_UPDATE',
-                        reason: changeReason || 'Bulk Operation',
-                        previousLabels: originalStates.get(r.id) || {},
-                        newLabels: newLabels
-                    };
-                    const newHistory = [historyEntry, ...(r.history || [])];
-                    updatesToPersist.set(r.id, newHistory);
-
-                    return { 
-                        ...r, 
-                        labels: newLabels, 
-                        isUpdating: false, 
-                        proposedLabels: undefined, 
-                        history: newHistory,
-                        driftStatus: 'SYNCED' as const
-                    };
-                }
-                return r;
-            });
+         } else {
+             const updatesToPersist = new Map<string, LabelHistoryEntry[]>();
+
+             setResources(prev => {
+                 const next = prev.map(r => {
+                    if (updates.has(r.id)) {
+                        const newLabels = updates.get(r.id)!;
+                        const historyEntry: LabelHistoryEntry = {
+                            timestamp: new Date(),
+                            actor: 'User (Batch)',
+                            changeType: 'BATCH_UPDATE',
+                            reason: changeReason || 'Bulk Operation',
+                            previousLabels: originalStates.get(r.id) || {},
+                            newLabels: newLabels
+                        };
+                        const newHistory = [historyEntry, ...(r.history || [])];
+                        updatesToPersist.set(r.id, newHistory);
+
+                        return { 
+                            ...r, 
+                            labels: newLabels, 
+                            isUpdating: false, 
+                            proposedLabels: undefined, 
+                            history: newHistory,
+                            driftStatus: 'SYNCED' as const
+                        };
+                    }
+                    return r;
+                });
             
-            if (credentials.accessToken === 'demo-mode') {
-                localStorage.setItem('demo_resources_v5', JSON.stringify(next));
-            }
-            return next;
-         });
+                if (credentials.accessToken === 'demo-mode') {
+                    localStorage.setItem('demo_resources_v5', JSON.stringify(next));
+                }
+                return next;
+             });
          
-         // Persist history
-         if (credentials.accessToken === 'demo-mode') {
-             await persistenceService.bulkSaveHistory(credentials.projectId, updatesToPersist);
-         } else {
-             await persistenceService.bulkSaveHistory(credentials.projectId, updatesToPersist);
-             await persistenceService.forceSync(credentials.projectId); 
-         }
+             // Persist history
+             if (credentials.accessToken === 'demo-mode') {
+                 await persistenceService.bulkSaveHistory(credentials.projectId, updatesToPersist);
+             } else {
+                 await persistenceService.bulkSaveHistory(credentials.projectId, updatesToPersist);
+                 await persistenceService.forceSync(credentials.projectId); 
+             }
 
-         addNotification(`Transaction successful. Updated ${count} resources.`, 'success');
+             addNotification(`Transaction successful. Updated ${count} resources.`, 'success');
+         }
+     } finally {
+         unsubscribeRates();
+         setTimeout(() => setBatchProgress(null), 1000);
      }
 
-     setTimeout(() => setBatchProgress(null), 1000);
-
-  }, [resources, addNotification]);
+  }, [resources, capabilities, appSettings.propagateClusterLabels, addLog, addNotification, syncNodePoolLabels]);
 
   const revertResource = useCallback((id: string) => {
     setResources(prev => prev.map(r => r.id === id ? { ...r, proposedLabels: undefined } : r));
@@ -664,6 +990,7 @@ export const useResourceManager = (
     resources: governedResources,
     stats,
     isConnecting,
+    isSyncing,
     loadingStatus, 
     isAnalysing,
     report,
@@ -675,6 +1002,11 @@ export const useResourceManager = (
     generateDashboardInsight,
     clearDashboardInsight,
     connectProject,
+    cancelScan,
+    scanProgress,
+    capabilities,
+    isCheckingPermissions,
+    recheckPermissions,
     refreshResources,
     loadDemoData,
     analyzeResources,
@@ -684,6 +1016,10 @@ export const useResourceManager = (
     clearReport,
     batchProgress,
     updateGovernance,
+    taxonomy,
+    policies: activePolicies,
+    exceptions: policyExceptions,
+    updateExceptions,
     updateSavedViews,
     updateSavedPipelines, 
     updateSettings
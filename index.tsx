@@ -1,3 +1,4 @@
+/// <reference types="vite/client" />
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { App } from './App';
@@ -8,9 +9,21 @@ if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
-const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+const render = () => {
+  const root = ReactDOM.createRoot(rootElement);
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+};
+
+// Build-time flag: without it the emulator chunk (and the mock estate it seeds from) is not bundled.
+// It must patch fetch before the app's first API call, so rendering waits for it.
+if (import.meta.env.VITE_GCP_EMULATOR === 'true') {
+  import('./services/gcpEmulator')
+    .then(({ installGcpEmulator }) => installGcpEmulator())
+    .finally(render);
+} else {
+  render();
+}
\ No newline at end of file
@@ -0,0 +1,208 @@
+/// <reference types="vite/client" />
+import { GcpCredentials, OAuthConfig, ScanScope } from '../types';
+
+const CONFIG_STORAGE_KEY = 'yalla_oauth_config';
+const PENDING_STORAGE_KEY = 'yalla_oauth_pending';
+
+// Refresh this long before expiry so long-running batches never see a stale token
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Build-time defaults from VITE_OAUTH_* in .env.local; the login screen can override all but the secret
+const env = import.meta.env;
+
+export const DEFAULT_OAUTH_CONFIG: OAuthConfig = {
+  clientId: env.VITE_OAUTH_CLIENT_ID || '',
+  clientSecret: env.VITE_OAUTH_CLIENT_SECRET || undefined,
+  scopes: (env.VITE_OAUTH_SCOPES || 'https://www.googleapis.com/auth/cloud-platform').split(/\s+/).filter(Boolean),
+  authorizationEndpoint: env.VITE_OAUTH_AUTH_URL || 'https://accounts.google.com/o/oauth2/v2/auth',
+  tokenEndpoint: env.VITE_OAUTH_TOKEN_URL || 'https://oauth2.googleapis.com/token',
+};
+
+// Survives the redirect to the authorization server and back
+interface PendingSignIn {
+  state: string;
+  codeVerifier: string;
+  config: OAuthConfig;
+  projectId: string;
+  scope?: ScanScope;
+}
+
+interface TokenSession {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt: number;
+  config: OAuthConfig;
+}
+
+// Tokens live in memory only; a reload signs the user out, same as a pasted token
+let session: TokenSession | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let inflightRefresh: Promise<string | null> | null = null;
+const tokenListeners = new Set<(accessToken: string) => void>();
+
+export const loadOAuthConfig = (): OAuthConfig => {
+  try {
+    const stored = localStorage.getItem(CONFIG_STORAGE_KEY);
+    return stored ? { ...DEFAULT_OAUTH_CONFIG, ...JSON.parse(stored) } : DEFAULT_OAUTH_CONFIG;
+  } catch {
+    return DEFAULT_OAUTH_CONFIG;
+  }
+};
+
+// The client secret is never written to storage
+export const saveOAuthConfig = (config: OAuthConfig) => {
+  const { clientSecret: _secret, ...persisted } = config;
+  localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(persisted));
+};
+
+const getRedirectUri = () => `${window.location.origin}${window.location.pathname}`;
+
+const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...Array.from(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const randomString = (byteLength: number) => base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+// RFC 7636 S256: BASE64URL(SHA256(verifier))
+const createCodeChallenge = async (verifier: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest));
+};
+
+/**
+ * Starts the authorization-code + PKCE flow by redirecting to the authorization server.
+ * The verifier, state and requested project are stashed in sessionStorage until the callback.
+ */
+export const beginOAuthSignIn = async (config: OAuthConfig, projectId: string, scope?: ScanScope): Promise<void> => {
+  if (!config.clientId) throw new Error('OAuth client ID is not configured');
+
+  const codeVerifier = randomString(48);
+  const state = randomString(16);
+  const pending: PendingSignIn = { state, codeVerifier, config: { ...config, clientSecret: undefined }, projectId, scope };
+  sessionStorage.setItem(PENDING_STORAGE_KEY, JSON.stringify(pending));
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: getRedirectUri(),
+    scope: config.scopes.join(' '),
+    state,
+    code_challenge: await createCodeChallenge(codeVerifier),
+    code_challenge_method: 'S256',
+    // Google only issues a refresh token for offline access with explicit consent
+    access_type: 'offline',
+    prompt: 'consent',
+  });
+  window.location.assign(`${config.authorizationEndpoint}?${params.toString()}`);
+};
+
+const requestToken = async (config: OAuthConfig, params: Record<string, string>): Promise<TokenSession> => {
+  const body = new URLSearchParams({ client_id: config.clientId, ...params });
+  if (config.clientSecret) body.set('client_secret', config.clientSecret);
+
+  const response = await fetch(config.tokenEndpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.access_token) {
+    throw new Error(data.error_description || data.error || `Token endpoint returned ${response.status}`);
+  }
+
+  return {
+    accessToken: data.access_token,
+    // Refresh responses usually omit the refresh token; keep the one we already hold
+    refreshToken: data.refresh_token || session?.refreshToken,
+    expiresAt: Date.now() + (Number(data.expires_in) || 3600) * 1000,
+    config,
+  };
+};
+
+const startSession = (next: TokenSession) => {
+  session = next;
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = null;
+  if (!next.refreshToken) return; // Nothing to refresh with; the session simply expires
+
+  const delay = Math.max(0, next.expiresAt - Date.now() - REFRESH_MARGIN_MS);
+  refreshTimer = setTimeout(() => {
+    refreshAccessToken().catch(e => console.warn('Silent token refresh failed', e));
+  }, delay);
+};
+
+/**
+ * Finishes the flow when the page loads with `?code=&state=`. Returns the credentials the
+ * sign-in was started for, or null when this page load is not an OAuth callback.
+ */
+export const completeOAuthRedirect = async (): Promise<GcpCredentials | null> => {
+  const params = new URLSearchParams(window.location.search);
+  const code = params.get('code');
+  const error = params.get('error');
+  if (!code && !error) return null;
+
+  const stored = sessionStorage.getItem(PENDING_STORAGE_KEY);
+  // Strip the callback parameters first so a re-render cannot replay the single-use code
+  sessionStorage.removeItem(PENDING_STORAGE_KEY);
+  window.history.replaceState(null, '', getRedirectUri());
+
+  if (error) throw new Error(`Sign-in was not completed: ${params.get('error_description') || error}`);
+  if (!stored) return null;
+
+  const pending: PendingSignIn = JSON.parse(stored);
+  if (params.get('state') !== pending.state) throw new Error('Sign-in response did not match the request (state mismatch)');
+
+  const config = { ...pending.config, clientSecret: DEFAULT_OAUTH_CONFIG.clientSecret };
+  startSession(await requestToken(config, {
+    grant_type: 'authorization_code',
+    code: code!,
+    redirect_uri: getRedirectUri(),
+    code_verifier: pending.codeVerifier,
+  }));
+
+  return { projectId: pending.projectId, accessToken: session!.accessToken, scope: pending.scope, authMode: 'OAUTH' };
+};
+
+/**
+ * Exchanges the refresh token for a new access token. Concurrent callers share one request.
+ * Resolves to null when there is no OAuth session or it cannot be refreshed.
+ */
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (!session?.refreshToken) return Promise.resolve(null);
+  if (inflightRefresh) return inflightRefresh;
+
+  const current = session;
+  inflightRefresh = requestToken(current.config, { grant_type: 'refresh_token', refresh_token: current.refreshToken! })
+    .then(next => {
+      if (session !== current) return null; // Signed out while the refresh was in flight
+      startSession(next);
+      tokenListeners.forEach(listener => listener(next.accessToken));
+      return next.accessToken;
+    })
+    .catch(e => {
+      console.warn('Token refresh rejected', e instanceof Error ? e.message : e);
+      return null;
+    })
+    .finally(() => { inflightRefresh = null; });
+  return inflightRefresh;
+};
+
+/**
+ * Called by the HTTP layer after a 401. Requests that went out with a token that has since
+ * been replaced just retry with the current one; otherwise the session is refreshed.
+ */
+export const recoverFromUnauthorized = async (failedToken: string): Promise<string | null> => {
+  if (!session) return null;
+  if (session.accessToken !== failedToken) return session.accessToken;
+  return refreshAccessToken();
+};
+
+export const onTokenRefreshed = (listener: (accessToken: string) => void) => {
+  tokenListeners.add(listener);
+  return () => { tokenListeners.delete(listener); };
+};
+
+export const signOut = () => {
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = null;
+  session = null;
+};
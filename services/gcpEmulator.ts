@@ -0,0 +1,701 @@
+import { GceResource, ResourceType } from '../types';
+import { generateMockResources } from './mockService';
+
+/**
+ * In-browser stand-in for the GCP REST endpoints Yalla calls. It patches `window.fetch`, so the
+ * real gcpService paths (pagination, fingerprints, 412 smart merge, rollback, GCS config sync)
+ * run against deterministic in-memory state instead of being bypassed like demo mode.
+ *
+ * Enabled only by building or serving with VITE_GCP_EMULATOR=true (index.tsx loads it lazily), then
+ * connect with any project ID and any access token. Faults can be preset with `?faults=412@setLabels*1,503*2`
+ * (STATUS[@URL_SUBSTRING][*TIMES]) or injected at runtime through `window.__gcpEmulator`.
+ */
+
+export interface EmulatorFault {
+  status: number;
+  match?: string; // Substring of the request URL; omitted matches every emulated request
+  method?: string;
+  times?: number; // Injections left; omitted = until cleared
+  probability?: number; // 0..1, drawn from the seeded RNG so runs are reproducible
+  reason?: string; // Overrides the default reason, e.g. SERVICE_DISABLED for a 403
+  retryAfterSeconds?: number;
+}
+
+export interface EmulatorOptions {
+  seed?: number;
+  latencyMs?: number;
+  pageSize?: number; // Small pages so pagination is exercised with the seed inventory
+  faults?: EmulatorFault[];
+}
+
+export interface EmulatedRequest {
+  method: string;
+  url: string;
+  status: number;
+  fault: boolean;
+}
+
+export interface GcpEmulator {
+  injectFault: (fault: EmulatorFault) => void;
+  clearFaults: () => void;
+  // Simulates a change made outside Yalla (console, Terraform) so the next write hits a precondition
+  mutateLabels: (projectId: string, name: string, labels: Record<string, string>) => boolean;
+  reset: () => void;
+  requests: EmulatedRequest[];
+  uninstall: () => void;
+}
+
+const EMULATED_HOSTS = [
+  'compute.googleapis.com', 'run.googleapis.com', 'sqladmin.googleapis.com', 'storage.googleapis.com',
+  'container.googleapis.com', 'bigquery.googleapis.com', 'pubsub.googleapis.com', 'logging.googleapis.com',
+  'cloudresourcemanager.googleapis.com', 'cloudasset.googleapis.com',
+];
+
+const STATUS_NAMES: Record<number, string> = {
+  400: 'INVALID_ARGUMENT', 401: 'UNAUTHENTICATED', 403: 'PERMISSION_DENIED', 404: 'NOT_FOUND', 409: 'ABORTED',
+  412: 'FAILED_PRECONDITION', 429: 'RESOURCE_EXHAUSTED', 500: 'INTERNAL', 503: 'UNAVAILABLE',
+};
+
+const DEFAULT_REASONS: Record<number, string> = {
+  401: 'authError', 403: 'forbidden', 404: 'notFound', 409: 'aborted', 412: 'conditionNotMet', 429: 'rateLimitExceeded',
+};
+
+const MAX_LOGGED_REQUESTS = 500;
+const PRINCIPAL = 'emulator@yalla.local';
+const SEED_EPOCH = Date.UTC(2024, 0, 1);
+
+interface StoredResource {
+  resource: GceResource;
+  version: number; // Bumped on every label write; source of fingerprints, etags and metagenerations
+}
+
+interface ProjectState {
+  resources: StoredResource[];
+  auditLog: any[];
+}
+
+interface StoredObject {
+  data: Blob;
+  generation: number;
+}
+
+interface EmulatorRequest {
+  method: string;
+  url: URL;
+  headers: Headers;
+  body: any;
+  project: string;
+}
+
+type Handler = (req: EmulatorRequest, match: RegExpMatchArray) => Response | Promise<Response>;
+
+// mulberry32: tiny seeded PRNG so probabilistic faults replay identically
+const createRng = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const delay = (ms: number, signal?: AbortSignal | null) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Request aborted', 'AbortError'));
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Request aborted', 'AbortError'));
+  }, { once: true });
+});
+
+// Constructed Responses have an empty url; error classification reads the service from it
+const withUrl = (response: Response, url: string) => {
+  Object.defineProperty(response, 'url', { value: url });
+  return response;
+};
+
+const json = (body: any, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+const errorResponse = (status: number, message: string, service: string, reason = DEFAULT_REASONS[status] || 'backendError', headers: Record<string, string> = {}) =>
+  json({
+    error: {
+      code: status,
+      message,
+      status: STATUS_NAMES[status] || 'UNKNOWN',
+      errors: [{ reason, message }],
+      details: [{ '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason, metadata: { service } }],
+    },
+  }, status, headers);
+
+const isZonal = (location: string) => /-[a-z]$/.test(location);
+const regionOf = (location: string) => location.replace(/-[a-z]$/, '');
+
+// Matches AUDIT_RESOURCE_PATTERNS in gcpService so incremental sync can resolve emulated changes
+const resourcePath = (project: string, r: GceResource): string => {
+  const p = `projects/${project}`;
+  switch (r.type) {
+    case 'INSTANCE': return `${p}/zones/${r.zone}/instances/${r.name}`;
+    case 'DISK': return `${p}/${isZonal(r.zone) ? 'zones' : 'regions'}/${r.zone}/disks/${r.name}`;
+    case 'SNAPSHOT': return `${p}/global/snapshots/${r.name}`;
+    case 'IMAGE': return `${p}/global/images/${r.name}`;
+    case 'VPC_NETWORK': return `${p}/global/networks/${r.name}`;
+    case 'FIREWALL_RULE': return `${p}/global/firewalls/${r.name}`;
+    case 'FORWARDING_RULE': return r.zone === 'global' ? `${p}/global/forwardingRules/${r.name}` : `${p}/regions/${r.zone}/forwardingRules/${r.name}`;
+    case 'ADDRESS': return r.zone === 'global' ? `${p}/global/addresses/${r.name}` : `${p}/regions/${r.zone}/addresses/${r.name}`;
+    case 'CLOUD_RUN': return `${p}/locations/${r.zone}/services/${r.name}`;
+    case 'CLOUD_SQL': return `${p}/instances/${r.name}`;
+    case 'BUCKET': return `projects/_/buckets/${r.name}`;
+    case 'GKE_CLUSTER': return `${p}/locations/${r.zone}/clusters/${r.name}`;
+    case 'BIGQUERY_DATASET': return `${p}/datasets/${r.name}`;
+    case 'PUBSUB_TOPIC': return `${p}/topics/${r.name}`;
+    case 'PUBSUB_SUBSCRIPTION': return `${p}/subscriptions/${r.name}`;
+    default: return `${p}/assets/${r.name}`;
+  }
+};
+
+const AUDIT_SERVICES: Partial<Record<ResourceType, string>> = {
+  CLOUD_RUN: 'run.googleapis.com', CLOUD_SQL: 'cloudsql.googleapis.com', BUCKET: 'storage.googleapis.com',
+  GKE_CLUSTER: 'container.googleapis.com', BIGQUERY_DATASET: 'bigquery.googleapis.com',
+  PUBSUB_TOPIC: 'pubsub.googleapis.com', PUBSUB_SUBSCRIPTION: 'pubsub.googleapis.com',
+};
+
+const fingerprint = (stored: StoredResource) => `fp-${stored.version}`;
+
+const computeLink = (project: string, path: string) => `https://www.googleapis.com/compute/v1/projects/${project}/${path}`;
+
+// Renders the stored resource in the wire format of its API; the inverse of gcpService's mappers
+const toApi = (project: string, stored: StoredResource): any => {
+  const r = stored.resource;
+  const labels = r.labels;
+  const base = { id: r.id, name: r.name, description: r.description, creationTimestamp: r.creationTimestamp };
+  const compute = { ...base, labels, labelFingerprint: fingerprint(stored) };
+
+  switch (r.type) {
+    case 'INSTANCE': return {
+      ...compute,
+      machineType: computeLink(project, `zones/${r.zone}/machineTypes/${r.machineType}`),
+      cpuPlatform: r.cpuPlatform,
+      status: r.status,
+      scheduling: { provisioningModel: r.provisioningModel },
+      disks: (r.disks || []).map(d => ({ deviceName: d.deviceName, diskSizeGb: String(d.sizeGb), type: `diskTypes/${d.type}`, boot: d.boot, interface: d.interface })),
+      networkInterfaces: (r.ips || []).map(ip => ({
+        network: computeLink(project, `global/networks/${ip.network}`),
+        subnetwork: ip.subnetwork ? computeLink(project, `regions/${regionOf(r.zone)}/subnetworks/${ip.subnetwork}`) : undefined,
+        networkIP: ip.internal,
+        accessConfigs: ip.external ? [{ natIP: ip.external }] : [],
+      })),
+      tags: { items: r.tags || [] },
+      serviceAccounts: r.serviceAccount ? [{ email: r.serviceAccount }] : [],
+    };
+    case 'DISK': return {
+      ...compute, sizeGb: r.sizeGb, type: `diskTypes/${r.machineType}`, status: r.status,
+      users: (r.users || []).map(u => computeLink(project, `zones/${r.zone}/instances/${u}`)),
+      resourcePolicies: r.resourcePolicies || [],
+    };
+    case 'SNAPSHOT': return { ...compute, status: r.status, diskSizeGb: r.sizeGb, snapshotType: r.storageClass, sourceDisk: r.sourceDisk };
+    case 'IMAGE': return { ...compute, status: r.status, diskSizeGb: r.sizeGb, family: r.family, sourceDisk: r.sourceDisk };
+    case 'CLOUD_RUN': return {
+      name: `projects/${project}/locations/${r.zone}/services/${r.name}`,
+      uid: r.id,
+      description: r.description,
+      createTime: r.creationTimestamp,
+      uri: r.url,
+      ingress: { all: 'INGRESS_TRAFFIC_ALL', internal: 'INGRESS_TRAFFIC_INTERNAL_ONLY', 'internal-and-cloud-lb': 'INGRESS_TRAFFIC_INTERNAL_LOAD_BALANCER' }[r.ingress || 'all'],
+      terminalCondition: { state: r.status === 'FAILED' ? 'CONDITION_FAILED' : 'CONDITION_SUCCEEDED' },
+      template: { serviceAccount: r.serviceAccount, containers: [{ resources: { limits: { memory: r.memory, cpu: r.cpu } } }] },
+      labels,
+      etag: `"${fingerprint(stored)}"`,
+    };
+    case 'CLOUD_SQL': return {
+      name: r.name,
+      connectionName: `${project}:${regionOf(r.zone)}:${r.name}`,
+      gceZone: r.zone,
+      region: regionOf(r.zone),
+      databaseVersion: r.databaseVersion,
+      state: r.status === 'STOPPED' ? 'RUNNABLE' : r.status,
+      createTime: r.creationTimestamp,
+      ipAddresses: (r.ips || []).flatMap(ip => [
+        ...(ip.internal ? [{ type: 'PRIVATE', ipAddress: ip.internal }] : []),
+        ...(ip.external ? [{ type: 'PRIMARY', ipAddress: ip.external }] : []),
+      ]),
+      settings: {
+        tier: r.machineType,
+        dataDiskSizeGb: r.sizeGb,
+        activationPolicy: r.status === 'STOPPED' ? 'NEVER' : 'ALWAYS',
+        userLabels: labels,
+        ipConfiguration: { privateNetwork: r.ips?.[0] ? `projects/${project}/global/networks/${r.ips[0].network}` : undefined },
+        settingsVersion: String(stored.version),
+      },
+      etag: fingerprint(stored),
+    };
+    case 'BUCKET': return {
+      id: r.name, name: r.name, timeCreated: r.creationTimestamp, location: r.zone.toUpperCase(), locationType: r.locationType,
+      storageClass: r.storageClass, labels, metageneration: String(stored.version),
+      iamConfiguration: { publicAccessPrevention: r.publicAccess ? 'inherited' : 'enforced' },
+    };
+    case 'GKE_CLUSTER': return {
+      id: r.id, name: r.name, description: r.description, location: r.zone, status: r.status, createTime: r.creationTimestamp,
+      currentNodeCount: r.clusterDetails?.nodeCount, currentMasterVersion: r.clusterDetails?.version, endpoint: r.clusterDetails?.endpoint,
+      autopilot: { enabled: !!r.clusterDetails?.isAutopilot }, network: r.clusterDetails?.network, subnetwork: r.clusterDetails?.subnetwork,
+      nodePools: (r.clusterDetails?.nodePools || []).map(pool => ({
+        name: pool.name, version: pool.version, status: pool.status, initialNodeCount: pool.nodeCount,
+        config: { machineType: pool.machineType, resourceLabels: pool.resourceLabels || {} },
+      })),
+      resourceLabels: labels,
+      labelFingerprint: fingerprint(stored),
+    };
+    case 'VPC_NETWORK': return { ...base, subnetworks: [], routingConfig: { routingMode: r.networkDetails?.routingMode || 'REGIONAL' } };
+    case 'FIREWALL_RULE': return {
+      ...base,
+      network: computeLink(project, `global/networks/${r.networkDetails?.network || 'default'}`),
+      direction: r.networkDetails?.direction, priority: r.networkDetails?.priority, disabled: r.status === 'DISABLED',
+      sourceRanges: r.networkDetails?.sourceRanges || [], targetTags: r.tags || [],
+      allowed: (r.networkDetails?.allowed || []).map(rule => {
+        const [IPProtocol, port] = rule.split(':');
+        return port ? { IPProtocol, ports: [port] } : { IPProtocol };
+      }),
+    };
+    case 'FORWARDING_RULE': return {
+      ...compute, IPAddress: r.networkDetails?.ipAddress, loadBalancingScheme: r.networkDetails?.loadBalancingScheme, portRange: r.networkDetails?.portRange,
+      target: r.networkDetails?.target ? computeLink(project, `global/targetHttpsProxies/${r.networkDetails.target}`) : undefined,
+    };
+    case 'ADDRESS': return {
+      ...compute, address: r.networkDetails?.ipAddress, addressType: r.networkDetails?.addressType, status: r.status,
+      users: (r.users || []).map(u => computeLink(project, `zones/${r.zone}/instances/${u}`)),
+    };
+    case 'BIGQUERY_DATASET': return {
+      id: `${project}:${r.name}`, datasetReference: { projectId: project, datasetId: r.name }, description: r.description,
+      location: r.zone.toUpperCase(), creationTime: String(Date.parse(r.creationTimestamp) || 0), labels, etag: fingerprint(stored),
+    };
+    case 'PUBSUB_TOPIC': return {
+      name: `projects/${project}/topics/${r.name}`, labels, messageRetentionDuration: r.pubsubDetails?.messageRetention,
+    };
+    case 'PUBSUB_SUBSCRIPTION': return {
+      name: `projects/${project}/subscriptions/${r.name}`, labels, state: r.status,
+      topic: r.pubsubDetails?.topic === '_deleted-topic_' ? '_deleted-topic_' : `projects/${project}/topics/${r.pubsubDetails?.topic}`,
+      ackDeadlineSeconds: r.pubsubDetails?.ackDeadlineSeconds, messageRetentionDuration: r.pubsubDetails?.messageRetention, pushConfig: {},
+    };
+    default: return { ...base, labels };
+  }
+};
+
+// SQL, Storage and BigQuery merge label patches; a null value deletes the key
+const mergeLabels = (current: Record<string, string>, patch: Record<string, string | null>) => {
+  const next = { ...current };
+  Object.entries(patch || {}).forEach(([key, value]) => {
+    if (value === null) delete next[key];
+    else next[key] = value;
+  });
+  return next;
+};
+
+// Fault spec from the URL: STATUS[@URL_SUBSTRING][*TIMES], comma separated
+const parseFaultSpec = (spec: string): EmulatorFault[] =>
+  spec.split(',').map(s => s.trim()).filter(Boolean).map(entry => {
+    const [head, times] = entry.split('*');
+    const [status, match] = head.split('@');
+    return { status: Number(status), match: match || undefined, times: times ? Number(times) : undefined };
+  }).filter(f => Number.isFinite(f.status));
+
+/**
+ * Installs the emulator over `window.fetch`. Requests to hosts it does not emulate
+ * (Gemini, OAuth token endpoints) pass through to the real fetch untouched.
+ */
+export const installGcpEmulator = (options: EmulatorOptions = {}): GcpEmulator => {
+  const seed = options.seed ?? 42;
+  const latencyMs = options.latencyMs ?? 40;
+  const pageSize = options.pageSize ?? 5;
+  const urlFaults = new URLSearchParams(window.location.search).get('faults');
+
+  let random = createRng(seed);
+  let faults: EmulatorFault[] = [...(options.faults || []), ...(urlFaults ? parseFaultSpec(urlFaults) : [])];
+  let projects = new Map<string, ProjectState>();
+  let objects = new Map<string, StoredObject>();
+  let operationCount = 0;
+  let auditCount = 0;
+  const requests: EmulatedRequest[] = [];
+
+  // Every project ID gets its own copy of the mock estate, with stable IDs so runs compare
+  const projectState = (project: string): ProjectState => {
+    let state = projects.get(project);
+    if (!state) {
+      const seeded = generateMockResources(50, createRng(seed), SEED_EPOCH).map((resource, i) => ({
+        resource: {
+          ...resource,
+          id: String(1000 + i),
+          labelFingerprint: '',
+          history: [],
+          projectId: undefined,
+        },
+        version: 1,
+      }));
+      state = { resources: seeded, auditLog: [] };
+      projects.set(project, state);
+    }
+    return state;
+  };
+
+  const findResource = (project: string, type: ResourceType, name: string) =>
+    projectState(project).resources.find(s => s.resource.type === type && s.resource.name === name);
+
+  const findBucket = (name: string) => {
+    for (const [project, state] of projects) {
+      const stored = state.resources.find(s => s.resource.type === 'BUCKET' && s.resource.name === name);
+      if (stored) return { project, stored };
+    }
+    return null;
+  };
+
+  const recordAudit = (project: string, stored: StoredResource, methodName: string, request: any) => {
+    const type = stored.resource.type;
+    projectState(project).auditLog.push({
+      insertId: `emu-${++auditCount}`,
+      timestamp: new Date().toISOString(),
+      severity: 'NOTICE',
+      protoPayload: {
+        serviceName: AUDIT_SERVICES[type] || 'compute.googleapis.com',
+        methodName,
+        resourceName: resourcePath(project, stored.resource),
+        authenticationInfo: { principalEmail: PRINCIPAL },
+        requestMetadata: { callerIp: '127.0.0.1', callerSuppliedUserAgent: 'yalla-emulator' },
+        request,
+      },
+    });
+  };
+
+  const applyLabels = (project: string, stored: StoredResource, labels: Record<string, string>, methodName: string) => {
+    stored.resource = { ...stored.resource, labels };
+    stored.version++;
+    recordAudit(project, stored, methodName, { labels });
+  };
+
+  const operation = () => ({ name: `operation-emu-${++operationCount}`, status: 'DONE', done: true });
+
+  const page = (req: EmulatorRequest, items: any[]) => {
+    const offset = Number(req.url.searchParams.get('pageToken') || 0);
+    const slice = items.slice(offset, offset + pageSize);
+    const next = offset + pageSize < items.length ? String(offset + pageSize) : undefined;
+    return { slice, nextPageToken: next };
+  };
+
+  const listOf = (project: string, type: ResourceType) =>
+    projectState(project).resources.filter(s => s.resource.type === type);
+
+  const pagedList = (key: string, type: ResourceType): Handler => (req) => {
+    const { slice, nextPageToken } = page(req, listOf(req.project, type));
+    return json({ [key]: slice.map(s => toApi(req.project, s)), nextPageToken });
+  };
+
+  const aggregatedList = (key: string, type: ResourceType): Handler => (req) => {
+    const { slice, nextPageToken } = page(req, listOf(req.project, type));
+    const items: Record<string, any> = {};
+    slice.forEach(s => {
+      const zone = s.resource.zone;
+      const scope = zone === 'global' ? 'global' : isZonal(zone) ? `zones/${zone}` : `regions/${zone}`;
+      items[scope] = items[scope] || { [key]: [] };
+      items[scope][key].push(toApi(req.project, s));
+    });
+    return json({ items, nextPageToken });
+  };
+
+  const getOne = (type: ResourceType, nameGroup = 1): Handler => (req, match) => {
+    const stored = findResource(req.project, type, decodeURIComponent(match[nameGroup]));
+    return stored ? json(toApi(req.project, stored)) : errorResponse(404, `The resource '${match[nameGroup]}' was not found`, req.url.hostname);
+  };
+
+  // Compute-style setLabels: whole-map replace guarded by labelFingerprint
+  const setLabels = (type: ResourceType, nameGroup = 1): Handler => (req, match) => {
+    const stored = findResource(req.project, type, decodeURIComponent(match[nameGroup]));
+    if (!stored) return errorResponse(404, `The resource '${match[nameGroup]}' was not found`, req.url.hostname);
+    if (req.body?.labelFingerprint !== fingerprint(stored)) {
+      return errorResponse(412, 'Labels fingerprint either invalid or resource labels have changed', req.url.hostname, 'conditionNotMet');
+    }
+    applyLabels(req.project, stored, req.body.labels || {}, `v1.compute.${type === 'INSTANCE' ? 'instances' : type.toLowerCase()}.setLabels`);
+    return json(operation());
+  };
+
+  const P = '/projects/([^/]+)';
+  const routes: { host: string; method: string; path: RegExp; handler: Handler }[] = [
+    // Compute Engine
+    { host: 'compute', method: 'GET', path: new RegExp(`^/compute/v1${P}/aggregated/instances$`), handler: aggregatedList('instances', 'INSTANCE') },
+    { host: 'compute', method: 'GET', path: new RegExp(`^/compute/v1${P}/aggregated/disks$`), handler: aggregatedList('disks', 'DISK') },
+    { host: 'compute', method: 'GET', path: new RegExp(`^/compute/v1${P}/aggregated/forwardingRules$`), handler: aggregatedList('forwardingRules', 'FORWARDING_RULE') },
+    { host: 'compute', method: 'GET', path: new RegExp(`^/compute/v1${P}/aggregated/addresses$`), handler: aggregatedList('addresses', 'ADDRESS') },
+    { host: 'compute', method: 'GET', path: new RegExp(`^/compute/v1${P}/global/snapshots$`), handler: pagedList('items', 'SNAPSHOT') },
+    { host: 'compute', method: 'GET', path: new RegExp(`^/compute/v1${P}/global/images$`), handler: pagedList('items', 'IMAGE') },
+    { host: 'compute', method: 'GET', path: new RegExp(`^/compute/v1${P}/global/networks$`), handler: pagedList('items', 'VPC_NETWORK') },
+    { host: 'compute', method: 'GET', path: new RegExp(`^/compute/v1${P}/global/firewalls$`), handler: pagedList('items', 'FIREWALL_RULE') },
+    { host: 'compute', method: 'GET', path: new RegExp(`^/compute/v1${P}/zones/[^/]+/instances/([^/]+)$`), handler: getOne('INSTANCE', 2) },
+    { host: 'compute', method: 'POST', path: new RegExp(`^/compute/v1${P}/zones/[^/]+/instances/([^/]+)/setLabels$`), handler: setLabels('INSTANCE', 2) },
+    { host: 'compute', method: 'GET', path: new RegExp(`^/compute/v1${P}/(?:zones|regions)/[^/]+/disks/([^/]+)$`), handler: getOne('DISK', 2) },
+    { host: 'compute', method: 'POST', path: new RegExp(`^/compute/v1${P}/(?:zones|regions)/[^/]+/disks/([^/]+)/setLabels$`), handler: setLabels('DISK', 2) },
+    { host: 'compute', method: 'GET', path: new RegExp(`^/compute/v1${P}/global/snapshots/([^/]+)$`), handler: getOne('SNAPSHOT', 2) },
+    { host: 'compute', method: 'POST', path: new RegExp(`^/compute/v1${P}/global/snapshots/([^/]+)/setLabels$`), handler: setLabels('SNAPSHOT', 2) },
+    { host: 'compute', method: 'GET', path: new RegExp(`^/compute/v1${P}/global/images/([^/]+)$`), handler: getOne('IMAGE', 2) },
+    { host: 'compute', method: 'POST', path: new RegExp(`^/compute/v1${P}/global/images/([^/]+)/setLabels$`), handler: setLabels('IMAGE', 2) },
+    { host: 'compute', method: 'GET', path: new RegExp(`^/compute/v1${P}/global/networks/([^/]+)$`), handler: getOne('VPC_NETWORK', 2) },
+    { host: 'compute', method: 'GET', path: new RegExp(`^/compute/v1${P}/global/firewalls/([^/]+)$`), handler: getOne('FIREWALL_RULE', 2) },
+    { host: 'compute', method: 'GET', path: new RegExp(`^/compute/v1${P}/(?:global|regions/[^/]+)/forwardingRules/([^/]+)$`), handler: getOne('FORWARDING_RULE', 2) },
+    { host: 'compute', method: 'POST', path: new RegExp(`^/compute/v1${P}/(?:global|regions/[^/]+)/forwardingRules/([^/]+)/setLabels$`), handler: setLabels('FORWARDING_RULE', 2) },
+    { host: 'compute', method: 'GET', path: new RegExp(`^/compute/v1${P}/(?:global|regions/[^/]+)/addresses/([^/]+)$`), handler: getOne('ADDRESS', 2) },
+    { host: 'compute', method: 'POST', path: new RegExp(`^/compute/v1${P}/(?:global|regions/[^/]+)/addresses/([^/]+)/setLabels$`), handler: setLabels('ADDRESS', 2) },
+
+    // Cloud Run (v2): etag mismatch surfaces as 409 ABORTED, like the real API
+    { host: 'run', method: 'GET', path: new RegExp(`^/v2${P}/locations/-/services$`), handler: pagedList('services', 'CLOUD_RUN') },
+    { host: 'run', method: 'GET', path: new RegExp(`^/v2${P}/locations/[^/]+/services/([^/]+)$`), handler: getOne('CLOUD_RUN', 2) },
+    { host: 'run', method: 'PATCH', path: new RegExp(`^/v2${P}/locations/[^/]+/services/([^/]+)$`), handler: (req, match) => {
+      const stored = findResource(req.project, 'CLOUD_RUN', match[2]);
+      if (!stored) return errorResponse(404, `Service ${match[2]} not found`, req.url.hostname);
+      if (req.body?.etag && req.body.etag !== `"${fingerprint(stored)}"`) return errorResponse(409, 'Etag mismatch', req.url.hostname, 'ABORTED');
+      applyLabels(req.project, stored, req.body?.labels || {}, 'google.cloud.run.v2.Services.UpdateService');
+      return json(operation());
+    } },
+
+    // Cloud SQL Admin
+    { host: 'sqladmin', method: 'GET', path: new RegExp(`^/sql/v1beta4${P}/instances$`), handler: pagedList('items', 'CLOUD_SQL') },
+    { host: 'sqladmin', method: 'GET', path: new RegExp(`^/sql/v1beta4${P}/instances/([^/]+)$`), handler: getOne('CLOUD_SQL', 2) },
+    { host: 'sqladmin', method: 'PATCH', path: new RegExp(`^/sql/v1beta4${P}/instances/([^/]+)$`), handler: (req, match) => {
+      const stored = findResource(req.project, 'CLOUD_SQL', match[2]);
+      if (!stored) return errorResponse(404, `Instance ${match[2]} not found`, req.url.hostname);
+      const settingsVersion = req.body?.settings?.settingsVersion;
+      if (settingsVersion && settingsVersion !== String(stored.version)) return errorResponse(412, 'Precondition check failed', req.url.hostname, 'conditionNotMet');
+      applyLabels(req.project, stored, mergeLabels(stored.resource.labels, req.body?.settings?.userLabels), 'cloudsql.instances.update');
+      return json({ kind: 'sql#operation', ...operation() });
+    } },
+
+    // Cloud Storage: buckets, bucket IAM and the governance objects persistence syncs
+    { host: 'storage', method: 'GET', path: /^\/storage\/v1\/b$/, handler: (req) => {
+      const { slice, nextPageToken } = page(req, listOf(req.url.searchParams.get('project') || req.project, 'BUCKET'));
+      return json({ items: slice.map(s => toApi(req.project, s)), nextPageToken });
+    } },
+    { host: 'storage', method: 'POST', path: /^\/storage\/v1\/b$/, handler: (req) => {
+      const project = req.url.searchParams.get('project') || req.project;
+      if (findBucket(req.body?.name)) return errorResponse(409, 'The requested bucket name is not available', req.url.hostname, 'conflict');
+      const stored: StoredResource = {
+        resource: {
+          id: req.body.name, name: req.body.name, type: 'BUCKET', zone: String(req.body.location || 'us').toLowerCase(), status: 'READY',
+          storageClass: req.body.storageClass, creationTimestamp: new Date().toISOString(), provisioningModel: 'STANDARD',
+          labels: req.body.labels || {}, labelFingerprint: '', history: [],
+        },
+        version: 1,
+      };
+      projectState(project).resources.push(stored);
+      return json(toApi(project, stored));
+    } },
+    { host: 'storage', method: 'GET', path: /^\/storage\/v1\/b\/([^/]+)\/iam$/, handler: (req, match) => {
+      const found = findBucket(match[1]);
+      if (!found) return errorResponse(404, 'The specified bucket does not exist.', req.url.hostname);
+      const members = found.stored.resource.publicAccess ? ['allUsers'] : [`user:${PRINCIPAL}`];
+      return json({ bindings: [{ role: 'roles/storage.objectViewer', members }] });
+    } },
+    { host: 'storage', method: 'GET', path: /^\/storage\/v1\/b\/([^/]+)$/, handler: (req, match) => {
+      const found = findBucket(match[1]);
+      return found ? json(toApi(found.project, found.stored)) : errorResponse(404, 'The specified bucket does not exist.', req.url.hostname);
+    } },
+    { host: 'storage', method: 'PATCH', path: /^\/storage\/v1\/b\/([^/]+)$/, handler: (req, match) => {
+      const found = findBucket(match[1]);
+      if (!found) return errorResponse(404, 'The specified bucket does not exist.', req.url.hostname);
+      const expected = req.url.searchParams.get('ifMetagenerationMatch');
+      if (expected && expected !== String(found.stored.version)) return errorResponse(412, 'Precondition Failed', req.url.hostname, 'conditionNotMet');
+      applyLabels(found.project, found.stored, mergeLabels(found.stored.resource.labels, req.body?.labels), 'storage.buckets.update');
+      return json(toApi(found.project, found.stored));
+    } },
+    { host: 'storage', method: 'GET', path: /^\/storage\/v1\/b\/([^/]+)\/o\/(.+)$/, handler: (req, match) => {
+      const object = objects.get(`${match[1]}/${decodeURIComponent(match[2])}`);
+      if (!object) return errorResponse(404, 'No such object', req.url.hostname);
+      return new Response(object.data, { status: 200, headers: { 'x-goog-generation': String(object.generation) } });
+    } },
+    { host: 'storage', method: 'POST', path: /^\/upload\/storage\/v1\/b\/([^/]+)\/o$/, handler: (req, match) => {
+      if (!findBucket(match[1])) return errorResponse(404, 'The specified bucket does not exist.', req.url.hostname);
+      const key = `${match[1]}/${req.url.searchParams.get('name')}`;
+      const current = objects.get(key);
+      const expected = req.url.searchParams.get('ifGenerationMatch');
+      // ifGenerationMatch=0 means "only if the object does not exist yet"
+      if (expected !== null && expected !== String(current?.generation ?? 0)) {
+        return errorResponse(412, 'At least one of the pre-conditions you specified did not hold.', req.url.hostname, 'conditionNotMet');
+      }
+      const generation = (current?.generation ?? 0) + 1;
+      objects.set(key, { data: req.body instanceof Blob ? req.body : new Blob([req.body ?? '']), generation });
+      return json({ name: req.url.searchParams.get('name'), bucket: match[1], generation: String(generation) });
+    } },
+
+    // GKE: label writes and node-pool updates complete immediately as DONE operations
+    { host: 'container', method: 'GET', path: new RegExp(`^/v1${P}/locations/-/clusters$`), handler: (req) =>
+      json({ clusters: listOf(req.project, 'GKE_CLUSTER').map(s => toApi(req.project, s)) }) },
+    { host: 'container', method: 'GET', path: new RegExp(`^/v1${P}/locations/[^/]+/clusters/([^/:]+)$`), handler: getOne('GKE_CLUSTER', 2) },
+    { host: 'container', method: 'POST', path: new RegExp(`^/v1${P}/locations/[^/]+/clusters/([^/:]+):setResourceLabels$`), handler: (req, match) => {
+      const stored = findResource(req.project, 'GKE_CLUSTER', match[2]);
+      if (!stored) return errorResponse(404, `Cluster ${match[2]} not found`, req.url.hostname);
+      if (req.body?.labelFingerprint !== fingerprint(stored)) return errorResponse(412, 'Labels could not be set due to fingerprint mismatch', req.url.hostname, 'conditionNotMet');
+      applyLabels(req.project, stored, req.body.resourceLabels || {}, 'google.container.v1.ClusterManager.SetLabels');
+      return json(operation());
+    } },
+    { host: 'container', method: 'PUT', path: new RegExp(`^/v1${P}/locations/[^/]+/clusters/([^/]+)/nodePools/([^/]+)$`), handler: (req, match) => {
+      const stored = findResource(req.project, 'GKE_CLUSTER', match[2]);
+      const pools = stored?.resource.clusterDetails?.nodePools;
+      const pool = pools?.find(p => p.name === match[3]);
+      if (!stored || !pool) return errorResponse(404, `Node pool ${match[3]} not found`, req.url.hostname);
+      pool.resourceLabels = req.body?.resourceLabels?.labels || {};
+      return json(operation());
+    } },
+    { host: 'container', method: 'GET', path: new RegExp(`^/v1${P}/locations/[^/]+/operations/([^/]+)$`), handler: (_req, match) =>
+      json({ name: match[2], status: 'DONE' }) },
+
+    // BigQuery: If-Match carries the dataset etag
+    { host: 'bigquery', method: 'GET', path: new RegExp(`^/bigquery/v2${P}/datasets$`), handler: (req) => {
+      const { slice, nextPageToken } = page(req, listOf(req.project, 'BIGQUERY_DATASET'));
+      const datasets = slice.map(s => {
+        const { etag: _etag, creationTime: _creationTime, ...listView } = toApi(req.project, s);
+        return listView;
+      });
+      return json({ datasets, nextPageToken });
+    } },
+    { host: 'bigquery', method: 'GET', path: new RegExp(`^/bigquery/v2${P}/datasets/([^/]+)$`), handler: getOne('BIGQUERY_DATASET', 2) },
+    { host: 'bigquery', method: 'PATCH', path: new RegExp(`^/bigquery/v2${P}/datasets/([^/]+)$`), handler: (req, match) => {
+      const stored = findResource(req.project, 'BIGQUERY_DATASET', match[2]);
+      if (!stored) return errorResponse(404, `Not found: Dataset ${req.project}:${match[2]}`, req.url.hostname);
+      const ifMatch = req.headers.get('If-Match');
+      if (ifMatch && ifMatch !== fingerprint(stored)) return errorResponse(412, 'Precondition check failed.', req.url.hostname, 'conditionNotMet');
+      applyLabels(req.project, stored, mergeLabels(stored.resource.labels, req.body?.labels), 'datasetservice.update');
+      return json(toApi(req.project, stored));
+    } },
+
+    // Pub/Sub: no etags; label maps are replaced wholesale
+    { host: 'pubsub', method: 'GET', path: new RegExp(`^/v1${P}/topics$`), handler: pagedList('topics', 'PUBSUB_TOPIC') },
+    { host: 'pubsub', method: 'GET', path: new RegExp(`^/v1${P}/subscriptions$`), handler: pagedList('subscriptions', 'PUBSUB_SUBSCRIPTION') },
+    { host: 'pubsub', method: 'GET', path: new RegExp(`^/v1${P}/topics/([^/]+)$`), handler: getOne('PUBSUB_TOPIC', 2) },
+    { host: 'pubsub', method: 'GET', path: new RegExp(`^/v1${P}/subscriptions/([^/]+)$`), handler: getOne('PUBSUB_SUBSCRIPTION', 2) },
+    { host: 'pubsub', method: 'PATCH', path: new RegExp(`^/v1${P}/(topics|subscriptions)/([^/]+)$`), handler: (req, match) => {
+      const isTopic = match[2] === 'topics';
+      const stored = findResource(req.project, isTopic ? 'PUBSUB_TOPIC' : 'PUBSUB_SUBSCRIPTION', match[3]);
+      if (!stored) return errorResponse(404, `Resource not found (resource=${match[3]}).`, req.url.hostname);
+      const labels = req.body?.[isTopic ? 'topic' : 'subscription']?.labels || {};
+      applyLabels(req.project, stored, labels, isTopic ? 'google.pubsub.v1.Publisher.UpdateTopic' : 'google.pubsub.v1.Subscriber.UpdateSubscription');
+      return json(toApi(req.project, stored));
+    } },
+
+    // Cloud Logging: admin-activity entries produced by the writes above
+    { host: 'logging', method: 'POST', path: /^\/v2\/entries:list$/, handler: (req) => {
+      const project = String(req.body?.resourceNames?.[0] || '').replace('projects/', '');
+      const since = String(req.body?.filter || '').match(/timestamp>"([^"]+)"/)?.[1];
+      const ascending = req.body?.orderBy === 'timestamp asc';
+      const entries = projectState(project).auditLog
+        .filter(e => !since || e.timestamp > since)
+        .sort((a, b) => ascending ? a.timestamp.localeCompare(b.timestamp) : b.timestamp.localeCompare(a.timestamp));
+      const offset = Number(req.body?.pageToken || 0);
+      const size = Number(req.body?.pageSize) || 50;
+      return json({
+        entries: entries.slice(offset, offset + size),
+        nextPageToken: offset + size < entries.length ? String(offset + size) : undefined,
+      });
+    } },
+
+    // Resource Manager: a lone project with every permission granted
+    { host: 'cloudresourcemanager', method: 'POST', path: /^\/v3\/(?:projects|folders|organizations)\/([^/:]+):testIamPermissions$/, handler: (req) =>
+      json({ permissions: req.body?.permissions || [] }) },
+    { host: 'cloudresourcemanager', method: 'GET', path: /^\/v3\/projects\/([^/]+)$/, handler: (_req, match) =>
+      json({ name: `projects/${match[1]}`, projectId: match[1], state: 'ACTIVE' }) },
+    { host: 'cloudresourcemanager', method: 'GET', path: /^\/v3\/projects$/, handler: () =>
+      json({ projects: Array.from(projects.keys()).map(projectId => ({ projectId, state: 'ACTIVE' })) }) },
+    { host: 'cloudresourcemanager', method: 'GET', path: /^\/v3\/folders$/, handler: () => json({ folders: [] }) },
+  ];
+
+  const takeFault = (method: string, url: string): EmulatorFault | undefined => {
+    const fault = faults.find(f =>
+      (!f.method || f.method.toUpperCase() === method) &&
+      (!f.match || url.includes(f.match)) &&
+      (f.probability === undefined || random() < f.probability)
+    );
+    if (fault?.times !== undefined && --fault.times <= 0) faults = faults.filter(f => f !== fault);
+    return fault;
+  };
+
+  const faultResponse = (fault: EmulatorFault, host: string) => {
+    const headers: Record<string, string> = fault.retryAfterSeconds ? { 'Retry-After': String(fault.retryAfterSeconds) } : {};
+    const message = fault.reason === 'SERVICE_DISABLED'
+      ? `${host} has not been used in project before or it is disabled.`
+      : `Injected fault (${fault.status})`;
+    return errorResponse(fault.status, message, host, fault.reason, headers);
+  };
+
+  const readBody = (body: BodyInit | null | undefined) => {
+    if (typeof body !== 'string') return body;
+    try {
+      return JSON.parse(body);
+    } catch {
+      return body;
+    }
+  };
+
+  const originalFetch = window.fetch.bind(window);
+
+  const emulatedFetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const href = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const url = new URL(href, window.location.href);
+    if (!EMULATED_HOSTS.includes(url.hostname)) return originalFetch(input, init);
+
+    const method = (init.method || 'GET').toUpperCase();
+    const headers = new Headers(init.headers);
+    const log = (status: number, fault = false) => {
+      requests.push({ method, url: href.split('?')[0], status, fault });
+      if (requests.length > MAX_LOGGED_REQUESTS) requests.shift();
+    };
+
+    await delay(latencyMs, init.signal);
+
+    const respond = async (): Promise<{ response: Response; fault: boolean }> => {
+      if (!headers.get('Authorization')) return { response: errorResponse(401, 'Request is missing required authentication credential.', url.hostname), fault: false };
+
+      const fault = takeFault(method, href);
+      if (fault) return { response: faultResponse(fault, url.hostname), fault: true };
+
+      // Cloud Asset Inventory is not emulated; answering "disabled" exercises the per-service fallback
+      if (url.hostname === 'cloudasset.googleapis.com') {
+        return { response: errorResponse(403, 'Cloud Asset API has not been used in project before or it is disabled.', url.hostname, 'SERVICE_DISABLED'), fault: false };
+      }
+
+      const host = url.hostname.replace('.googleapis.com', '');
+      for (const route of routes) {
+        if (route.host !== host || route.method !== method) continue;
+        const match = url.pathname.match(route.path);
+        if (!match) continue;
+        const project = route.path.source.includes('/projects/') ? decodeURIComponent(match[1]) : '';
+        const response = await route.handler({ method, url, headers, body: readBody(init.body), project }, match);
+        return { response, fault: false };
+      }
+      return { response: errorResponse(404, `Emulator has no route for ${method} ${url.pathname}`, url.hostname), fault: false };
+    };
+
+    const { response, fault } = await respond();
+    log(response.status, fault);
+    return withUrl(response, href);
+  };
+
+  window.fetch = emulatedFetch as typeof window.fetch;
+
+  const emulator: GcpEmulator = {
+    injectFault: (fault) => { faults = [...faults, { ...fault }]; },
+    clearFaults: () => { faults = []; },
+    mutateLabels: (projectId, name, labels) => {
+      const stored = projectState(projectId).resources.find(s => s.resource.name === name);
+      if (!stored) return false;
+      applyLabels(projectId, stored, labels, 'emulator.outOfBandChange');
+      return true;
+    },
+    reset: () => {
+      random = createRng(seed);
+      faults = [];
+      projects = new Map();
+      objects = new Map();
+      requests.length = 0;
+    },
+    requests,
+    uninstall: () => {
+      if (window.fetch === emulatedFetch) window.fetch = originalFetch;
+      delete (window as any).__gcpEmulator;
+    },
+  };
+
+  (window as any).__gcpEmulator = emulator;
+  console.info(`GCP emulator active (seed ${seed}). Connect with any project ID and token; control it via window.__gcpEmulator.`);
+  return emulator;
+};
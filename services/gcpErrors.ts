@@ -0,0 +1,170 @@
+import { GcpErrorKind } from '../types';
+
+// Reasons several APIs (Compute, Storage, BigQuery) use to report per-minute quota as a 403
+export const RATE_LIMIT_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded', 'RATE_LIMIT_EXCEEDED'];
+const QUOTA_REASONS = [...RATE_LIMIT_REASONS, 'quotaExceeded', 'dailyLimitExceeded', 'RESOURCE_EXHAUSTED'];
+const SERVICE_DISABLED_REASONS = ['SERVICE_DISABLED', 'accessNotConfigured'];
+
+interface GcpErrorDetails {
+  status: number;
+  reason?: string;
+  resource?: string;
+  remediation?: string;
+}
+
+/**
+ * A failed GCP API call. `reason` is the API's machine-readable reason (e.g. `SERVICE_DISABLED`,
+ * `insufficientPermissions`); `remediation` is a hint the user can act on.
+ */
+export class GcpError extends Error {
+  readonly kind: GcpErrorKind = 'UNKNOWN';
+  readonly status: number;
+  readonly reason?: string;
+  readonly resource?: string;
+  readonly remediation?: string;
+
+  constructor(message: string, details: GcpErrorDetails) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.reason = details.reason;
+    this.resource = details.resource;
+    this.remediation = details.remediation;
+  }
+}
+
+export class GcpAuthError extends GcpError { readonly kind = 'AUTH'; }
+export class GcpPermissionError extends GcpError { readonly kind = 'PERMISSION'; }
+export class GcpNotFoundError extends GcpError { readonly kind = 'NOT_FOUND'; }
+export class GcpPreconditionError extends GcpError { readonly kind = 'PRECONDITION'; }
+export class GcpQuotaError extends GcpError { readonly kind = 'QUOTA'; }
+export class GcpInvalidLabelError extends GcpError { readonly kind = 'INVALID_LABEL'; }
+export class GcpServiceDisabledError extends GcpError { readonly kind = 'SERVICE_DISABLED'; }
+
+export const isAuthError = (error: unknown): error is GcpAuthError => error instanceof GcpAuthError;
+
+const serviceOf = (url: string) => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+};
+
+// Legacy v1 APIs put reasons in `errors[]`; newer ones use google.rpc.ErrorInfo in `details[]`
+const readErrorBody = async (response: Response) => {
+  try {
+    const { error } = await response.clone().json();
+    const errorInfo = (error?.details || []).find((d: any) => String(d['@type']).endsWith('ErrorInfo'));
+    return {
+      message: error?.message as string | undefined,
+      reasons: [errorInfo?.reason, ...(error?.errors || []).map((e: any) => e.reason), ...(error?.details || []).map((d: any) => d.reason)].filter(Boolean) as string[],
+      service: errorInfo?.metadata?.service as string | undefined,
+      permission: errorInfo?.metadata?.permission as string | undefined,
+      status: error?.status as string | undefined,
+    };
+  } catch {
+    return { reasons: [] as string[] };
+  }
+};
+
+const LABEL_RULES_HINT = 'Label keys must start with a lowercase letter; keys and values allow only lowercase letters, digits, "_" and "-", up to 63 characters.';
+
+/**
+ * Classifies a non-OK response into the matching GcpError subclass. `resource` names what the
+ * call was about; it defaults to the request URL without its query string.
+ */
+export const toGcpError = async (response: Response, resource?: string): Promise<GcpError> => {
+  const body = await readErrorBody(response);
+  const status = response.status;
+  const service = body.service || serviceOf(response.url);
+  const reason = body.reasons[0] || body.status;
+  const apiMessage = body.message || `${status} ${response.statusText}`.trim();
+  const details = { status, reason, resource: resource || response.url.split('?')[0] || undefined };
+  const hasReason = (candidates: string[]) => body.reasons.some(r => candidates.includes(r)) || candidates.includes(body.status || '');
+
+  if (status === 401) {
+    return new GcpAuthError('Session Expired', { ...details, remediation: 'Sign in again or paste a fresh access token.' });
+  }
+  if (hasReason(SERVICE_DISABLED_REASONS) || /has not been used in project|is disabled/i.test(apiMessage)) {
+    return new GcpServiceDisabledError(`API Disabled: ${apiMessage}`, {
+      ...details,
+      remediation: service ? `Enable ${service} (gcloud services enable ${service}).` : 'Enable the API for this project.',
+    });
+  }
+  if (status === 429 || hasReason(QUOTA_REASONS)) {
+    return new GcpQuotaError(status === 429 || hasReason(RATE_LIMIT_REASONS) ? 'Rate Limit Exceeded' : `Quota Exceeded: ${apiMessage}`, {
+      ...details,
+      remediation: `Retry later or request a higher quota for ${service || 'this API'}.`,
+    });
+  }
+  if (status === 403) {
+    const permission = body.permission || apiMessage.match(/'([a-z]+\.[a-zA-Z]+\.[a-zA-Z]+)'/)?.[1];
+    return new GcpPermissionError(`Access Denied: ${apiMessage}`, {
+      ...details,
+      remediation: permission
+        ? `Grant ${permission} (add it to the YallaLabelManager role).`
+        : 'Grant the missing permission to your account (see the YallaLabelManager role).',
+    });
+  }
+  if (status === 404) {
+    return new GcpNotFoundError(`Not Found: ${apiMessage}`, { ...details, remediation: 'The resource was deleted or moved. Refresh the inventory.' });
+  }
+  if (status === 409 || status === 412) {
+    return new GcpPreconditionError('Conflict: Resource modified by another process (Optimistic Lock)', {
+      ...details,
+      remediation: 'Refresh the resource and apply the change again.',
+    });
+  }
+  // GKE (and other gRPC-style APIs) report a stale labelFingerprint as 400 FAILED_PRECONDITION
+  if (status === 400 && hasReason(['FAILED_PRECONDITION'])) {
+    return new GcpPreconditionError(`Precondition Failed: ${apiMessage}`, {
+      ...details,
+      remediation: 'Refresh the resource and apply the change again.',
+    });
+  }
+  if (status === 400 && /label/i.test(apiMessage)) {
+    return new GcpInvalidLabelError(`Invalid Label: ${apiMessage}`, { ...details, remediation: LABEL_RULES_HINT });
+  }
+  return new GcpError(`${apiMessage} ${body.reasons[0] || ''}`.trim(), details);
+};
+
+// Message plus remediation, for notifications that show a single failure
+export const describeError = (error: unknown): string => {
+  if (error instanceof GcpError && error.remediation) return `${error.message}. ${error.remediation}`;
+  return error instanceof Error ? error.message : String(error);
+};
+
+const KIND_LABELS: Record<GcpErrorKind, string> = {
+  AUTH: 'authentication',
+  PERMISSION: 'permission denied',
+  NOT_FOUND: 'not found',
+  PRECONDITION: 'conflict',
+  QUOTA: 'quota exceeded',
+  INVALID_LABEL: 'invalid label',
+  SERVICE_DISABLED: 'API disabled',
+  UNKNOWN: 'other',
+};
+
+// Anything with a kind groups: GcpError instances, or plain records such as scan progress
+type ErrorLike = { kind?: GcpErrorKind; remediation?: string };
+
+/**
+ * One-line summary of many failures grouped by class, most frequent first, followed by the
+ * distinct remediation hints, e.g. "3 permission denied, 1 API disabled. Enable sqladmin.googleapis.com ...".
+ */
+export const summarizeErrors = (errors: unknown[]): string => {
+  const groups = new Map<GcpErrorKind, { count: number; remediations: Set<string> }>();
+  errors.forEach(error => {
+    const { kind = 'UNKNOWN', remediation } = (error && typeof error === 'object' ? error : {}) as ErrorLike;
+    const group = groups.get(kind) || { count: 0, remediations: new Set<string>() };
+    group.count++;
+    if (remediation) group.remediations.add(remediation);
+    groups.set(kind, group);
+  });
+
+  const sorted = Array.from(groups.entries()).sort((a, b) => b[1].count - a[1].count);
+  const counts = sorted.map(([kind, g]) => `${g.count} ${KIND_LABELS[kind]}`).join(', ');
+  const hints = Array.from(new Set(sorted.flatMap(([, g]) => Array.from(g.remediations)))).slice(0, 3);
+  return hints.length > 0 ? `${counts}. ${hints.join(' ')}` : counts;
+};
@@ -1,5 +1,8 @@
 
-import { GceResource, ResourceType, ProvisioningModel, LogEntry } from '../types';
+import { recoverFromUnauthorized } from './authService';
+import { toGcpError, isAuthError, GcpError, GcpPreconditionError, RATE_LIMIT_REASONS } from './gcpErrors';
+import { redactSecrets, transportFetch } from './trafficRecorder';
+import { GceResource, ResourceType, ProvisioningModel, LogEntry, ResourceIP, ScanScope, ResourceChange, ScanSourceProgress, ServiceRateStatus } from '../types';
 
 const BASE_URL = 'https://compute.googleapis.com/compute/v1/projects';
 const RUN_BASE_URL = 'https://run.googleapis.com/v2/projects';
@@ -7,13 +10,15 @@ const SQL_ADMIN_URL = 'https://sqladmin.googleapis.com/sql/v1beta4/projects';
 const STORAGE_BASE_URL = 'https://storage.googleapis.com/storage/v1/b';
 const CONTAINER_BASE_URL = 'https://container.googleapis.com/v1/projects';
 const LOGGING_URL = 'https://logging.googleapis.com/v2/entries:list';
+const RESOURCE_MANAGER_URL = 'https://cloudresourcemanager.googleapis.com/v3';
+const CLOUD_ASSET_URL = 'https://cloudasset.googleapis.com/v1';
+const BIGQUERY_URL = 'https://bigquery.googleapis.com/bigquery/v2/projects';
+const PUBSUB_URL = 'https://pubsub.googleapis.com/v1/projects';
 
 // --- Resilience Utilities ---
 
 // Security: Redact sensitive data from logs
 const safeLog = (message: string, error: any) => {
-  const sanitize = (str: string) => str.replace(/Bearer\s+[a-zA-Z0-9\-\._~\+\/]+=*/gi, 'Bearer [REDACTED]');
-  
   let errorMsg = '';
   if (error instanceof Error) {
     errorMsg = error.message;
@@ -27,22 +32,65 @@ const safeLog = (message: string, error: any) => {
     errorMsg = String(error);
   }
 
-  console.warn(sanitize(`${message}: ${errorMsg}`));
+  console.warn(redactSecrets(`${message}: ${errorMsg}`));
 };
 
-// Simple concurrency limiter to prevent 429 Quota Exceeded
-class RateLimiter {
+// Scans are cancelled through AbortSignal; every layer rethrows this instead of retrying or swallowing it
+const abortError = () => new DOMException('Scan cancelled', 'AbortError');
+
+export const isAbortError = (error: any) => error?.name === 'AbortError';
+
+const sleep = (ms: number, signal?: AbortSignal | null) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Adaptive concurrency limiter for one GCP API service (AIMD).
+ * A throttle response halves the concurrency window and pauses dispatch for the
+ * Retry-After period; each full window of successes widens it by one again.
+ */
+class AdaptiveRateController {
   private queue: (() => Promise<any>)[] = [];
   private active = 0;
-  private maxConcurrency: number;
+  private concurrency: number;
+  private successStreak = 0;
+  private throttleCount = 0;
+  private lastDecreaseAt = 0;
+  private cooldownUntil = 0;
+  private resumeTimer: ReturnType<typeof setTimeout> | null = null;
 
-  constructor(maxConcurrency = 12) { 
-    this.maxConcurrency = maxConcurrency;
+  constructor(
+    readonly service: string,
+    private maxConcurrency = 12,
+    private minConcurrency = 1,
+    private onChange: () => void = () => {}
+  ) {
+    this.concurrency = maxConcurrency;
   }
 
-  async add<T>(fn: () => Promise<T>): Promise<T> {
+  async add<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
     return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(abortError());
+
+      // Queued work is dropped on abort; in-flight work is cancelled by fetch itself
+      const onAbort = () => {
+        const index = this.queue.indexOf(task);
+        if (index === -1) return;
+        this.queue.splice(index, 1);
+        reject(abortError());
+      };
+
       const task = async () => {
+        signal?.removeEventListener('abort', onAbort);
         this.active++;
         try {
           const result = await fn();
@@ -51,89 +99,252 @@ class RateLimiter {
           reject(err);
         } finally {
           this.active--;
-          this.next();
+          this.drain();
         }
       };
 
-      if (this.active < this.maxConcurrency) {
-        task();
-      } else {
-        this.queue.push(task);
-      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(task);
+      this.drain();
     });
   }
 
-  private next() {
-    if (this.active < this.maxConcurrency && this.queue.length > 0) {
+  recordSuccess() {
+    if (this.concurrency >= this.maxConcurrency) return;
+    this.successStreak++;
+    if (this.successStreak >= this.concurrency) {
+      this.concurrency++;
+      this.successStreak = 0;
+      this.onChange();
+      this.drain();
+    }
+  }
+
+  recordThrottle(retryAfterMs?: number) {
+    const now = Date.now();
+    this.throttleCount++;
+    this.successStreak = 0;
+    this.cooldownUntil = Math.max(this.cooldownUntil, now + (retryAfterMs ?? THROTTLE_COOLDOWN_MS));
+    // Requests already in flight when the quota tripped report together; halve once per burst
+    if (now - this.lastDecreaseAt > THROTTLE_COOLDOWN_MS) {
+      this.concurrency = Math.max(this.minConcurrency, Math.floor(this.concurrency / 2));
+      this.lastDecreaseAt = now;
+    }
+    this.onChange();
+  }
+
+  getStatus(): ServiceRateStatus {
+    return {
+      service: this.service,
+      concurrency: this.concurrency,
+      maxConcurrency: this.maxConcurrency,
+      active: this.active,
+      queued: this.queue.length,
+      throttleCount: this.throttleCount,
+      cooldownUntil: this.cooldownUntil > Date.now() ? this.cooldownUntil : undefined,
+    };
+  }
+
+  private drain() {
+    const wait = this.cooldownUntil - Date.now();
+    if (wait > 0) {
+      if (!this.resumeTimer && this.queue.length > 0) {
+        this.resumeTimer = setTimeout(() => {
+          this.resumeTimer = null;
+          this.onChange();
+          this.drain();
+        }, wait);
+      }
+      return;
+    }
+    while (this.active < this.concurrency && this.queue.length > 0) {
       const task = this.queue.shift();
       task?.();
     }
   }
 }
 
-const apiLimiter = new RateLimiter(12);
+const THROTTLE_COOLDOWN_MS = 1000;
+const MAX_RETRY_AFTER_MS = 60000;
 
-const parseGcpError = async (response: Response): Promise<string> => {
+const rateControllers = new Map<string, AdaptiveRateController>();
+const rateListeners = new Set<(status: ServiceRateStatus[]) => void>();
+
+export const getRateStatus = (): ServiceRateStatus[] =>
+  Array.from(rateControllers.values()).map(c => c.getStatus());
+
+export const subscribeRateStatus = (listener: (status: ServiceRateStatus[]) => void) => {
+  rateListeners.add(listener);
+  return () => { rateListeners.delete(listener); };
+};
+
+// Quotas are enforced per API service, so each host (compute, storage, pubsub, ...) adapts on its own
+const getRateController = (url: string) => {
+  let service = 'default';
+  try { service = new URL(url).hostname.split('.')[0]; } catch { /* relative or malformed URL */ }
+
+  let controller = rateControllers.get(service);
+  if (!controller) {
+    controller = new AdaptiveRateController(service, 12, 1, () => {
+      const status = getRateStatus();
+      rateListeners.forEach(listener => listener(status));
+    });
+    rateControllers.set(service, controller);
+  }
+  return controller;
+};
+
+// Retry-After is either delta-seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+  return Number.isFinite(ms) && ms > 0 ? Math.min(ms, MAX_RETRY_AFTER_MS) : undefined;
+};
+
+// 429 always; several APIs (Compute, Storage, BigQuery) report per-minute quota as a 403 instead
+const isRateLimited = async (response: Response): Promise<boolean> => {
+  if (response.status === 429) return true;
+  if (response.status !== 403) return false;
   try {
-    const errorData = await response.json();
-    if (errorData?.error) {
-      const code = errorData.error.code || response.status;
-      const mainMsg = errorData.error.message;
-      const details = errorData.error.details?.[0]?.reason || '';
-      
-      if (code === 403) return `Access Denied: ${mainMsg}`;
-      if (code === 401) return `Session Expired`;
-      if (code === 429) return `Rate Limit Exceeded`;
-      if (code === 412) return `Conflict: Resource modified by another process (Optimistic Lock)`;
-      
-      return `${mainMsg} ${details}`.trim() || response.statusText;
-    }
-    return `${response.status} ${response.statusText}`;
-  } catch (e) {
-    return `${response.status} ${response.statusText}`;
+    const { error } = await response.clone().json();
+    const reasons = [
+      ...(error?.errors || []).map((e: any) => e.reason),
+      ...(error?.details || []).map((d: any) => d.reason),
+    ];
+    return reasons.some(r => RATE_LIMIT_REASONS.includes(r));
+  } catch {
+    return false;
   }
 };
 
+// Every GCP call funnels through its service's controller
+const limitedFetch = (url: string, options: RequestInit, onRetry?: () => void) =>
+  getRateController(url).add(() => fetchWithBackoff(url, options, 3, 300, onRetry), options.signal || undefined);
+
+const getBearerToken = (headers?: HeadersInit) =>
+  new Headers(headers).get('Authorization')?.replace(/^Bearer\s+/i, '') || null;
+
 /**
  * Robust fetch with Exponential Backoff and Jitter.
  * Strategy: base * 2^retry + jitter
+ * Aborting `options.signal` cancels both the request and any pending backoff.
+ * A 401 on an OAuth session is retried once with a refreshed token.
  */
 export const fetchWithBackoff = async (
   url: string, 
   options: RequestInit, 
   retries = 3, 
-  baseDelay = 300
+  baseDelay = 300,
+  onRetry?: () => void,
+  authRetried = false
 ): Promise<Response> => {
   try {
-    const response = await fetch(url, options);
+    const response = await transportFetch(url, options);
+
+    if (response.status === 401 && !authRetried) {
+      const failedToken = getBearerToken(options.headers);
+      const freshToken = failedToken ? await recoverFromUnauthorized(failedToken) : null;
+      if (freshToken) {
+        const headers = new Headers(options.headers);
+        headers.set('Authorization', `Bearer ${freshToken}`);
+        return fetchWithBackoff(url, { ...options, headers }, retries, baseDelay, onRetry, true);
+      }
+    }
+    const rateController = getRateController(url);
+    const throttled = !response.ok && await isRateLimited(response);
+    const retryAfterMs = throttled ? parseRetryAfter(response.headers.get('Retry-After')) : undefined;
+
+    if (throttled) rateController.recordThrottle(retryAfterMs);
+    else if (response.ok) rateController.recordSuccess();
 
-    // Retry on Rate Limits (429) and Server Errors (5xx)
-    if (!response.ok && (response.status === 429 || response.status >= 500)) {
+    // Retry on Rate Limits (429 / rateLimitExceeded) and Server Errors (5xx)
+    if (throttled || response.status >= 500) {
       if (retries > 0) {
         // Exponential backoff: 300, 600, 1200...
         const delay = baseDelay * Math.pow(2, 3 - retries);
         // Add random jitter (0-20% of delay) to prevent thundering herd
         const jitter = Math.random() * (delay * 0.2);
-        const totalDelay = delay + jitter;
+        // The server's Retry-After wins when it asks for a longer pause
+        const totalDelay = Math.max(delay + jitter, retryAfterMs ?? 0);
         
         console.debug(`Retrying ${url} in ${Math.round(totalDelay)}ms (Status: ${response.status})`);
         
-        await new Promise(resolve => setTimeout(resolve, totalDelay));
-        return fetchWithBackoff(url, options, retries - 1, baseDelay);
+        onRetry?.();
+        await sleep(totalDelay, options.signal);
+        return fetchWithBackoff(url, options, retries - 1, baseDelay, onRetry, authRetried);
       }
     }
     return response;
   } catch (error) {
+    if (isAbortError(error)) throw error;
     // Retry on Network Errors (e.g., disconnected)
     if (retries > 0) {
       const delay = baseDelay * Math.pow(2, 3 - retries);
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return fetchWithBackoff(url, options, retries - 1, baseDelay);
+      onRetry?.();
+      await sleep(delay, options.signal);
+      return fetchWithBackoff(url, options, retries - 1, baseDelay, onRetry, authRetried);
     }
     throw new Error(`Network Request Failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 };
 
+/**
+ * Per-scan plumbing threaded through every discovery request: the scan's abort signal
+ * plus hooks that feed the per-source progress counters.
+ */
+interface RequestContext {
+  signal?: AbortSignal;
+  onPage?: (itemCount: number) => void;
+  onRetry?: () => void;
+  onError?: (error: Error) => void;
+}
+
+export interface ScanOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ScanSourceProgress) => void;
+}
+
+// Authenticated GET through the shared limiter, cancellable via the scan context
+const scanFetch = (url: string, accessToken: string, ctx: RequestContext = {}, method = 'GET') =>
+  limitedFetch(url, {
+    method,
+    headers: { Authorization: `Bearer ${accessToken}` },
+    signal: ctx.signal,
+  }, ctx.onRetry);
+
+const describeFailure = (error: Error): Partial<ScanSourceProgress> => ({
+  lastError: error.message,
+  errorKind: error instanceof GcpError ? error.kind : 'UNKNOWN',
+  remediation: error instanceof GcpError ? error.remediation : undefined,
+});
+
+/**
+ * Tracks one discovery source (e.g. "Cloud SQL") for the scan status panel.
+ * Every mutation publishes a fresh snapshot so React state never aliases it.
+ */
+const trackSource = (source: string, options: ScanOptions) => {
+  const progress: ScanSourceProgress = { source, state: 'RUNNING', pages: 0, items: 0, errors: 0, retries: 0 };
+  const report = (patch: Partial<ScanSourceProgress>) => {
+    Object.assign(progress, patch);
+    options.onProgress?.({ ...progress });
+  };
+  const ctx: RequestContext = {
+    signal: options.signal,
+    onPage: (itemCount) => report({ pages: progress.pages + 1, items: progress.items + itemCount }),
+    onRetry: () => report({ retries: progress.retries + 1 }),
+    onError: (error) => report({ errors: progress.errors + 1, ...describeFailure(error) }),
+  };
+  const settle = (error?: any) => {
+    if (!error) report({ state: 'DONE' });
+    else if (isAbortError(error)) report({ state: 'CANCELLED' });
+    else report({ state: 'FAILED', errors: progress.errors + 1, ...describeFailure(error) });
+  };
+
+  report({});
+  return { ctx, settle };
+};
+
 // --- API Implementation ---
 
 const fetchPagedResource = async <T>(
@@ -141,6 +352,7 @@ const fetchPagedResource = async <T>(
   accessToken: string,
   itemsKey: string, 
   mapper: (item: any) => T,
+  ctx: RequestContext = {},
   method = 'GET'
 ): Promise<T[]> => {
   let resources: T[] = [];
@@ -149,15 +361,13 @@ const fetchPagedResource = async <T>(
   try {
     do {
       const url = urlFactory(nextPageToken);
-      const response = await apiLimiter.add(() => fetchWithBackoff(url, {
-        method,
-        headers: { Authorization: `Bearer ${accessToken}` },
-      }));
+      const response = await scanFetch(url, accessToken, ctx, method);
 
       if (!response.ok) {
-        if (response.status === 401) throw new Error("401");
-        const safeUrl = url.split('?')[0]; 
-        console.warn(`Partial fetch failure: ${response.status} for ${safeUrl}`);
+        const error = await toGcpError(response);
+        if (isAuthError(error)) throw error;
+        console.warn(`Partial fetch failure: ${response.status} for ${error.resource}`);
+        ctx.onError?.(error);
         return resources; 
       }
 
@@ -165,6 +375,7 @@ const fetchPagedResource = async <T>(
       nextPageToken = data.nextPageToken;
 
       const rawItems = itemsKey.split('.').reduce((obj, key) => obj?.[key], data);
+      ctx.onPage?.(Array.isArray(rawItems) ? rawItems.length : 0);
       
       if (Array.isArray(rawItems)) {
         rawItems.forEach(item => {
@@ -177,101 +388,1157 @@ const fetchPagedResource = async <T>(
       }
     } while (nextPageToken);
   } catch (error: any) {
-    if (error.message === '401') throw error;
+    if (isAuthError(error) || isAbortError(error)) throw error;
     console.warn("Paged fetch interrupted:", error);
+    ctx.onError?.(error);
   }
   return resources;
 };
 
-// ... (Fetchers remain same - truncated for brevity) ...
-// Assuming standard fetchers from original file exist here
-const fetchComputeEngine = async (projectId: string, accessToken: string) => {
-  const fields = `items/*/instances(id,name,description,machineType,cpuPlatform,status,creationTimestamp,scheduling/provisioningModel,disks(deviceName,diskSizeGb,type,boot,interface),tags/items,serviceAccounts/email,labels,labelFingerprint),nextPageToken`;
-  const url = `${BASE_URL}/${projectId}/aggregated/instances?maxResults=500&fields=${encodeURIComponent(fields)}`;
-  const response = await apiLimiter.add(() => fetchWithBackoff(url, { headers: { Authorization: `Bearer ${accessToken}` } }));
-  if (!response.ok) { if (response.status === 401) throw new Error("401"); return []; }
-  const data = await response.json();
-  const resources: GceResource[] = [];
-  if (data.items) {
-    for (const [scope, scopeData] of Object.entries(data.items)) {
-      if ((scopeData as any).instances) {
-        const zone = scope.replace('zones/', '').replace('regions/', '');
-        (scopeData as any).instances.forEach((inst: any) => {
-           const machineTypeShort = inst.machineType?.split('/').pop() || 'unknown';
-           resources.push({
-              id: String(inst.id), name: inst.name, description: inst.description || (inst.cpuPlatform ? `CPU: ${inst.cpuPlatform}` : undefined), type: 'INSTANCE', zone: zone, machineType: machineTypeShort, cpuPlatform: inst.cpuPlatform, status: inst.status || 'UNKNOWN', creationTimestamp: inst.creationTimestamp, provisioningModel: inst.scheduling?.provisioningModel === 'SPOT' ? 'SPOT' : 'STANDARD', labels: inst.labels || {}, labelFingerprint: inst.labelFingerprint || '', tags: inst.tags?.items || [], serviceAccount: inst.serviceAccounts?.[0]?.email, disks: inst.disks?.map((d: any) => ({ deviceName: d.deviceName, sizeGb: parseInt(d.diskSizeGb || '0', 10), type: d.type ? d.type.split('/').pop() : 'pd-standard', boot: !!d.boot, interface: d.interface })) || [], ips: [], history: []
-           });
-        });
+/**
+ * Walks a Compute Engine `aggregated/*` listing across all pages.
+ * Aggregated responses key items by scope (e.g. `zones/us-central1-a`), so the
+ * mapper receives the short location name alongside each item.
+ */
+const fetchAggregatedResource = async <T>(
+  urlFactory: (pageToken?: string) => string,
+  accessToken: string,
+  itemsKey: string,
+  mapper: (item: any, location: string) => T,
+  ctx: RequestContext = {}
+): Promise<T[]> => {
+  let resources: T[] = [];
+  let nextPageToken: string | undefined = undefined;
+
+  try {
+    do {
+      const url = urlFactory(nextPageToken);
+      const response = await scanFetch(url, accessToken, ctx);
+
+      if (!response.ok) {
+        const error = await toGcpError(response);
+        if (isAuthError(error)) throw error;
+        console.warn(`Partial fetch failure: ${response.status} for ${error.resource}`);
+        ctx.onError?.(error);
+        return resources;
       }
-    }
+
+      const data = await response.json();
+      nextPageToken = data.nextPageToken;
+
+      const pageStart = resources.length;
+      Object.entries(data.items || {}).forEach(([scope, scopeData]) => {
+        const rawItems = (scopeData as any)?.[itemsKey];
+        if (!Array.isArray(rawItems)) return;
+        const location = scope.replace('zones/', '').replace('regions/', '');
+        rawItems.forEach(item => {
+          try {
+            resources.push(mapper(item, location));
+          } catch (e) {
+            // Skip malformed items
+          }
+        });
+      });
+      ctx.onPage?.(resources.length - pageStart);
+    } while (nextPageToken);
+  } catch (error: any) {
+    if (isAuthError(error) || isAbortError(error)) throw error;
+    console.warn("Aggregated fetch interrupted:", error);
+    ctx.onError?.(error);
   }
   return resources;
 };
-// ... Other fetchers ...
 
-// Placeholder for other fetchers (fetchDisks, fetchSnapshots, etc.) used in fetchAllResources
-const fetchDisks = async (projectId: string, accessToken: string) => { return []; };
-const fetchSnapshots = async (projectId: string, accessToken: string) => { return []; };
+// Zonal locations end in a zone suffix (us-central1-a); regional ones do not (us-central1).
+const isZonalLocation = (location: string) => /-[a-z]$/.test(location);
+
+const withPageToken = (url: string, pageToken?: string) =>
+  pageToken ? `${url}&pageToken=${encodeURIComponent(pageToken)}` : url;
+
+const mapNetworkInterfaces = (nics: any[] | undefined): ResourceIP[] =>
+  (nics || []).map((nic: any) => ({
+    network: nic.network?.split('/').pop() || 'default',
+    subnetwork: nic.subnetwork?.split('/').pop(),
+    internal: nic.networkIP || '',
+    // Ephemeral and static external IPs both surface as an ONE_TO_ONE_NAT access config
+    external: nic.accessConfigs?.find((ac: any) => !!ac.natIP)?.natIP
+  }));
+
+const mapInstance = (inst: any, zone: string): GceResource => {
+  const machineTypeShort = inst.machineType?.split('/').pop() || 'unknown';
+  return {
+    id: String(inst.id), name: inst.name, description: inst.description || (inst.cpuPlatform ? `CPU: ${inst.cpuPlatform}` : undefined), type: 'INSTANCE', zone: zone, machineType: machineTypeShort, cpuPlatform: inst.cpuPlatform, status: inst.status || 'UNKNOWN', creationTimestamp: inst.creationTimestamp, provisioningModel: inst.scheduling?.provisioningModel === 'SPOT' ? 'SPOT' : 'STANDARD', labels: inst.labels || {}, labelFingerprint: inst.labelFingerprint || '', tags: inst.tags?.items || [], serviceAccount: inst.serviceAccounts?.[0]?.email, disks: inst.disks?.map((d: any) => ({ deviceName: d.deviceName, sizeGb: parseInt(d.diskSizeGb || '0', 10), type: d.type ? d.type.split('/').pop() : 'pd-standard', boot: !!d.boot, interface: d.interface })) || [], ips: mapNetworkInterfaces(inst.networkInterfaces), history: []
+  };
+};
+
+const fetchComputeEngine = async (projectId: string, accessToken: string, ctx?: RequestContext): Promise<GceResource[]> => {
+  const fields = `items/*/instances(id,name,description,machineType,cpuPlatform,status,creationTimestamp,scheduling/provisioningModel,disks(deviceName,diskSizeGb,type,boot,interface),networkInterfaces(network,subnetwork,networkIP,accessConfigs/natIP),tags/items,serviceAccounts/email,labels,labelFingerprint),nextPageToken`;
+  const baseUrl = `${BASE_URL}/${projectId}/aggregated/instances?maxResults=500&fields=${encodeURIComponent(fields)}`;
+
+  return fetchAggregatedResource<GceResource>(
+    (pageToken) => withPageToken(baseUrl, pageToken),
+    accessToken,
+    'instances',
+    mapInstance,
+    ctx
+  );
+};
+
+const mapDisk = (disk: any, location: string): GceResource => {
+  const users: string[] = (disk.users || []).map((u: string) => u.split('/').pop() || u);
+  return {
+    id: String(disk.id),
+    name: disk.name,
+    description: disk.description,
+    type: 'DISK',
+    zone: location,
+    machineType: disk.type?.split('/').pop() || 'pd-standard',
+    sizeGb: disk.sizeGb,
+    // GCE reports READY for attached and detached disks alike; surface attachment via users
+    status: disk.status || 'UNKNOWN',
+    creationTimestamp: disk.creationTimestamp,
+    provisioningModel: 'STANDARD',
+    users,
+    resourcePolicies: (disk.resourcePolicies || []).map((p: string) => p.split('/').pop() || p),
+    labels: disk.labels || {},
+    labelFingerprint: disk.labelFingerprint || '',
+    history: []
+  };
+};
+
+const fetchDisks = async (projectId: string, accessToken: string, ctx?: RequestContext): Promise<GceResource[]> => {
+  const fields = `items/*/disks(id,name,description,sizeGb,type,status,creationTimestamp,users,resourcePolicies,labels,labelFingerprint),nextPageToken`;
+  const baseUrl = `${BASE_URL}/${projectId}/aggregated/disks?maxResults=500&fields=${encodeURIComponent(fields)}`;
+
+  return fetchAggregatedResource<GceResource>(
+    (pageToken) => withPageToken(baseUrl, pageToken),
+    accessToken,
+    'disks',
+    mapDisk,
+    ctx
+  );
+};
+
+const mapSnapshot = (snap: any): GceResource => ({
+  id: String(snap.id),
+  name: snap.name,
+  description: snap.description,
+  type: 'SNAPSHOT',
+  zone: 'global',
+  sizeGb: snap.diskSizeGb,
+  storageClass: snap.snapshotType || 'STANDARD',
+  sourceDisk: snap.sourceDisk?.split('/').pop(),
+  status: snap.status || 'UNKNOWN',
+  creationTimestamp: snap.creationTimestamp,
+  provisioningModel: 'STANDARD',
+  labels: snap.labels || {},
+  labelFingerprint: snap.labelFingerprint || '',
+  history: []
+});
+
+const mapImage = (image: any): GceResource => ({
+  id: String(image.id),
+  name: image.name,
+  description: image.description,
+  type: 'IMAGE',
+  zone: 'global',
+  sizeGb: image.diskSizeGb,
+  family: image.family,
+  sourceDisk: image.sourceDisk?.split('/').pop(),
+  status: image.status || 'UNKNOWN',
+  creationTimestamp: image.creationTimestamp,
+  provisioningModel: 'STANDARD',
+  labels: image.labels || {},
+  labelFingerprint: image.labelFingerprint || '',
+  history: []
+});
+
+const fetchSnapshots = async (projectId: string, accessToken: string, ctx?: RequestContext): Promise<GceResource[]> => {
+  const fields = `items(id,name,description,status,creationTimestamp,diskSizeGb,storageBytes,sourceDisk,snapshotType,storageLocations,labels,labelFingerprint),nextPageToken`;
+  const baseUrl = `${BASE_URL}/${projectId}/global/snapshots?maxResults=500&fields=${encodeURIComponent(fields)}`;
+
+  return fetchPagedResource<GceResource>(
+    (pageToken) => withPageToken(baseUrl, pageToken),
+    accessToken,
+    'items',
+    mapSnapshot,
+    ctx
+  );
+};
+
+const fetchImages = async (projectId: string, accessToken: string, ctx?: RequestContext): Promise<GceResource[]> => {
+  const fields = `items(id,name,description,status,creationTimestamp,diskSizeGb,sourceDisk,family,storageLocations,labels,labelFingerprint),nextPageToken`;
+  const baseUrl = `${BASE_URL}/${projectId}/global/images?maxResults=500&fields=${encodeURIComponent(fields)}`;
+
+  return fetchPagedResource<GceResource>(
+    (pageToken) => withPageToken(baseUrl, pageToken),
+    accessToken,
+    'items',
+    mapImage,
+    ctx
+  );
+};
+
+const RUN_INGRESS_MAP: Record<string, GceResource['ingress']> = {
+  INGRESS_TRAFFIC_ALL: 'all',
+  INGRESS_TRAFFIC_INTERNAL_ONLY: 'internal',
+  INGRESS_TRAFFIC_INTERNAL_LOAD_BALANCER: 'internal-and-cloud-lb',
+};
+
+const getRunServiceStatus = (svc: any): string => {
+  if (svc.reconciling) return 'DEPLOYING';
+  const state = svc.terminalCondition?.state;
+  if (state === 'CONDITION_SUCCEEDED') return 'READY';
+  if (state === 'CONDITION_FAILED') return 'FAILED';
+  return 'UNKNOWN';
+};
+
+const mapRunService = (svc: any): GceResource => {
+  // name: projects/{project}/locations/{location}/services/{service}
+  const parts = svc.name.split('/');
+  const container = svc.template?.containers?.[0];
+  return {
+    id: svc.uid || svc.name,
+    name: parts[5],
+    description: svc.description,
+    type: 'CLOUD_RUN',
+    zone: parts[3],
+    machineType: 'Serverless',
+    status: getRunServiceStatus(svc),
+    creationTimestamp: svc.createTime,
+    provisioningModel: 'STANDARD',
+    url: svc.uri,
+    memory: container?.resources?.limits?.memory,
+    cpu: container?.resources?.limits?.cpu,
+    ingress: RUN_INGRESS_MAP[svc.ingress],
+    serviceAccount: svc.template?.serviceAccount,
+    labels: svc.labels || {},
+    // Cloud Run has no label fingerprint; the service etag guards concurrent writes
+    labelFingerprint: svc.etag || '',
+    history: []
+  };
+};
+
+const fetchCloudRunServices = async (projectId: string, accessToken: string, ctx?: RequestContext): Promise<GceResource[]> => {
+  // The `-` location wildcard lists services across every region in one stream
+  const baseUrl = `${RUN_BASE_URL}/${projectId}/locations/-/services?pageSize=500`;
+
+  return fetchPagedResource<GceResource>(
+    (pageToken) => withPageToken(baseUrl, pageToken),
+    accessToken,
+    'services',
+    mapRunService,
+    ctx
+  );
+};
+
+const mapSqlInstance = (inst: any): GceResource => {
+  const primary = inst.ipAddresses?.find((ip: any) => ip.type === 'PRIMARY')?.ipAddress;
+  const privateIp = inst.ipAddresses?.find((ip: any) => ip.type === 'PRIVATE')?.ipAddress;
+  const privateNetwork = inst.settings?.ipConfiguration?.privateNetwork;
+  const ips = (primary || privateIp)
+    ? [{ network: privateNetwork?.split('/').pop() || 'default', internal: privateIp || '', external: primary }]
+    : [];
+
+  return {
+    id: inst.connectionName || inst.name,
+    name: inst.name,
+    type: 'CLOUD_SQL',
+    zone: inst.gceZone || inst.region,
+    machineType: inst.settings?.tier,
+    sizeGb: inst.settings?.dataDiskSizeGb,
+    databaseVersion: inst.databaseVersion,
+    // A RUNNABLE instance with activation policy NEVER is stopped but still billed for storage
+    status: inst.settings?.activationPolicy === 'NEVER' ? 'STOPPED' : (inst.state || 'UNKNOWN'),
+    creationTimestamp: inst.createTime,
+    provisioningModel: 'STANDARD',
+    ips,
+    labels: inst.settings?.userLabels || {},
+    // SQL Admin detects concurrent settings updates by settingsVersion, not the instance etag
+    labelFingerprint: String(inst.settings?.settingsVersion || ''),
+    history: []
+  };
+};
+
+const fetchSqlInstances = async (projectId: string, accessToken: string, ctx?: RequestContext): Promise<GceResource[]> => {
+  const baseUrl = `${SQL_ADMIN_URL}/${projectId}/instances?maxResults=500`;
+
+  return fetchPagedResource<GceResource>(
+    (pageToken) => withPageToken(baseUrl, pageToken),
+    accessToken,
+    'items',
+    mapSqlInstance,
+    ctx
+  );
+};
+
+// Labels stamped on the bucket that stores Yalla's own governance state
+const GOVERNANCE_BUCKET_PREFIX = 'yalla-gov-';
+const GOVERNANCE_BUCKET_LABELS: Record<string, string> = { 'managed-by': 'yalla-label', 'yalla-role': 'governance-store' };
+
+const PUBLIC_PRINCIPALS = ['allUsers', 'allAuthenticatedUsers'];
+
+/**
+ * A bucket is public when public access prevention is not enforced and an IAM binding
+ * grants any role to allUsers / allAuthenticatedUsers. Null when the IAM policy cannot be
+ * read: those buckets must not be reported as private.
+ */
+const fetchBucketPublicAccess = async (bucket: any, accessToken: string, ctx?: RequestContext): Promise<boolean | null> => {
+  if (bucket.iamConfiguration?.publicAccessPrevention === 'enforced') return false;
+
+  const response = await scanFetch(`${STORAGE_BASE_URL}/${bucket.name}/iam`, accessToken, ctx);
+  if (!response.ok) {
+    if (response.status === 401) throw await toGcpError(response, bucket.name);
+    return null;
+  }
+  const policy = await response.json();
+  return (policy.bindings || []).some((b: any) => (b.members || []).some((m: string) => PUBLIC_PRINCIPALS.includes(m)));
+};
+
+const mapBucket = (bucket: any, publicAccess: boolean | null): GceResource => ({
+  id: bucket.id || bucket.name,
+  name: bucket.name,
+  type: 'BUCKET',
+  zone: (bucket.location || 'global').toLowerCase(),
+  locationType: bucket.locationType,
+  storageClass: bucket.storageClass,
+  status: 'READY',
+  creationTimestamp: bucket.timeCreated,
+  provisioningModel: 'STANDARD',
+  ...(publicAccess === null ? { publicAccessUnknown: true } : { publicAccess }),
+  isSystemManaged: bucket.name.startsWith(GOVERNANCE_BUCKET_PREFIX),
+  labels: bucket.labels || {},
+  // Buckets have no label fingerprint; metageneration is the precondition for metadata writes
+  labelFingerprint: String(bucket.metageneration || ''),
+  history: []
+});
+
+const fetchBuckets = async (projectId: string, accessToken: string, ctx?: RequestContext): Promise<GceResource[]> => {
+  const fields = `items(id,name,timeCreated,location,locationType,storageClass,labels,metageneration,iamConfiguration/publicAccessPrevention),nextPageToken`;
+  const baseUrl = `${STORAGE_BASE_URL}?project=${projectId}&maxResults=1000&fields=${encodeURIComponent(fields)}`;
+
+  const rawBuckets = await fetchPagedResource<any>(
+    (pageToken) => withPageToken(baseUrl, pageToken),
+    accessToken,
+    'items',
+    (bucket) => bucket,
+    ctx
+  );
+
+  return Promise.all(rawBuckets.map(async (bucket) => {
+    let publicAccess: boolean | null = null;
+    try {
+      publicAccess = await fetchBucketPublicAccess(bucket, accessToken, ctx);
+    } catch (e: any) {
+      if (isAuthError(e) || isAbortError(e)) throw e;
+      safeLog(`IAM lookup failed for bucket ${bucket.name}`, e);
+    }
+    return mapBucket(bucket, publicAccess);
+  }));
+};
+
+const mapGkeCluster = (cluster: any): GceResource => {
+  const nodePools = (cluster.nodePools || []).map((pool: any) => ({
+    name: pool.name,
+    version: pool.version,
+    status: pool.status,
+    // initialNodeCount is per zone for multi-zonal pools
+    nodeCount: (pool.initialNodeCount || 0) * (pool.locations?.length || 1),
+    machineType: pool.config?.machineType,
+    resourceLabels: pool.config?.resourceLabels || {}
+  }));
+
+  return {
+    id: cluster.id || cluster.selfLink || cluster.name,
+    name: cluster.name,
+    description: cluster.description,
+    type: 'GKE_CLUSTER',
+    zone: cluster.location,
+    status: cluster.status || 'UNKNOWN',
+    creationTimestamp: cluster.createTime,
+    provisioningModel: 'STANDARD',
+    clusterDetails: {
+      nodeCount: cluster.currentNodeCount || 0,
+      version: cluster.currentMasterVersion,
+      endpoint: cluster.endpoint,
+      isAutopilot: !!cluster.autopilot?.enabled,
+      network: cluster.network,
+      subnetwork: cluster.subnetwork,
+      servicesIpv4Cidr: cluster.servicesIpv4Cidr,
+      statusMessage: cluster.statusMessage,
+      nodePools
+    },
+    labels: cluster.resourceLabels || {},
+    labelFingerprint: cluster.labelFingerprint || '',
+    history: []
+  };
+};
+
+const fetchGkeClusters = async (projectId: string, accessToken: string, ctx?: RequestContext): Promise<GceResource[]> => {
+  // clusters.list is not paginated; the `-` location covers every zone and region
+  const url = `${CONTAINER_BASE_URL}/${projectId}/locations/-/clusters`;
+  return fetchPagedResource<GceResource>(() => url, accessToken, 'clusters', mapGkeCluster, ctx);
+};
+
+// --- Data & Messaging ---
+
+const mapDataset = (ds: any): GceResource => ({
+  id: ds.id || `${ds.datasetReference.projectId}:${ds.datasetReference.datasetId}`,
+  name: ds.datasetReference.datasetId,
+  description: ds.description || ds.friendlyName,
+  type: 'BIGQUERY_DATASET',
+  zone: (ds.location || 'us').toLowerCase(),
+  status: 'READY',
+  creationTimestamp: ds.creationTime ? new Date(Number(ds.creationTime)).toISOString() : '',
+  provisioningModel: 'STANDARD',
+  labels: ds.labels || {},
+  // Only datasets.get returns the etag used for If-Match on patch
+  labelFingerprint: ds.etag || '',
+  history: []
+});
+
+const fetchDatasets = async (projectId: string, accessToken: string, ctx?: RequestContext): Promise<GceResource[]> => {
+  const baseUrl = `${BIGQUERY_URL}/${projectId}/datasets?all=true&maxResults=1000`;
+  const listed = await fetchPagedResource<any>((pageToken) => withPageToken(baseUrl, pageToken), accessToken, 'datasets', ds => ds, ctx);
+
+  // The list view omits etag and creation time, so each dataset is read individually
+  return Promise.all(listed.map(async (ds) => {
+    try {
+      const response = await scanFetch(`${BIGQUERY_URL}/${projectId}/datasets/${ds.datasetReference.datasetId}`, accessToken, ctx);
+      if (response.status === 401) throw await toGcpError(response, ds.id);
+      if (response.ok) return mapDataset(await response.json());
+    } catch (e: any) {
+      if (isAuthError(e) || isAbortError(e)) throw e;
+      safeLog(`Dataset read failed for ${ds.id}`, e);
+    }
+    return mapDataset(ds);
+  }));
+};
+
+const mapTopic = (topic: any): GceResource => ({
+  id: topic.name,
+  name: topic.name.split('/').pop(),
+  type: 'PUBSUB_TOPIC',
+  zone: 'global',
+  status: topic.state === 'INGESTION_RESOURCE_ERROR' ? 'ERROR' : 'ACTIVE',
+  creationTimestamp: '',
+  provisioningModel: 'STANDARD',
+  pubsubDetails: { messageRetention: topic.messageRetentionDuration },
+  labels: topic.labels || {},
+  // Topics and subscriptions carry no etag; updates compare against a fresh read instead
+  labelFingerprint: '',
+  history: []
+});
+
+const getSubscriptionDeliveryType = (sub: any): NonNullable<GceResource['pubsubDetails']>['deliveryType'] => {
+  if (sub.bigqueryConfig) return 'BIGQUERY';
+  if (sub.cloudStorageConfig) return 'CLOUD_STORAGE';
+  return sub.pushConfig?.pushEndpoint ? 'PUSH' : 'PULL';
+};
+
+const mapSubscription = (sub: any): GceResource => ({
+  id: sub.name,
+  name: sub.name.split('/').pop(),
+  type: 'PUBSUB_SUBSCRIPTION',
+  zone: 'global',
+  status: sub.state || 'ACTIVE',
+  creationTimestamp: '',
+  provisioningModel: 'STANDARD',
+  pubsubDetails: {
+    // `_deleted-topic_` marks a subscription whose topic is gone
+    topic: sub.topic?.split('/').pop(),
+    deliveryType: getSubscriptionDeliveryType(sub),
+    messageRetention: sub.messageRetentionDuration,
+    ackDeadlineSeconds: sub.ackDeadlineSeconds,
+  },
+  labels: sub.labels || {},
+  labelFingerprint: '',
+  history: []
+});
+
+const fetchPubSubTopics = async (projectId: string, accessToken: string, ctx?: RequestContext): Promise<GceResource[]> => {
+  const baseUrl = `${PUBSUB_URL}/${projectId}/topics?pageSize=1000`;
+  return fetchPagedResource<GceResource>((pageToken) => withPageToken(baseUrl, pageToken), accessToken, 'topics', mapTopic, ctx);
+};
+
+const fetchPubSubSubscriptions = async (projectId: string, accessToken: string, ctx?: RequestContext): Promise<GceResource[]> => {
+  const baseUrl = `${PUBSUB_URL}/${projectId}/subscriptions?pageSize=1000`;
+  return fetchPagedResource<GceResource>((pageToken) => withPageToken(baseUrl, pageToken), accessToken, 'subscriptions', mapSubscription, ctx);
+};
+
+// --- Networking ---
+
+const shortName = (selfLink?: string) => selfLink?.split('/').pop();
+
+const mapNetwork = (net: any): GceResource => ({
+  id: String(net.id),
+  name: net.name,
+  description: net.description,
+  type: 'VPC_NETWORK',
+  zone: 'global',
+  status: 'READY',
+  creationTimestamp: net.creationTimestamp,
+  provisioningModel: 'STANDARD',
+  networkDetails: {
+    subnetworkCount: (net.subnetworks || []).length,
+    routingMode: net.routingConfig?.routingMode,
+  },
+  // VPC networks have no labels field in the Compute API
+  labels: {},
+  labelFingerprint: '',
+  history: []
+});
+
+const mapFirewall = (fw: any): GceResource => {
+  const sourceRanges: string[] = fw.sourceRanges || [];
+  const allowed: string[] = (fw.allowed || []).flatMap((a: any) =>
+    a.ports?.length ? a.ports.map((port: string) => `${a.IPProtocol}:${port}`) : [a.IPProtocol]
+  );
+  return {
+    id: String(fw.id),
+    name: fw.name,
+    description: fw.description,
+    type: 'FIREWALL_RULE',
+    zone: 'global',
+    status: fw.disabled ? 'DISABLED' : 'ENABLED',
+    creationTimestamp: fw.creationTimestamp,
+    provisioningModel: 'STANDARD',
+    tags: fw.targetTags || [],
+    networkDetails: {
+      network: shortName(fw.network),
+      direction: fw.direction,
+      priority: fw.priority,
+      sourceRanges,
+      allowed,
+      openToInternet: !fw.disabled && fw.direction === 'INGRESS' && allowed.length > 0 && sourceRanges.includes('0.0.0.0/0'),
+    },
+    // Firewall rules have no labels field in the Compute API
+    labels: {},
+    labelFingerprint: '',
+    history: []
+  };
+};
+
+const mapForwardingRule = (rule: any, location: string): GceResource => {
+  const target = shortName(rule.target || rule.backendService);
+  return {
+    id: String(rule.id),
+    name: rule.name,
+    description: rule.description,
+    type: 'FORWARDING_RULE',
+    zone: location,
+    // A rule pointing at nothing still holds its IP and is billed hourly
+    status: target ? 'ACTIVE' : 'IDLE',
+    creationTimestamp: rule.creationTimestamp,
+    provisioningModel: 'STANDARD',
+    networkDetails: {
+      network: shortName(rule.network),
+      ipAddress: rule.IPAddress,
+      target,
+      loadBalancingScheme: rule.loadBalancingScheme,
+      portRange: rule.portRange || rule.ports?.join(','),
+    },
+    labels: rule.labels || {},
+    labelFingerprint: rule.labelFingerprint || '',
+    history: []
+  };
+};
+
+const mapAddress = (addr: any, location: string): GceResource => ({
+  id: String(addr.id),
+  name: addr.name,
+  description: addr.description,
+  type: 'ADDRESS',
+  zone: location,
+  // RESERVED = allocated but unattached; IN_USE = bound to a resource
+  status: addr.status || 'UNKNOWN',
+  creationTimestamp: addr.creationTimestamp,
+  provisioningModel: 'STANDARD',
+  users: (addr.users || []).map((u: string) => shortName(u) || u),
+  networkDetails: {
+    network: shortName(addr.network || addr.subnetwork),
+    ipAddress: addr.address,
+    addressType: addr.addressType || 'EXTERNAL',
+  },
+  labels: addr.labels || {},
+  labelFingerprint: addr.labelFingerprint || '',
+  history: []
+});
+
+const fetchNetworks = async (projectId: string, accessToken: string, ctx?: RequestContext): Promise<GceResource[]> => {
+  const fields = `items(id,name,description,creationTimestamp,subnetworks,routingConfig/routingMode),nextPageToken`;
+  const baseUrl = `${BASE_URL}/${projectId}/global/networks?maxResults=500&fields=${encodeURIComponent(fields)}`;
+  return fetchPagedResource<GceResource>((pageToken) => withPageToken(baseUrl, pageToken), accessToken, 'items', mapNetwork, ctx);
+};
+
+const fetchFirewalls = async (projectId: string, accessToken: string, ctx?: RequestContext): Promise<GceResource[]> => {
+  const fields = `items(id,name,description,creationTimestamp,network,direction,priority,disabled,sourceRanges,targetTags,allowed),nextPageToken`;
+  const baseUrl = `${BASE_URL}/${projectId}/global/firewalls?maxResults=500&fields=${encodeURIComponent(fields)}`;
+  return fetchPagedResource<GceResource>((pageToken) => withPageToken(baseUrl, pageToken), accessToken, 'items', mapFirewall, ctx);
+};
+
+const fetchForwardingRules = async (projectId: string, accessToken: string, ctx?: RequestContext): Promise<GceResource[]> => {
+  // The aggregated listing includes global (external HTTP(S)) rules under the `global` scope
+  const fields = `items/*/forwardingRules(id,name,description,creationTimestamp,network,IPAddress,target,backendService,loadBalancingScheme,portRange,ports,labels,labelFingerprint),nextPageToken`;
+  const baseUrl = `${BASE_URL}/${projectId}/aggregated/forwardingRules?maxResults=500&fields=${encodeURIComponent(fields)}`;
+  return fetchAggregatedResource<GceResource>((pageToken) => withPageToken(baseUrl, pageToken), accessToken, 'forwardingRules', mapForwardingRule, ctx);
+};
+
+const fetchAddresses = async (projectId: string, accessToken: string, ctx?: RequestContext): Promise<GceResource[]> => {
+  const fields = `items/*/addresses(id,name,description,creationTimestamp,address,addressType,status,users,network,subnetwork,labels,labelFingerprint),nextPageToken`;
+  const baseUrl = `${BASE_URL}/${projectId}/aggregated/addresses?maxResults=500&fields=${encodeURIComponent(fields)}`;
+  return fetchAggregatedResource<GceResource>((pageToken) => withPageToken(baseUrl, pageToken), accessToken, 'addresses', mapAddress, ctx);
+};
 
 export const fetchAllResources = async (
   projectId: string,
   accessToken: string,
-  onChunk: (resources: GceResource[], source: string) => void
+  onChunk: (resources: GceResource[], source: string) => void,
+  options: ScanOptions = {}
 ): Promise<void> => {
-  // Re-implementing simplified version of fetchAllResources for brevity in this response
-  // In real app, keep the full implementations
   const tasks = [
-    { name: 'Virtual Machines', fn: () => fetchComputeEngine(projectId, accessToken) },
-    // ... others
+    { name: 'Virtual Machines', fn: fetchComputeEngine },
+    { name: 'Persistent Disks', fn: fetchDisks },
+    { name: 'Snapshots', fn: fetchSnapshots },
+    { name: 'Images', fn: fetchImages },
+    { name: 'Cloud Run', fn: fetchCloudRunServices },
+    { name: 'Cloud SQL', fn: fetchSqlInstances },
+    { name: 'Cloud Storage', fn: fetchBuckets },
+    { name: 'GKE Clusters', fn: fetchGkeClusters },
+    { name: 'VPC Networks', fn: fetchNetworks },
+    { name: 'Firewall Rules', fn: fetchFirewalls },
+    { name: 'Forwarding Rules', fn: fetchForwardingRules },
+    { name: 'Static Addresses', fn: fetchAddresses },
+    { name: 'BigQuery', fn: fetchDatasets },
+    { name: 'Pub/Sub Topics', fn: fetchPubSubTopics },
+    { name: 'Pub/Sub Subscriptions', fn: fetchPubSubSubscriptions },
   ];
   const promises = tasks.map(async (task) => {
+    const { ctx, settle } = trackSource(task.name, options);
     try {
-      const data = await task.fn();
-      if (data && data.length > 0) onChunk(data, task.name);
-    } catch (e: any) { if (e.message === '401') throw e; safeLog(`Fetch warning for ${task.name}`, e); }
+      const data = await task.fn(projectId, accessToken, ctx);
+      settle();
+      if (data && data.length > 0 && !options.signal?.aborted) onChunk(data.map(r => ({ ...r, projectId })), task.name);
+    } catch (e: any) {
+      settle(e);
+      if (isAuthError(e) || isAbortError(e)) throw e;
+      safeLog(`Fetch warning for ${task.name}`, e);
+    }
   });
   const results = await Promise.allSettled(promises);
-  const authFailure = results.find(r => r.status === 'rejected' && (r.reason as Error).message === '401');
-  if (authFailure) throw new Error("Authentication Failed (401)");
+  if (options.signal?.aborted) throw abortError();
+  const authFailure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected' && isAuthError(r.reason));
+  if (authFailure) throw authFailure.reason;
 };
 
-export const fetchResource = async (projectId: string, accessToken: string, resource: GceResource): Promise<GceResource | null> => {
-  let url = '';
-  // ... URL mapping logic from original file ...
-  if (resource.type === 'INSTANCE') { url = `${BASE_URL}/${projectId}/zones/${resource.zone}/instances/${resource.name}`; }
-  else { return null; }
+export interface ScopeListing {
+  projectIds: string[];
+  failures: Error[]; // Folders or orgs that could not be listed (e.g. 403); projects beneath them are missing
+}
+
+/**
+ * Enumerates every ACTIVE project beneath a folder or organization.
+ * Resource Manager only lists direct children, so sub-folders are walked breadth-first.
+ * A listing that fails does not stop the walk, but is reported so the scan is not silently partial.
+ */
+export const listProjectsInScope = async (accessToken: string, scope: ScanScope, signal?: AbortSignal): Promise<ScopeListing> => {
+  if (scope.type === 'PROJECT') return { projectIds: [scope.id], failures: [] };
+
+  const projectIds = new Set<string>();
+  const failures: Error[] = [];
+  const queue = [scope.type === 'FOLDER' ? `folders/${scope.id}` : `organizations/${scope.id}`];
+  const ctx: RequestContext = { signal, onError: (error) => failures.push(error) };
+
+  while (queue.length > 0) {
+    const parent = queue.shift()!;
+    const projectsUrl = `${RESOURCE_MANAGER_URL}/projects?parent=${encodeURIComponent(parent)}&pageSize=500`;
+    const foldersUrl = `${RESOURCE_MANAGER_URL}/folders?parent=${encodeURIComponent(parent)}&pageSize=500`;
+
+    const [projects, folders] = await Promise.all([
+      fetchPagedResource<any>((pageToken) => withPageToken(projectsUrl, pageToken), accessToken, 'projects', p => p, ctx),
+      fetchPagedResource<any>((pageToken) => withPageToken(foldersUrl, pageToken), accessToken, 'folders', f => f, ctx),
+    ]);
+
+    projects.filter(p => p.state === 'ACTIVE').forEach(p => projectIds.add(p.projectId));
+    folders.filter(f => f.state === 'ACTIVE').forEach(f => queue.push(f.name));
+  }
+
+  return { projectIds: Array.from(projectIds).sort(), failures };
+};
+
+/**
+ * Asks IAM which of `permissions` the caller holds on a project, folder or organization.
+ * testIamPermissions never fails for missing permissions; it just returns the granted subset.
+ * It does reject (400) permissions that cannot be granted on that resource type.
+ */
+export const testScopePermissions = async (scope: ScanScope, accessToken: string, permissions: string[]): Promise<string[]> => {
+  const name = getScopeName(scope);
+  const response = await limitedFetch(`${RESOURCE_MANAGER_URL}/${name}:testIamPermissions`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ permissions }),
+  });
+  if (!response.ok) throw await toGcpError(response, name);
+  const data = await response.json();
+  return data.permissions || [];
+};
+
+export const testProjectPermissions = (projectId: string, accessToken: string, permissions: string[]) =>
+  testScopePermissions({ type: 'PROJECT', id: projectId }, accessToken, permissions);
+
+/**
+ * Scans several projects in parallel. Every request still funnels through its service's
+ * rate controller, so total concurrency stays bounded regardless of project count. A project that fails
+ * (e.g. API disabled) is logged and skipped; a 401 aborts the whole scan.
+ */
+export const fetchAllProjectsResources = async (
+  projectIds: string[],
+  accessToken: string,
+  onChunk: (resources: GceResource[], source: string) => void,
+  options: ScanOptions = {}
+): Promise<void> => {
+  const results = await Promise.allSettled(projectIds.map(projectId =>
+    fetchAllResources(projectId, accessToken, (chunk, source) => onChunk(chunk, `${source} · ${projectId}`), {
+      signal: options.signal,
+      onProgress: (progress) => options.onProgress?.({ ...progress, source: `${progress.source} · ${projectId}` }),
+    })
+  ));
+  if (options.signal?.aborted) throw abortError();
+
+  results.forEach((r, i) => {
+    if (r.status === 'rejected') safeLog(`Scan failed for project ${projectIds[i]}`, r.reason);
+  });
+
+  const authFailure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected' && isAuthError(r.reason));
+  if (authFailure) throw authFailure.reason;
+};
+
+// --- Cloud Asset Inventory Discovery ---
+
+type ModeledResourceType = Exclude<ResourceType, 'ASSET'>;
+
+const ASSET_TYPE_MAP: Record<string, ModeledResourceType> = {
+  'compute.googleapis.com/Instance': 'INSTANCE',
+  'compute.googleapis.com/Disk': 'DISK',
+  'compute.googleapis.com/Snapshot': 'SNAPSHOT',
+  'compute.googleapis.com/Image': 'IMAGE',
+  'run.googleapis.com/Service': 'CLOUD_RUN',
+  'sqladmin.googleapis.com/Instance': 'CLOUD_SQL',
+  'storage.googleapis.com/Bucket': 'BUCKET',
+  'container.googleapis.com/Cluster': 'GKE_CLUSTER',
+  'compute.googleapis.com/Network': 'VPC_NETWORK',
+  'compute.googleapis.com/Firewall': 'FIREWALL_RULE',
+  'compute.googleapis.com/ForwardingRule': 'FORWARDING_RULE',
+  'compute.googleapis.com/GlobalForwardingRule': 'FORWARDING_RULE',
+  'compute.googleapis.com/Address': 'ADDRESS',
+  'compute.googleapis.com/GlobalAddress': 'ADDRESS',
+  'bigquery.googleapis.com/Dataset': 'BIGQUERY_DATASET',
+  'pubsub.googleapis.com/Topic': 'PUBSUB_TOPIC',
+  'pubsub.googleapis.com/Subscription': 'PUBSUB_SUBSCRIPTION',
+};
+
+// Label-bearing types Yalla has no native fetcher for; surfaced read-only as ASSET
+const UNMODELED_LABELED_ASSET_TYPES = [
+  'bigquery.googleapis.com/Table',
+  'cloudfunctions.googleapis.com/CloudFunction',
+  'redis.googleapis.com/Instance',
+  'spanner.googleapis.com/Instance',
+  'dataproc.googleapis.com/Cluster',
+  'artifactregistry.googleapis.com/Repository',
+  'secretmanager.googleapis.com/Secret',
+];
+
+const SERVICE_FETCHERS: Record<ModeledResourceType, (projectId: string, accessToken: string, ctx?: RequestContext) => Promise<GceResource[]>> = {
+  INSTANCE: fetchComputeEngine,
+  DISK: fetchDisks,
+  SNAPSHOT: fetchSnapshots,
+  IMAGE: fetchImages,
+  CLOUD_RUN: fetchCloudRunServices,
+  CLOUD_SQL: fetchSqlInstances,
+  BUCKET: fetchBuckets,
+  GKE_CLUSTER: fetchGkeClusters,
+  VPC_NETWORK: fetchNetworks,
+  FIREWALL_RULE: fetchFirewalls,
+  FORWARDING_RULE: fetchForwardingRules,
+  ADDRESS: fetchAddresses,
+  BIGQUERY_DATASET: fetchDatasets,
+  PUBSUB_TOPIC: fetchPubSubTopics,
+  PUBSUB_SUBSCRIPTION: fetchPubSubSubscriptions,
+};
+
+const SERVICE_SOURCE_NAMES: Record<ModeledResourceType, string> = {
+  INSTANCE: 'Virtual Machines',
+  DISK: 'Persistent Disks',
+  SNAPSHOT: 'Snapshots',
+  IMAGE: 'Images',
+  CLOUD_RUN: 'Cloud Run',
+  CLOUD_SQL: 'Cloud SQL',
+  BUCKET: 'Cloud Storage',
+  GKE_CLUSTER: 'GKE Clusters',
+  VPC_NETWORK: 'VPC Networks',
+  FIREWALL_RULE: 'Firewall Rules',
+  FORWARDING_RULE: 'Forwarding Rules',
+  ADDRESS: 'Static Addresses',
+  BIGQUERY_DATASET: 'BigQuery',
+  PUBSUB_TOPIC: 'Pub/Sub Topics',
+  PUBSUB_SUBSCRIPTION: 'Pub/Sub Subscriptions',
+};
+
+const getScopeName = (scope: ScanScope) => {
+  switch (scope.type) {
+    case 'FOLDER': return `folders/${scope.id}`;
+    case 'ORGANIZATION': return `organizations/${scope.id}`;
+    default: return `projects/${scope.id}`;
+  }
+};
+
+/**
+ * Asset search reports the owning project by number (`projects/123`), while every
+ * other API here addresses projects by ID, so numbers are resolved once per scan.
+ */
+const resolveProjectNumbers = async (projectNumbers: string[], accessToken: string, ctx?: RequestContext): Promise<Map<string, string>> => {
+  const resolved = new Map<string, string>();
+  await Promise.all(projectNumbers.map(async (number) => {
+    try {
+      const response = await scanFetch(`${RESOURCE_MANAGER_URL}/projects/${number}`, accessToken, ctx);
+      if (response.status === 401) throw await toGcpError(response, `projects/${number}`);
+      if (!response.ok) return;
+      const data = await response.json();
+      if (data.projectId) resolved.set(number, data.projectId);
+    } catch (e: any) {
+      if (isAuthError(e) || isAbortError(e)) throw e;
+      safeLog(`Project lookup failed for ${number}`, e);
+    }
+  }));
+  return resolved;
+};
+
+const mapAsset = (asset: any, projectIds: Map<string, string>, fallbackProjectId?: string): GceResource => {
+  const fullName: string = asset.name || '';
+  const projectNumber = (asset.project || '').replace('projects/', '');
+  // Full resource names embed the project ID for most services; buckets are the exception
+  const projectId = projectIds.get(projectNumber) || fullName.match(/\/projects\/([^/]+)\//)?.[1] || fallbackProjectId;
+  const modeledType = ASSET_TYPE_MAP[asset.assetType];
+
+  return {
+    id: fullName,
+    name: asset.displayName || fullName.split('/').pop() || fullName,
+    projectId,
+    description: asset.description,
+    type: modeledType || 'ASSET',
+    assetType: asset.assetType,
+    zone: asset.location || 'global',
+    status: asset.state || 'UNKNOWN',
+    creationTimestamp: asset.createTime || '',
+    provisioningModel: 'STANDARD',
+    labels: asset.labels || {},
+    // Asset search carries no concurrency token; updateResourceLabels reads the live one before writing
+    labelFingerprint: '',
+  };
+};
+
+/**
+ * Alternate discovery engine: a single Cloud Asset Inventory `searchAllResources` stream
+ * over the whole scope (project, folder or organization), needing only
+ * `cloudasset.assets.searchAllResources` instead of one permission per service.
+ *
+ * Types Yalla models natively are hydrated from their service fetcher (machine type,
+ * fingerprints, IPs, ...) wherever that API is reachable; otherwise the asset record is
+ * kept as-is. Unmodeled types are emitted as ASSET. Throws when the search returns nothing
+ * so callers can fall back to per-service discovery.
+ */
+export const fetchAssetInventoryResources = async (
+  scope: ScanScope,
+  accessToken: string,
+  onChunk: (resources: GceResource[], source: string) => void,
+  options: ScanOptions = {}
+): Promise<void> => {
+  const assetTypes = [...Object.keys(ASSET_TYPE_MAP), ...UNMODELED_LABELED_ASSET_TYPES]
+    .map(t => `assetTypes=${encodeURIComponent(t)}`).join('&');
+  const searchUrl = `${CLOUD_ASSET_URL}/${getScopeName(scope)}:searchAllResources?pageSize=500&${assetTypes}`;
+
+  const search = trackSource('Cloud Asset Inventory', options);
+  let assets: GceResource[];
+  try {
+    const rawAssets = await fetchPagedResource<any>((pageToken) => withPageToken(searchUrl, pageToken), accessToken, 'results', a => a, search.ctx);
+    if (rawAssets.length === 0) throw new Error('Cloud Asset Inventory returned no resources');
+
+    const projectNumbers = Array.from(new Set(rawAssets.map(a => (a.project || '').replace('projects/', '')).filter(Boolean))) as string[];
+    const projectIds = await resolveProjectNumbers(projectNumbers, accessToken, search.ctx);
+    assets = rawAssets.map(a => mapAsset(a, projectIds, scope.type === 'PROJECT' ? scope.id : undefined));
+    search.settle();
+  } catch (e: any) {
+    search.settle(e);
+    throw e;
+  }
+
+  // Unmodeled types, and anything whose project could not be resolved, skip hydration
+  const unhydrated = assets.filter(a => a.type === 'ASSET' || !a.projectId);
+  if (unhydrated.length > 0) onChunk(unhydrated, 'Cloud Asset Inventory');
+
+  // Group modeled assets so each (project, type) pair costs one service listing
+  const groups = new Map<string, { projectId: string; type: ModeledResourceType; assets: GceResource[] }>();
+  assets.forEach(asset => {
+    if (asset.type === 'ASSET' || !asset.projectId) return;
+    const key = `${asset.projectId}|${asset.type}`;
+    if (!groups.has(key)) groups.set(key, { projectId: asset.projectId, type: asset.type as ModeledResourceType, assets: [] });
+    groups.get(key)!.assets.push(asset);
+  });
+
+  const results = await Promise.allSettled(Array.from(groups.values()).map(async ({ projectId, type, assets: groupAssets }) => {
+    const source = `${SERVICE_SOURCE_NAMES[type]} · ${projectId}`;
+    const { ctx, settle } = trackSource(source, options);
+    let detailed: GceResource[] = [];
+    try {
+      detailed = await SERVICE_FETCHERS[type](projectId, accessToken, ctx);
+      settle();
+    } catch (e: any) {
+      settle(e);
+      if (isAuthError(e) || isAbortError(e)) throw e;
+      safeLog(`Hydration skipped for ${type} in ${projectId}`, e);
+    }
+
+    const byLocation = new Map(detailed.map(d => [`${d.name}@${d.zone.toLowerCase()}`, d]));
+    const byName = new Map(detailed.map(d => [d.name, d]));
+    const merged = groupAssets.map(asset => {
+      const match = byLocation.get(`${asset.name}@${asset.zone.toLowerCase()}`) || byName.get(asset.name);
+      return match ? { ...match, projectId, assetType: asset.assetType } : asset;
+    });
+    onChunk(merged, source);
+  }));
+
+  if (options.signal?.aborted) throw abortError();
+  const authFailure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected' && isAuthError(r.reason));
+  if (authFailure) throw authFailure.reason;
+};
+
+const getDiskScope = (location: string) =>
+  isZonalLocation(location) ? `zones/${location}` : `regions/${location}`;
+
+// Forwarding rules and addresses are either regional or global, never zonal
+const getComputeScope = (location: string) =>
+  location === 'global' ? 'global' : `regions/${location}`;
+
+const getResourceUrl = (projectId: string, resource: GceResource): string | null => {
+  switch (resource.type) {
+    case 'INSTANCE': return `${BASE_URL}/${projectId}/zones/${resource.zone}/instances/${resource.name}`;
+    case 'DISK': return `${BASE_URL}/${projectId}/${getDiskScope(resource.zone)}/disks/${resource.name}`;
+    case 'SNAPSHOT': return `${BASE_URL}/${projectId}/global/snapshots/${resource.name}`;
+    case 'IMAGE': return `${BASE_URL}/${projectId}/global/images/${resource.name}`;
+    case 'CLOUD_RUN': return `${RUN_BASE_URL}/${projectId}/locations/${resource.zone}/services/${resource.name}`;
+    case 'CLOUD_SQL': return `${SQL_ADMIN_URL}/${projectId}/instances/${resource.name}`;
+    case 'BUCKET': return `${STORAGE_BASE_URL}/${resource.name}`;
+    case 'GKE_CLUSTER': return `${CONTAINER_BASE_URL}/${projectId}/locations/${resource.zone}/clusters/${resource.name}`;
+    case 'VPC_NETWORK': return `${BASE_URL}/${projectId}/global/networks/${resource.name}`;
+    case 'FIREWALL_RULE': return `${BASE_URL}/${projectId}/global/firewalls/${resource.name}`;
+    case 'FORWARDING_RULE': return `${BASE_URL}/${projectId}/${getComputeScope(resource.zone)}/forwardingRules/${resource.name}`;
+    case 'ADDRESS': return `${BASE_URL}/${projectId}/${getComputeScope(resource.zone)}/addresses/${resource.name}`;
+    case 'BIGQUERY_DATASET': return `${BIGQUERY_URL}/${projectId}/datasets/${resource.name}`;
+    case 'PUBSUB_TOPIC': return `${PUBSUB_URL}/${projectId}/topics/${resource.name}`;
+    case 'PUBSUB_SUBSCRIPTION': return `${PUBSUB_URL}/${projectId}/subscriptions/${resource.name}`;
+    default: return null;
+  }
+};
+
+// Single-resource GETs return the same shape as list items, so the list mappers apply.
+// Buckets keep their previously resolved public-access flag to avoid an extra IAM call.
+const mapFetchedResource = (resource: GceResource, data: any): GceResource | null => {
+  switch (resource.type) {
+    case 'INSTANCE': return mapInstance(data, resource.zone);
+    case 'DISK': return mapDisk(data, resource.zone);
+    case 'SNAPSHOT': return mapSnapshot(data);
+    case 'IMAGE': return mapImage(data);
+    case 'CLOUD_RUN': return mapRunService(data);
+    case 'CLOUD_SQL': return mapSqlInstance(data);
+    case 'BUCKET': return mapBucket(data, resource.publicAccessUnknown ? null : !!resource.publicAccess);
+    case 'GKE_CLUSTER': return mapGkeCluster(data);
+    case 'VPC_NETWORK': return mapNetwork(data);
+    case 'FIREWALL_RULE': return mapFirewall(data);
+    case 'FORWARDING_RULE': return mapForwardingRule(data, resource.zone);
+    case 'ADDRESS': return mapAddress(data, resource.zone);
+    case 'BIGQUERY_DATASET': return mapDataset(data);
+    case 'PUBSUB_TOPIC': return mapTopic(data);
+    case 'PUBSUB_SUBSCRIPTION': return mapSubscription(data);
+    default: return null;
+  }
+};
+
+const readResource = async (projectId: string, accessToken: string, resource: GceResource): Promise<GceResource | null> => {
+  const url = getResourceUrl(projectId, resource);
+  if (!url) return null;
 
   try {
-      const response = await apiLimiter.add(() => fetchWithBackoff(url, { headers: { Authorization: `Bearer ${accessToken}` } }));
+      const response = await limitedFetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
       if (!response.ok) return null;
       const data = await response.json();
-      return { ...resource, labelFingerprint: data.labelFingerprint || data.etag || '' };
+      return mapFetchedResource(resource, data);
   } catch (e) { return null; }
 };
 
+/**
+ * Re-reads a single resource from its API.
+ * Returns the local resource overlaid with the server's current labels, status and
+ * concurrency token (labelFingerprint, etag or metageneration, depending on the type),
+ * so callers can 3-way merge or restore against the latest server state.
+ */
+export const fetchResource = async (projectId: string, accessToken: string, resource: GceResource): Promise<GceResource | null> => {
+  const fresh = await readResource(projectId, accessToken, resource);
+  if (!fresh) return null;
+  return {
+      ...resource,
+      labels: fresh.labels,
+      labelFingerprint: fresh.labelFingerprint,
+      status: fresh.status
+  };
+};
+
+/**
+ * Like fetchResource, but returns every field as the API reports it instead of overlaying
+ * the local copy. Only type, name and zone of `resource` need to be set, so this also
+ * materializes resources created since the last scan.
+ */
+export const fetchResourceDetails = async (projectId: string, accessToken: string, resource: GceResource): Promise<GceResource | null> => {
+  const fresh = await readResource(projectId, accessToken, resource);
+  return fresh ? { ...fresh, projectId } : null;
+};
+
+// --- SMART MERGE LOGIC (3-Way Merge) ---
+const mergeConcurrentLabels = (
+  base: Record<string, string>,
+  target: Record<string, string>,
+  head: Record<string, string>
+): Record<string, string> => {
+  // 1. Identify User Intent (Delta): What changed from Base to Target?
+  const userIntentLabels: Record<string, string | null> = {}; // null means deleted
+  
+  // Check for Added or Modified keys
+  Object.keys(target).forEach(key => {
+      if (target[key] !== base[key]) {
+          userIntentLabels[key] = target[key];
+      }
+  });
+  
+  // Check for Deleted keys
+  Object.keys(base).forEach(key => {
+      if (!(key in target)) {
+          userIntentLabels[key] = null;
+      }
+  });
+
+  // 2. Apply User Intent to Fresh Resource (Head)
+  const mergedLabels = { ...head };
+  
+  Object.entries(userIntentLabels).forEach(([key, val]) => {
+      if (val === null) {
+          delete mergedLabels[key];
+      } else {
+          mergedLabels[key] = val;
+      }
+  });
+  return mergedLabels;
+};
+
+const sameLabels = (a: Record<string, string>, b: Record<string, string>) =>
+  Object.keys(a).length === Object.keys(b).length && Object.entries(a).every(([k, v]) => b[k] === v);
+
+// Labels map with removed keys set to null, for APIs whose patch merges label maps
+const withDeletedLabels = (previous: Record<string, string>, next: Record<string, string>) => {
+  const labels: Record<string, string | null> = { ...next };
+  Object.keys(previous).forEach(key => {
+    if (!(key in next)) labels[key] = null;
+  });
+  return labels;
+};
+
 export const updateResourceLabels = async (
   projectId: string,
   accessToken: string,
   resource: GceResource,
   newLabels: Record<string, string>,
   retryOn412 = true
-) => {
+): Promise<any> => {
+  const isPubSub = resource.type === 'PUBSUB_TOPIC' || resource.type === 'PUBSUB_SUBSCRIPTION';
+
+  // Resources from Asset Inventory arrive without a concurrency token. Read the live resource
+  // first so the write carries one, merging in anything that changed since discovery.
+  if (!resource.labelFingerprint && retryOn412 && !isPubSub) {
+    const live = await fetchResource(projectId, accessToken, resource);
+    if (live?.labelFingerprint) {
+      return updateResourceLabels(projectId, accessToken, live, mergeConcurrentLabels(resource.labels, newLabels, live.labels), retryOn412);
+    }
+  }
+
+  // An empty token is a malformed precondition, not an absent one, so it is left out
+  const fingerprint = resource.labelFingerprint || undefined;
   let url = '';
   let method = 'POST';
-  let body: any = { labels: newLabels, labelFingerprint: resource.labelFingerprint };
+  let body: any = { labels: newLabels, labelFingerprint: fingerprint };
+  let preconditionHeaders: Record<string, string> = {};
   
   if (resource.type === 'INSTANCE') { url = `${BASE_URL}/${projectId}/zones/${resource.zone}/instances/${resource.name}/setLabels`; }
-  // ... other types ...
+  else if (resource.type === 'DISK') { url = `${BASE_URL}/${projectId}/${getDiskScope(resource.zone)}/disks/${resource.name}/setLabels`; }
+  else if (resource.type === 'SNAPSHOT') { url = `${BASE_URL}/${projectId}/global/snapshots/${resource.name}/setLabels`; }
+  else if (resource.type === 'IMAGE') { url = `${BASE_URL}/${projectId}/global/images/${resource.name}/setLabels`; }
+  else if (resource.type === 'CLOUD_RUN') {
+    url = `${RUN_BASE_URL}/${projectId}/locations/${resource.zone}/services/${resource.name}?updateMask=labels`;
+    method = 'PATCH';
+    body = { labels: newLabels, etag: fingerprint };
+  }
+  else if (resource.type === 'CLOUD_SQL') {
+    url = `${SQL_ADMIN_URL}/${projectId}/instances/${resource.name}`;
+    method = 'PATCH';
+    // SQL Admin merges userLabels on patch, so removed keys must be sent explicitly as null.
+    // A stale settingsVersion is rejected with 412, which toGcpError classifies as a conflict.
+    body = { settings: { userLabels: withDeletedLabels(resource.labels, newLabels), settingsVersion: fingerprint } };
+  }
+  else if (resource.type === 'BUCKET') {
+    url = `${STORAGE_BASE_URL}/${resource.name}${fingerprint ? `?ifMetagenerationMatch=${fingerprint}` : ''}`;
+    method = 'PATCH';
+    // Storage patch also merges labels; null deletes a key
+    body = { labels: withDeletedLabels(resource.labels, newLabels) };
+  }
+  else if (resource.type === 'FORWARDING_RULE') { url = `${BASE_URL}/${projectId}/${getComputeScope(resource.zone)}/forwardingRules/${resource.name}/setLabels`; }
+  else if (resource.type === 'ADDRESS') { url = `${BASE_URL}/${projectId}/${getComputeScope(resource.zone)}/addresses/${resource.name}/setLabels`; }
+  else if (resource.type === 'GKE_CLUSTER') {
+    url = `${CONTAINER_BASE_URL}/${projectId}/locations/${resource.zone}/clusters/${resource.name}:setResourceLabels`;
+    body = { resourceLabels: newLabels, labelFingerprint: fingerprint };
+  }
+  else if (resource.type === 'BIGQUERY_DATASET') {
+    url = `${BIGQUERY_URL}/${projectId}/datasets/${resource.name}`;
+    method = 'PATCH';
+    // Dataset patch merges labels (null deletes); the etag travels as If-Match and a mismatch is 412
+    body = { labels: withDeletedLabels(resource.labels, newLabels) };
+    if (fingerprint) preconditionHeaders = { 'If-Match': fingerprint };
+  }
+  else if (isPubSub) {
+    const isTopic = resource.type === 'PUBSUB_TOPIC';
+    url = `${PUBSUB_URL}/${projectId}/${isTopic ? 'topics' : 'subscriptions'}/${resource.name}`;
+    method = 'PATCH';
+    body = { [isTopic ? 'topic' : 'subscription']: { labels: newLabels }, updateMask: 'labels' };
+
+    // Pub/Sub has no etag, so the label map is replaced wholesale. Re-read first and merge
+    // if someone else changed labels since discovery.
+    if (retryOn412) {
+      const freshResource = await fetchResource(projectId, accessToken, resource);
+      if (freshResource && !sameLabels(freshResource.labels, resource.labels)) {
+        console.warn(`Concurrent modification detected on ${resource.name}. Merging before write...`);
+        return updateResourceLabels(projectId, accessToken, freshResource, mergeConcurrentLabels(resource.labels, newLabels, freshResource.labels), false);
+      }
+    }
+  }
   else { throw new Error(`Updating labels for type ${resource.type} not supported yet.`); }
   
-  const response = await apiLimiter.add(() => fetchWithBackoff(url, {
+  const response = await limitedFetch(url, {
     method: method,
-    headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+    headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json', ...preconditionHeaders },
     body: JSON.stringify(body),
-  }));
+  });
 
    if (!response.ok) {
-    if (response.status === 412 && retryOn412) {
+    // 412 for fingerprint/etag preconditions; Cloud Run reports an etag mismatch as ABORTED (409)
+    // and GKE as 400 FAILED_PRECONDITION, so go by the classified error rather than the status
+    const error = await toGcpError(response, resource.name);
+    if (error instanceof GcpPreconditionError && retryOn412) {
         console.warn(`Concurrent modification detected on ${resource.name}. Initiating Smart Merge...`);
         
         // Jitter to avoid thunder
@@ -280,63 +1547,132 @@ export const updateResourceLabels = async (
         const freshResource = await fetchResource(projectId, accessToken, resource);
         
         if (freshResource) {
-            // --- SMART MERGE LOGIC (3-Way Merge) ---
-            // 1. Identify User Intent (Delta): What changed from 'resource.labels' (Base) to 'newLabels' (Target)?
-            const userIntentLabels: Record<string, string | null> = {}; // null means deleted
-            
-            const baseKeys = Object.keys(resource.labels);
-            const targetKeys = Object.keys(newLabels);
-            
-            // Check for Added or Modified keys
-            targetKeys.forEach(key => {
-                if (newLabels[key] !== resource.labels[key]) {
-                    userIntentLabels[key] = newLabels[key];
-                }
-            });
-            
-            // Check for Deleted keys
-            baseKeys.forEach(key => {
-                if (!(key in newLabels)) {
-                    userIntentLabels[key] = null;
-                }
-            });
-
-            // 2. Apply User Intent to Fresh Resource (Head)
-            const mergedLabels = { ...freshResource.labels };
-            
-            Object.entries(userIntentLabels).forEach(([key, val]) => {
-                if (val === null) {
-                    delete mergedLabels[key];
-                } else {
-                    mergedLabels[key] = val;
-                }
-            });
-
+            const mergedLabels = mergeConcurrentLabels(resource.labels, newLabels, freshResource.labels);
             console.log(`Merged concurrent changes for ${resource.name}. Retrying update...`);
             
-            // 3. Retry with Merged Labels and Fresh Fingerprint
+            // Retry with Merged Labels and Fresh Fingerprint
             return updateResourceLabels(projectId, accessToken, freshResource, mergedLabels, false);
         }
     }
-    const errorMessage = await parseGcpError(response);
-    throw new Error(errorMessage);
+    throw error;
   }
   return response.json();
 };
 
+/**
+ * Polls a GKE long-running operation until it leaves PENDING/RUNNING.
+ * GKE rejects a second mutation on a cluster while one is in flight.
+ */
+const waitForGkeOperation = async (
+  projectId: string,
+  accessToken: string,
+  location: string,
+  operationName: string,
+  timeoutMs = 120000
+): Promise<void> => {
+  const url = `${CONTAINER_BASE_URL}/${projectId}/locations/${location}/operations/${operationName}`;
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const response = await limitedFetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
+    if (!response.ok) throw await toGcpError(response, operationName);
+    const op = await response.json();
+    if (op.status === 'DONE') {
+      if (op.error) throw new Error(op.error.message || `Operation ${operationName} failed`);
+      return;
+    }
+    await new Promise(r => setTimeout(r, 2000));
+  }
+  throw new Error(`Timed out waiting for GKE operation ${operationName}`);
+};
+
+const setNodePoolLabels = async (projectId: string, accessToken: string, cluster: GceResource, poolName: string, labels: Record<string, string>) => {
+  const url = `${CONTAINER_BASE_URL}/${projectId}/locations/${cluster.zone}/clusters/${cluster.name}/nodePools/${poolName}`;
+  const response = await limitedFetch(url, {
+    method: 'PUT',
+    headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ resourceLabels: { labels } }),
+  });
+
+  if (!response.ok) throw await toGcpError(response, `node pool ${poolName}`);
+  const op = await response.json();
+  if (op?.name) await waitForGkeOperation(projectId, accessToken, cluster.zone, op.name);
+};
+
+/**
+ * Pushes cluster labels down to each node pool's resourceLabels so the backing VMs
+ * inherit cost allocation. Keys removed from the cluster are removed from pools too;
+ * pool-specific keys are preserved. Autopilot clusters manage node labels themselves.
+ */
+export const propagateClusterLabelsToNodePools = async (
+  projectId: string,
+  accessToken: string,
+  cluster: GceResource,
+  newLabels: Record<string, string>,
+  pendingOperationName?: string
+): Promise<void> => {
+  if (cluster.type !== 'GKE_CLUSTER' || cluster.clusterDetails?.isAutopilot) return;
+
+  if (pendingOperationName) {
+    await waitForGkeOperation(projectId, accessToken, cluster.zone, pendingOperationName);
+  }
+
+  const removedKeys = Object.keys(cluster.labels).filter(key => !(key in newLabels));
+
+  // Node pool updates on one cluster must run sequentially
+  for (const pool of cluster.clusterDetails?.nodePools || []) {
+    const poolLabels = { ...(pool.resourceLabels || {}) };
+    removedKeys.forEach(key => delete poolLabels[key]);
+    Object.assign(poolLabels, newLabels);
+    await setNodePoolLabels(projectId, accessToken, cluster, pool.name, poolLabels);
+  }
+};
+
+/**
+ * Writes back the node pool labels recorded on `cluster` (a snapshot taken before a batch),
+ * so a rolled-back cluster does not keep propagated labels on its pools.
+ */
+export const restoreNodePoolLabels = async (
+  projectId: string,
+  accessToken: string,
+  cluster: GceResource,
+  pendingOperationName?: string
+): Promise<void> => {
+  if (cluster.type !== 'GKE_CLUSTER' || cluster.clusterDetails?.isAutopilot) return;
+
+  if (pendingOperationName) {
+    await waitForGkeOperation(projectId, accessToken, cluster.zone, pendingOperationName);
+  }
+  for (const pool of cluster.clusterDetails?.nodePools || []) {
+    await setNodePoolLabels(projectId, accessToken, cluster, pool.name, pool.resourceLabels || {});
+  }
+};
+
 export const ensureGovernanceBucket = async (projectId: string, accessToken: string): Promise<boolean> => {
-  const bucketName = `yalla-gov-${projectId}`;
+  const bucketName = `${GOVERNANCE_BUCKET_PREFIX}${projectId}`;
   const url = `${STORAGE_BASE_URL}/${bucketName}`;
   
   try {
     const check = await fetchWithBackoff(url, { headers: { Authorization: `Bearer ${accessToken}` } });
-    if (check.ok) return true;
+    if (check.ok) {
+      // Tag buckets created before labels were stamped at creation (best effort)
+      const bucket = await check.json();
+      const isTagged = Object.entries(GOVERNANCE_BUCKET_LABELS).every(([k, v]) => bucket.labels?.[k] === v);
+      if (!isTagged) {
+        await fetchWithBackoff(`${url}?ifMetagenerationMatch=${bucket.metageneration}`, {
+          method: 'PATCH',
+          headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ labels: GOVERNANCE_BUCKET_LABELS })
+        }).catch(e => safeLog(`Failed to tag ${bucketName}`, e));
+      }
+      return true;
+    }
     
     if (check.status === 404) {
       const create = await fetchWithBackoff(`${STORAGE_BASE_URL}?project=${projectId}`, {
         method: 'POST',
         headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name: bucketName, location: 'US', storageClass: 'STANDARD', iamConfiguration: { uniformBucketLevelAccess: { enabled: true } } })
+        body: JSON.stringify({ name: bucketName, location: 'US', storageClass: 'STANDARD', labels: GOVERNANCE_BUCKET_LABELS, iamConfiguration: { uniformBucketLevelAccess: { enabled: true }, publicAccessPrevention: 'enforced' } })
       });
       return create.ok;
     }
@@ -349,7 +1685,7 @@ export const fetchFileFromGcs = async (
     accessToken: string, 
     fileName: string
 ): Promise<{ blob: Blob, generation: string } | null> => {
-    const bucketName = `yalla-gov-${projectId}`;
+    const bucketName = `${GOVERNANCE_BUCKET_PREFIX}${projectId}`;
     const url = `${STORAGE_BASE_URL}/${bucketName}/o/${fileName}?alt=media`;
     
     try {
@@ -362,6 +1698,8 @@ export const fetchFileFromGcs = async (
             const generation = res.headers.get('x-goog-generation') || '0';
             return { blob, generation };
         }
+        // 404 just means nothing has been saved yet
+        if (res.status !== 404) safeLog(`Failed to read ${fileName}`, await toGcpError(res, `${bucketName}/${fileName}`));
         return null;
     } catch (e) {
         return null;
@@ -375,7 +1713,7 @@ export const saveFileToGcs = async (
     data: Blob,
     ifGenerationMatch?: string
 ): Promise<string | null> => {
-    const bucketName = `yalla-gov-${projectId}`;
+    const bucketName = `${GOVERNANCE_BUCKET_PREFIX}${projectId}`;
     let url = `https://storage.googleapis.com/upload/storage/v1/b/${bucketName}/o?uploadType=media&name=${fileName}`;
     
     if (ifGenerationMatch) {
@@ -401,7 +1739,7 @@ export const saveFileToGcs = async (
             console.warn(`Optimistic lock failure for ${fileName}. Remote file has changed.`);
             return null;
         } else {
-            throw new Error(`Upload Failed: ${res.statusText}`);
+            throw await toGcpError(res, `${bucketName}/${fileName}`);
         }
     } catch (e) {
         console.error(`Failed to save ${fileName} to GCS`, e);
@@ -409,43 +1747,131 @@ export const saveFileToGcs = async (
     }
 };
 
+const AUDITED_SERVICES = [
+  'compute.googleapis.com', 'run.googleapis.com', 'cloudsql.googleapis.com', 'storage.googleapis.com',
+  'container.googleapis.com', 'bigquery.googleapis.com', 'pubsub.googleapis.com',
+];
+
+// Caps an incremental read; beyond this a full rescan is cheaper anyway
+const MAX_AUDIT_PAGES = 20;
+
+const mapAuditEntry = (e: any): LogEntry => ({
+    id: e.insertId,
+    timestamp: new Date(e.timestamp),
+    severity: e.severity || 'INFO',
+    methodName: e.protoPayload?.methodName || 'Unknown',
+    principalEmail: e.protoPayload?.authenticationInfo?.principalEmail || 'Unknown',
+    resourceName: e.protoPayload?.resourceName?.split('/').pop() || 'Unknown',
+    resourcePath: e.protoPayload?.resourceName,
+    summary: `${e.protoPayload?.methodName} on ${e.protoPayload?.resourceName}`,
+    source: 'GCP',
+    status: e.protoPayload?.status,
+    callerIp: e.protoPayload?.requestMetadata?.callerIp,
+    userAgent: e.protoPayload?.requestMetadata?.callerSuppliedUserAgent,
+    metadata: e.protoPayload?.request,
+    serviceName: e.protoPayload?.serviceName
+});
+
+/**
+ * Reads admin-activity audit entries. Without `since` this returns the latest page for the
+ * log viewer and swallows errors; with `since` it pages forward through everything newer
+ * than the watermark and throws when the window can't be read completely, so incremental
+ * sync never mistakes a failed read for "nothing changed".
+ */
 export const fetchGcpAuditLogs = async (
   projectId: string,
   accessToken: string,
-  pageSize = 50
+  pageSize = 50,
+  since?: Date
 ): Promise<LogEntry[]> => {
+  const services = AUDITED_SERVICES.map(svc => `"${svc}"`).join(' OR ');
+  let filter = `protoPayload.serviceName=(${services}) AND logName:"projects/${projectId}/logs/cloudaudit.googleapis.com%2Factivity"`;
+  if (since) filter += ` AND timestamp>"${since.toISOString()}"`;
+
+  const entries: LogEntry[] = [];
+  let pageToken: string | undefined;
+  let pages = 0;
+
   try {
-    const response = await fetchWithBackoff(LOGGING_URL, {
-      method: 'POST',
-      headers: { 'Authorization': `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        resourceNames: [`projects/${projectId}`],
-        filter: `protoPayload.serviceName=("compute.googleapis.com" OR "run.googleapis.com" OR "cloudsql.googleapis.com") AND logName:"projects/${projectId}/logs/cloudaudit.googleapis.com%2Factivity"`,
-        orderBy: 'timestamp desc',
-        pageSize
-      })
-    });
+    do {
+      const response = await fetchWithBackoff(LOGGING_URL, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          resourceNames: [`projects/${projectId}`],
+          filter,
+          orderBy: since ? 'timestamp asc' : 'timestamp desc',
+          pageSize,
+          pageToken
+        })
+      });
 
-    if (!response.ok) return [];
-    const data = await response.json();
-    if (!data.entries) return [];
-
-    return data.entries.map((e: any) => ({
-        id: e.insertId,
-        timestamp: new Date(e.timestamp),
-        severity: e.severity || 'INFO',
-        methodName: e.protoPayload?.methodName || 'Unknown',
-        principalEmail: e.protoPayload?.authenticationInfo?.principalEmail || 'Unknown',
-        resourceName: e.protoPayload?.resourceName?.split('/').pop() || 'Unknown',
-        summary: `${e.protoPayload?.methodName} on ${e.protoPayload?.resourceName}`,
-        source: 'GCP',
-        status: e.protoPayload?.status,
-        callerIp: e.protoPayload?.requestMetadata?.callerIp,
-        userAgent: e.protoPayload?.requestMetadata?.callerSuppliedUserAgent,
-        metadata: e.protoPayload?.request,
-        serviceName: e.protoPayload?.serviceName
-    }));
+      if (!response.ok) {
+        if (since) throw await toGcpError(response, `projects/${projectId}/logs`);
+        return [];
+      }
+      const data = await response.json();
+      entries.push(...(data.entries || []).map(mapAuditEntry));
+      pageToken = since ? data.nextPageToken : undefined;
+    } while (pageToken && ++pages < MAX_AUDIT_PAGES);
   } catch (error) {
+    if (since) throw error;
     return [];
   }
+
+  if (pageToken) throw new Error(`More than ${MAX_AUDIT_PAGES} pages of activity since last sync`);
+  return entries;
+};
+
+// Audit resource names, matched at the end so sub-resources (node pools, tables) don't count.
+// Group 1 is the location (empty for global collections), group 2 the resource name.
+const AUDIT_RESOURCE_PATTERNS: { type: ResourceType; pattern: RegExp }[] = [
+  { type: 'INSTANCE', pattern: /zones\/([^/]+)\/instances\/([^/]+)$/ },
+  { type: 'DISK', pattern: /(?:zones|regions)\/([^/]+)\/disks\/([^/]+)$/ },
+  { type: 'SNAPSHOT', pattern: /global\/snapshots()\/([^/]+)$/ },
+  { type: 'IMAGE', pattern: /global\/images()\/([^/]+)$/ },
+  { type: 'VPC_NETWORK', pattern: /global\/networks()\/([^/]+)$/ },
+  { type: 'FIREWALL_RULE', pattern: /global\/firewalls()\/([^/]+)$/ },
+  { type: 'FORWARDING_RULE', pattern: /(?:regions\/([^/]+)|global)\/(?:globalF|f)orwardingRules\/([^/]+)$/ },
+  { type: 'ADDRESS', pattern: /(?:regions\/([^/]+)|global)\/(?:globalA|a)ddresses\/([^/]+)$/ },
+  { type: 'CLOUD_RUN', pattern: /(?:locations\/([^/]+)\/|namespaces\/[^/]+\/)services\/([^/]+)$/ },
+  { type: 'CLOUD_SQL', pattern: /projects\/[^/]+\/instances()\/([^/]+)$/ },
+  { type: 'BUCKET', pattern: /buckets()\/([^/]+)$/ },
+  { type: 'GKE_CLUSTER', pattern: /(?:zones|locations)\/([^/]+)\/clusters\/([^/]+)$/ },
+  { type: 'BIGQUERY_DATASET', pattern: /datasets()\/([^/]+)$/ },
+  { type: 'PUBSUB_TOPIC', pattern: /topics()\/([^/]+)$/ },
+  { type: 'PUBSUB_SUBSCRIPTION', pattern: /subscriptions()\/([^/]+)$/ },
+];
+
+const GLOBAL_AUDIT_TYPES: ResourceType[] = ['SNAPSHOT', 'IMAGE', 'VPC_NETWORK', 'FIREWALL_RULE', 'PUBSUB_TOPIC', 'PUBSUB_SUBSCRIPTION'];
+
+// Addressed by project and name alone, so their audit names never need to carry a location
+const LOCATION_FREE_TYPES: ResourceType[] = ['CLOUD_SQL', 'BUCKET', 'BIGQUERY_DATASET'];
+
+/** Whether the change identifies a single resource that can be re-read (location known, or not needed). */
+export const isChangeAddressable = (change: ResourceChange) => !!change.zone || LOCATION_FREE_TYPES.includes(change.type);
+
+/**
+ * Turns an admin-activity entry into the resource it touched, or null for entries that
+ * failed, target unmodeled resources, or only touch sub-resources.
+ */
+export const parseResourceChange = (entry: LogEntry, projectId: string): ResourceChange | null => {
+  if (!entry.resourcePath || entry.status?.code) return null;
+
+  for (const { type, pattern } of AUDIT_RESOURCE_PATTERNS) {
+    const match = entry.resourcePath.match(pattern);
+    if (!match) continue;
+
+    // Compute/SQL/Storage methods end in the verb (instances.delete); gRPC-style ones lead with it (DeleteTopic)
+    const verb = entry.methodName.split('.').pop() || '';
+    return {
+      type,
+      name: match[2],
+      zone: match[1] || (GLOBAL_AUDIT_TYPES.includes(type) || /\/global\//.test(entry.resourcePath) ? 'global' : undefined),
+      projectId,
+      action: /^delete/i.test(verb) ? 'DELETE' : 'UPSERT',
+      timestamp: entry.timestamp,
+    };
+  }
+  return null;
 };
@@ -205,6 +205,23 @@ export const generateComplianceReport = async (
           case 'SNAPSHOT':
               base = (parseInt(r.sizeGb || '0', 10) || 1) * 0.026;
               break;
+          case 'FORWARDING_RULE':
+              base = 18; // First five rules are billed hourly
+              break;
+          case 'ADDRESS':
+              base = 7; // Static external IPv4, in use or reserved
+              break;
+          case 'BIGQUERY_DATASET':
+              base = 40; // Storage + on-demand query baseline
+              break;
+          case 'PUBSUB_TOPIC':
+          case 'PUBSUB_SUBSCRIPTION':
+              base = 5; // Throughput-billed; small steady-state baseline
+              break;
+          case 'VPC_NETWORK':
+          case 'FIREWALL_RULE':
+              base = 0; // No standing charge
+              break;
           default:
               base = 10;
       }
@@ -216,7 +233,11 @@ export const generateComplianceReport = async (
       .filter(r => Object.keys(r.labels).length === 0 || !r.labels['cost-center'])
       .reduce((acc, r) => acc + estimateMonthlyCost(r), 0);
 
-  const zombieResources = resources.filter(r => r.status === 'STOPPED' || r.status === 'TERMINATED');
+  const zombieResources = resources.filter(r =>
+      r.status === 'STOPPED' || r.status === 'TERMINATED' ||
+      (r.type === 'ADDRESS' && r.status === 'RESERVED') ||
+      (r.type === 'FORWARDING_RULE' && r.status === 'IDLE')
+  );
   
   // Find top waste resource
   const topWasteResource = zombieResources.sort((a,b) => estimateMonthlyCost(b) - estimateMonthlyCost(a))[0];
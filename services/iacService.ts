@@ -3,31 +3,67 @@ import { GceResource } from '../types';
 
 const sanitizeTfId = (name: string) => name.replace(/[^a-zA-Z0-9_-]/g, '_');
 
-const getTerraformType = (type: string): string => {
-    switch (type) {
+// Forwarding rules and addresses map to separate global and regional IaC types
+const isGlobal = (r: GceResource) => r.zone === 'global';
+
+const getLocationKey = (r: GceResource): string => {
+    if (r.type === 'CLOUD_RUN' || r.type === 'GKE_CLUSTER') return 'location';
+    if (r.type === 'FORWARDING_RULE' || r.type === 'ADDRESS') return 'region';
+    if (r.type === 'BIGQUERY_DATASET') return 'location';
+    return 'zone';
+};
+
+const getTerraformType = (r: GceResource): string => {
+    switch (r.type) {
         case 'INSTANCE': return 'google_compute_instance';
         case 'DISK': return 'google_compute_disk';
+        case 'SNAPSHOT': return 'google_compute_snapshot';
+        case 'IMAGE': return 'google_compute_image';
         case 'BUCKET': return 'google_storage_bucket';
         case 'CLOUD_SQL': return 'google_sql_database_instance';
         case 'GKE_CLUSTER': return 'google_container_cluster';
         case 'CLOUD_RUN': return 'google_cloud_run_v2_service'; 
+        case 'VPC_NETWORK': return 'google_compute_network';
+        case 'FIREWALL_RULE': return 'google_compute_firewall';
+        case 'FORWARDING_RULE': return isGlobal(r) ? 'google_compute_global_forwarding_rule' : 'google_compute_forwarding_rule';
+        case 'ADDRESS': return isGlobal(r) ? 'google_compute_global_address' : 'google_compute_address';
+        case 'BIGQUERY_DATASET': return 'google_bigquery_dataset';
+        case 'PUBSUB_TOPIC': return 'google_pubsub_topic';
+        case 'PUBSUB_SUBSCRIPTION': return 'google_pubsub_subscription';
         default: return 'google_compute_instance'; // Fallback
     }
 };
 
-const getPulumiType = (type: string): string => {
-    switch (type) {
+const getPulumiType = (r: GceResource): string => {
+    switch (r.type) {
         case 'INSTANCE': return 'gcp.compute.Instance';
         case 'DISK': return 'gcp.compute.Disk';
+        case 'SNAPSHOT': return 'gcp.compute.Snapshot';
+        case 'IMAGE': return 'gcp.compute.Image';
         case 'BUCKET': return 'gcp.storage.Bucket';
         case 'CLOUD_SQL': return 'gcp.sql.DatabaseInstance';
         case 'GKE_CLUSTER': return 'gcp.container.Cluster';
         case 'CLOUD_RUN': return 'gcp.cloudrunv2.Service';
+        case 'VPC_NETWORK': return 'gcp.compute.Network';
+        case 'FIREWALL_RULE': return 'gcp.compute.Firewall';
+        case 'FORWARDING_RULE': return isGlobal(r) ? 'gcp.compute.GlobalForwardingRule' : 'gcp.compute.ForwardingRule';
+        case 'ADDRESS': return isGlobal(r) ? 'gcp.compute.GlobalAddress' : 'gcp.compute.Address';
+        case 'BIGQUERY_DATASET': return 'gcp.bigquery.Dataset';
+        case 'PUBSUB_TOPIC': return 'gcp.pubsub.Topic';
+        case 'PUBSUB_SUBSCRIPTION': return 'gcp.pubsub.Subscription';
         default: return 'gcp.compute.Instance';
     }
 };
 
-const getGcloudCommand = (r: GceResource): string | null => {
+const getGcloudCommand = (r: GceResource, defaultProjectId: string): string | null => {
+    const cmd = getGcloudLabelCommand(r);
+    // bq addresses foreign projects inside the dataset reference instead of a flag
+    if (!cmd || cmd.startsWith('#') || cmd.startsWith('bq ')) return cmd;
+    // Resources from a folder/org scan may live outside the configured default project
+    return r.projectId && r.projectId !== defaultProjectId ? `${cmd} --project=${r.projectId}` : cmd;
+};
+
+const getGcloudLabelCommand = (r: GceResource): string | null => {
     const labels = Object.entries(r.labels).map(([k,v]) => `${k}=${v}`).join(',');
     if (!labels) return null;
 
@@ -36,6 +72,10 @@ const getGcloudCommand = (r: GceResource): string | null => {
             return `gcloud compute instances update ${r.name} --zone=${r.zone} --update-labels=${labels}`;
         case 'DISK': 
             return `gcloud compute disks update ${r.name} --zone=${r.zone} --update-labels=${labels}`;
+        case 'SNAPSHOT':
+            return `gcloud compute snapshots update ${r.name} --update-labels=${labels}`;
+        case 'IMAGE':
+            return `gcloud compute images update ${r.name} --update-labels=${labels}`;
         case 'BUCKET': 
             return `gcloud storage buckets update gs://${r.name} --update-labels=${labels}`;
         case 'GKE_CLUSTER':
@@ -44,6 +84,18 @@ const getGcloudCommand = (r: GceResource): string | null => {
             return `gcloud sql instances patch ${r.name} --update-labels=${labels}`;
         case 'CLOUD_RUN':
             return `gcloud run services update ${r.name} --location=${r.zone} --update-labels=${labels}`;
+        case 'FORWARDING_RULE':
+            return `gcloud compute forwarding-rules update ${r.name} ${isGlobal(r) ? '--global' : `--region=${r.zone}`} --update-labels=${labels}`;
+        case 'ADDRESS':
+            return `gcloud compute addresses update ${r.name} ${isGlobal(r) ? '--global' : `--region=${r.zone}`} --update-labels=${labels}`;
+        case 'BIGQUERY_DATASET': {
+            const setLabels = Object.entries(r.labels).map(([k, v]) => `--set_label ${k}:${v}`).join(' ');
+            return `bq update ${setLabels} ${r.projectId ? `${r.projectId}:` : ''}${r.name}`;
+        }
+        case 'PUBSUB_TOPIC':
+            return `gcloud pubsub topics update ${r.name} --update-labels=${labels}`;
+        case 'PUBSUB_SUBSCRIPTION':
+            return `gcloud pubsub subscriptions update ${r.name} --update-labels=${labels}`;
         default:
             return `# Resource type ${r.type} requires manual update`;
     }
@@ -64,7 +116,11 @@ export const generateTerraformCode = (resources: GceResource[], projectId: strin
     }
 
     resources.forEach(r => {
-        const tfType = getTerraformType(r.type);
+        if (r.type === 'ASSET') {
+            lines.push(`# Skipped ${r.name}: ${r.assetType || 'asset type'} is not modeled natively\n`);
+            return;
+        }
+        const tfType = getTerraformType(r);
         const tfId = sanitizeTfId(r.name);
         
         if (mode === 'LABELS_ONLY') {
@@ -83,11 +139,12 @@ export const generateTerraformCode = (resources: GceResource[], projectId: strin
 
         // FULL Mode
         lines.push(`resource "${tfType}" "${tfId}" {`);
-        lines.push(`  name    = "${r.name}"`);
-        lines.push(`  project = "${projectId}"`);
+        if (r.type === 'BIGQUERY_DATASET') lines.push(`  dataset_id = "${r.name}"`);
+        else lines.push(`  name    = "${r.name}"`);
+        lines.push(`  project = "${r.projectId || projectId}"`);
         
         if (r.zone && r.zone !== 'global') {
-            const locationKey = r.type === 'CLOUD_RUN' || r.type === 'GKE_CLUSTER' ? 'location' : 'zone';
+            const locationKey = getLocationKey(r);
             lines.push(`  ${locationKey}    = "${r.zone}"`);
         }
 
@@ -118,15 +175,19 @@ export const generatePulumiCode = (resources: GceResource[], projectId: string):
     lines.push(`// Project: ${projectId}\n`);
 
     resources.forEach(r => {
-        const type = getPulumiType(r.type);
+        if (r.type === 'ASSET') {
+            lines.push(`// Skipped ${r.name}: ${r.assetType || 'asset type'} is not modeled natively\n`);
+            return;
+        }
+        const type = getPulumiType(r);
         const name = sanitizeTfId(r.name);
         
         lines.push(`const ${name} = new ${type}("${r.name}", {`);
-        lines.push(`    name: "${r.name}",`);
-        lines.push(`    project: "${projectId}",`);
+        lines.push(r.type === 'BIGQUERY_DATASET' ? `    datasetId: "${r.name}",` : `    name: "${r.name}",`);
+        lines.push(`    project: "${r.projectId || projectId}",`);
         
         if (r.zone && r.zone !== 'global') {
-            const key = r.type === 'CLOUD_RUN' || r.type === 'GKE_CLUSTER' ? 'location' : 'zone';
+            const key = getLocationKey(r);
             lines.push(`    ${key}: "${r.zone}",`);
         }
 
@@ -153,7 +214,7 @@ export const generateGcloudScript = (resources: GceResource[], projectId: string
     lines.push(`gcloud config set project ${projectId}\n`);
 
     resources.forEach(r => {
-        const cmd = getGcloudCommand(r);
+        const cmd = getGcloudCommand(r, projectId);
         if (cmd) {
             lines.push(`echo "Updating ${r.name}..."`);
             lines.push(cmd);
@@ -170,20 +231,38 @@ export const generateTerraformImports = (resources: GceResource[], projectId: st
     lines.push(`# Run these to bring unmanaged resources into your state file\n`);
 
     resources.forEach(r => {
-        const tfType = getTerraformType(r.type);
+        const tfType = getTerraformType(r);
         const tfId = sanitizeTfId(r.name);
+        const project = r.projectId || projectId;
         
         let gcpId = '';
         if (r.type === 'INSTANCE' || r.type === 'DISK') {
-            gcpId = `projects/${projectId}/zones/${r.zone}/${tfType === 'google_compute_disk' ? 'disks' : 'instances'}/${r.name}`;
+            gcpId = `projects/${project}/zones/${r.zone}/${tfType === 'google_compute_disk' ? 'disks' : 'instances'}/${r.name}`;
+        } else if (r.type === 'SNAPSHOT') {
+            gcpId = `projects/${project}/global/snapshots/${r.name}`;
+        } else if (r.type === 'IMAGE') {
+            gcpId = `projects/${project}/global/images/${r.name}`;
         } else if (r.type === 'BUCKET') {
             gcpId = `${r.name}`;
         } else if (r.type === 'CLOUD_RUN') {
-            gcpId = `projects/${projectId}/locations/${r.zone}/services/${r.name}`;
+            gcpId = `projects/${project}/locations/${r.zone}/services/${r.name}`;
         } else if (r.type === 'CLOUD_SQL') {
-            gcpId = `projects/${projectId}/instances/${r.name}`;
+            gcpId = `projects/${project}/instances/${r.name}`;
         } else if (r.type === 'GKE_CLUSTER') {
-            gcpId = `projects/${projectId}/locations/${r.zone}/clusters/${r.name}`;
+            gcpId = `projects/${project}/locations/${r.zone}/clusters/${r.name}`;
+        } else if (r.type === 'VPC_NETWORK') {
+            gcpId = `projects/${project}/global/networks/${r.name}`;
+        } else if (r.type === 'FIREWALL_RULE') {
+            gcpId = `projects/${project}/global/firewalls/${r.name}`;
+        } else if (r.type === 'FORWARDING_RULE' || r.type === 'ADDRESS') {
+            const collection = r.type === 'ADDRESS' ? 'addresses' : 'forwardingRules';
+            gcpId = `projects/${project}/${isGlobal(r) ? 'global' : `regions/${r.zone}`}/${collection}/${r.name}`;
+        } else if (r.type === 'BIGQUERY_DATASET') {
+            gcpId = `projects/${project}/datasets/${r.name}`;
+        } else if (r.type === 'PUBSUB_TOPIC') {
+            gcpId = `projects/${project}/topics/${r.name}`;
+        } else if (r.type === 'PUBSUB_SUBSCRIPTION') {
+            gcpId = `projects/${project}/subscriptions/${r.name}`;
         }
 
         if (gcpId) {
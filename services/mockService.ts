@@ -12,18 +12,20 @@ const USERS = [
 
 const ACTIONS = ['UPDATE', 'APPLY_PROPOSAL'];
 
-const generateHistory = (count: number): LabelHistoryEntry[] => {
+// Randomness and the clock are injectable so the GCP emulator can seed a reproducible estate
+type Random = () => number;
+
+const generateHistory = (count: number, random: Random, now: number): LabelHistoryEntry[] => {
   if (count === 0) return [];
   const history: LabelHistoryEntry[] = [];
-  const now = Date.now();
   
   for (let i = 0; i < count; i++) {
     // Random time in last 30 days
-    const timeOffset = Math.floor(Math.random() * 30 * 24 * 60 * 60 * 1000); 
+    const timeOffset = Math.floor(random() * 30 * 24 * 60 * 60 * 1000); 
     history.push({
       timestamp: new Date(now - timeOffset),
-      actor: USERS[Math.floor(Math.random() * USERS.length)],
-      changeType: ACTIONS[Math.floor(Math.random() * ACTIONS.length)] as any,
+      actor: USERS[Math.floor(random() * USERS.length)],
+      changeType: ACTIONS[Math.floor(random() * ACTIONS.length)] as any,
       previousLabels: { 'env': 'dev', 'temp': 'true' },
       newLabels: { 'env': 'prod', 'cost-center': 'cc-102' }
     });
@@ -34,15 +36,17 @@ const generateHistory = (count: number): LabelHistoryEntry[] => {
 // --- Scenario Builders ---
 
 const createResource = (
-  partial: Partial<GceResource> & { name: string, type: ResourceType, zone: string }
+  partial: Partial<GceResource> & { name: string, type: ResourceType, zone: string },
+  random: Random,
+  now: number
 ): GceResource => {
   return {
-    id: Math.random().toString(36).substring(2, 18),
+    id: random().toString(36).substring(2, 18),
     status: 'RUNNING',
-    creationTimestamp: new Date(Date.now() - Math.floor(Math.random() * 90 * 24 * 60 * 60 * 1000)).toISOString(),
+    creationTimestamp: new Date(now - Math.floor(random() * 90 * 24 * 60 * 60 * 1000)).toISOString(),
     labels: {},
     labelFingerprint: 'mock-fingerprint',
-    history: generateHistory(Math.random() > 0.7 ? 2 : 0),
+    history: generateHistory(random() > 0.7 ? 2 : 0, random, now),
     provisioningModel: 'STANDARD',
     ...partial
   };
@@ -51,8 +55,9 @@ const createResource = (
 /**
  * Generates a realistic Enterprise environment
  */
-export const generateMockResources = (count: number = 50): GceResource[] => {
+export const generateMockResources = (count: number = 50, random: Random = Math.random, now: number = Date.now()): GceResource[] => {
   const resources: GceResource[] = [];
+  const make = (partial: Parameters<typeof createResource>[0]) => createResource(partial, random, now);
 
   // 1. The "Legacy Production" Monolith (High Cost, Stable)
   // -------------------------------------------------------
@@ -60,7 +65,7 @@ export const generateMockResources = (count: number = 50): GceResource[] => {
   const prodSubnet = 'subnet-us-central1';
   
   // Database Primary
-  resources.push(createResource({
+  resources.push(make({
     name: 'prod-legacy-db-primary',
     type: 'CLOUD_SQL',
     zone: 'us-central1-a',
@@ -74,7 +79,7 @@ export const generateMockResources = (count: number = 50): GceResource[] => {
 
   // App Servers Group
   for(let i=1; i<=3; i++) {
-    resources.push(createResource({
+    resources.push(make({
       name: `prod-app-server-0${i}`,
       type: 'INSTANCE',
       zone: 'us-central1-a',
@@ -89,7 +94,7 @@ export const generateMockResources = (count: number = 50): GceResource[] => {
   // 2. The "Modern Cloud Native" Stack (GKE + Cloud Run)
   // ----------------------------------------------------
   // GKE Cluster
-  resources.push(createResource({
+  resources.push(make({
     name: 'k8s-prod-us-east',
     type: 'GKE_CLUSTER',
     zone: 'us-east1-b',
@@ -108,7 +113,7 @@ export const generateMockResources = (count: number = 50): GceResource[] => {
 
   // Microservices (Cloud Run)
   ['payment-service', 'auth-service', 'notification-service'].forEach((svc, idx) => {
-    resources.push(createResource({
+    resources.push(make({
       name: `prod-${svc}`,
       type: 'CLOUD_RUN',
       zone: 'us-east1',
@@ -125,7 +130,7 @@ export const generateMockResources = (count: number = 50): GceResource[] => {
   const devNet = 'default';
   
   // Huge Stopped GPU Instance (Waste)
-  resources.push(createResource({
+  resources.push(make({
     name: 'dev-ml-experiment-gpu',
     type: 'INSTANCE',
     zone: 'us-west1-b',
@@ -142,7 +147,7 @@ export const generateMockResources = (count: number = 50): GceResource[] => {
 
   // Unlabeled Test VMs
   for(let i=1; i<=4; i++) {
-    resources.push(createResource({
+    resources.push(make({
       name: `test-box-${i}`,
       type: 'INSTANCE',
       zone: 'us-west1-b',
@@ -156,19 +161,78 @@ export const generateMockResources = (count: number = 50): GceResource[] => {
   }
 
   // Orphaned Disks
-  resources.push(createResource({
+  resources.push(make({
     name: 'backup-disk-nov-2023',
     type: 'DISK',
     zone: 'us-central1-a',
     sizeGb: '500',
     machineType: 'pd-standard',
-    status: 'READY', // Not attached
+    status: 'READY',
+    users: [], // Not attached
     labels: { description: 'do-not-delete' }
   }));
 
+  // Networking: open firewall + forgotten static IP (Risk & Waste)
+  resources.push(make({
+    name: 'default-allow-ssh',
+    type: 'FIREWALL_RULE',
+    zone: 'global',
+    status: 'ENABLED',
+    labels: {},
+    labelFingerprint: '',
+    networkDetails: { network: devNet, direction: 'INGRESS', priority: 65534, sourceRanges: ['0.0.0.0/0'], allowed: ['tcp:22'], openToInternet: true }
+  }));
+
+  resources.push(make({
+    name: 'old-demo-static-ip',
+    type: 'ADDRESS',
+    zone: 'us-west1',
+    status: 'RESERVED',
+    users: [],
+    labels: { 'env': 'dev' },
+    networkDetails: { ipAddress: '34.82.11.7', addressType: 'EXTERNAL' }
+  }));
+
+  resources.push(make({
+    name: 'prod-web-lb-frontend',
+    type: 'FORWARDING_RULE',
+    zone: 'global',
+    status: 'ACTIVE',
+    labels: { environment: 'production', 'cost-center': 'cc-600', owner: 'platform-eng' },
+    networkDetails: { ipAddress: '34.120.5.10', target: 'prod-web-https-proxy', loadBalancingScheme: 'EXTERNAL_MANAGED', portRange: '443-443' }
+  }));
+
+  // Analytics & Messaging (Unallocated spend)
+  resources.push(make({
+    name: 'analytics_events_raw',
+    type: 'BIGQUERY_DATASET',
+    zone: 'us',
+    status: 'READY',
+    labels: { environment: 'production' }, // Missing cost-center
+    labelFingerprint: 'mock-etag'
+  }));
+
+  resources.push(make({
+    name: 'orders-events',
+    type: 'PUBSUB_TOPIC',
+    zone: 'global',
+    status: 'ACTIVE',
+    labels: { environment: 'production', 'cost-center': 'cc-600', owner: 'platform-eng' },
+    pubsubDetails: { messageRetention: '604800s' }
+  }));
+
+  resources.push(make({
+    name: 'legacy-audit-sub',
+    type: 'PUBSUB_SUBSCRIPTION',
+    zone: 'global',
+    status: 'ACTIVE',
+    labels: {},
+    pubsubDetails: { topic: '_deleted-topic_', deliveryType: 'PULL', ackDeadlineSeconds: 10 }
+  }));
+
   // 4. Global Storage
   // -----------------
-  resources.push(createResource({
+  resources.push(make({
     name: 'company-assets-public',
     type: 'BUCKET',
     zone: 'us-multi-region',
@@ -179,7 +243,7 @@ export const generateMockResources = (count: number = 50): GceResource[] => {
     labels: { 'data-classification': 'public', environment: 'production' }
   }));
 
-  resources.push(createResource({
+  resources.push(make({
     name: 'finance-records-archive',
     type: 'BUCKET',
     zone: 'us-east1',
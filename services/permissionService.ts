@@ -0,0 +1,67 @@
+import { GceResource, ProjectCapabilities, ResourceType, ScanScope, TypeCapability } from '../types';
+import { HIERARCHY_PERMISSIONS, PROJECT_PERMISSIONS, RESOURCE_PERMISSIONS } from '../constants';
+import { testProjectPermissions, testScopePermissions } from './gcpService';
+import { isAuthError, describeError } from './gcpErrors';
+
+const MANAGED_TYPES = Object.keys(RESOURCE_PERMISSIONS) as Exclude<ResourceType, 'ASSET'>[];
+
+const buildCapabilities = (projectId: string, granted: string[]): ProjectCapabilities => {
+  const grantedSet = new Set(granted);
+  const types: Partial<Record<ResourceType, TypeCapability>> = {};
+
+  MANAGED_TYPES.forEach(type => {
+    const { list, update, globalUpdate = [] } = RESOURCE_PERMISSIONS[type];
+    const missing = [...list, ...update, ...globalUpdate].filter(p => !grantedSet.has(p));
+    types[type] = {
+      canList: list.some(p => grantedSet.has(p)),
+      // Unlabelable types have no update permissions; they are never writable
+      canUpdate: update.length > 0 && update.every(p => grantedSet.has(p)),
+      missing,
+    };
+  });
+
+  return { projectId, checkedAt: new Date(), granted, types };
+};
+
+/**
+ * Runs testIamPermissions once per project for every project-level permission the app uses and folds the
+ * result into per-type capabilities. A project whose check fails is reported with `error`
+ * rather than failing the whole preflight; a 401 still propagates.
+ */
+export const preflightPermissions = async (projectIds: string[], accessToken: string): Promise<ProjectCapabilities[]> => {
+  if (accessToken === 'demo-mode') {
+    return projectIds.map(projectId => buildCapabilities(projectId, PROJECT_PERMISSIONS));
+  }
+
+  return Promise.all(projectIds.map(async (projectId) => {
+    try {
+      const granted = await testProjectPermissions(projectId, accessToken, PROJECT_PERMISSIONS);
+      return buildCapabilities(projectId, granted);
+    } catch (e: any) {
+      if (isAuthError(e)) throw e;
+      return { projectId, checkedAt: new Date(), granted: [], types: {}, error: describeError(e) };
+    }
+  }));
+};
+
+/**
+ * Hierarchy permissions the caller lacks on a folder or organization scan scope, checked on
+ * that folder/org itself. Projects have nothing to walk, so a project scope never lacks any.
+ */
+export const getMissingScopePermissions = async (scope: ScanScope, accessToken: string): Promise<string[]> => {
+  if (scope.type === 'PROJECT' || accessToken === 'demo-mode') return [];
+  const granted = new Set(await testScopePermissions(scope, accessToken, HIERARCHY_PERMISSIONS));
+  return HIERARCHY_PERMISSIONS.filter(p => !granted.has(p));
+};
+
+/**
+ * Permissions the caller lacks to write labels on this resource. Empty when allowed, or when
+ * the project was never checked (unknown capabilities do not block writes).
+ */
+export const getMissingUpdatePermissions = (resource: GceResource, capabilities?: ProjectCapabilities): string[] => {
+  if (!capabilities || capabilities.error || resource.type === 'ASSET') return [];
+  const { update, globalUpdate } = RESOURCE_PERMISSIONS[resource.type];
+  const required = resource.zone === 'global' && globalUpdate ? globalUpdate : update;
+  const granted = new Set(capabilities.granted);
+  return required.filter(p => !granted.has(p));
+};
@@ -1,5 +1,5 @@
 
-import { LabelHistoryEntry, TaxonomyRule, GovernancePolicy, SavedView, AppSettings, GceResource, TimelineEntry, ResourceSnapshot, SavedPipeline } from '../types';
+import { LabelHistoryEntry, TaxonomyRule, GovernancePolicy, PolicyException, SavedView, AppSettings, GceResource, TimelineEntry, ResourceSnapshot, SavedPipeline } from '../types';
 import { ensureGovernanceBucket, fetchFileFromGcs, saveFileToGcs } from './gcpService';
 import { compressData, decompressData } from '../utils/compression';
 import { restoreGovernanceContext, getPolicies, DEFAULT_TAXONOMY } from './policyService';
@@ -21,6 +21,7 @@ export interface GovernanceRecord {
   projectId: string;
   taxonomy: TaxonomyRule[];
   policies: GovernancePolicy[]; 
+  exceptions?: PolicyException[]; // Absent in records saved before exceptions existed
   savedViews: SavedView[];
   savedPipelines: SavedPipeline[];
   settings: Partial<AppSettings>;
@@ -114,6 +115,11 @@ class PersistenceService {
     }
   }
 
+  // Keeps background GCS syncs working after an OAuth session refreshes its access token
+  updateAccessToken(accessToken: string) {
+    if (!this.isDemoMode) this.currentToken = accessToken;
+  }
+
   private clearMemory() {
       this.memoryHistoryCache.clear();
       this.memoryGovCache = null;
@@ -326,6 +332,7 @@ class PersistenceService {
           projectId, 
           taxonomy: DEFAULT_TAXONOMY, 
           policies: getPolicies(DEFAULT_TAXONOMY),
+          exceptions: [],
           savedViews: [], 
           savedPipelines: [],
           settings: {},
@@ -0,0 +1,51 @@
+import { GceResource, PolicyException } from '../types';
+import { matchesScope, validateScope, describeScope } from './policyScope';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Exceptions nearing expiry are surfaced on the dashboard so they get renewed or fixed in time
+export const EXPIRING_SOON_DAYS = 14;
+
+export const isExceptionActive = (exception: PolicyException, now = Date.now()) => exception.expiresAt > now;
+
+// An empty selector would waive the policy for the whole inventory, so it never matches. Neither
+// does an invalid one: matchesScope skips a bad labelSelector, which for a waiver would widen it.
+const appliesTo = (exception: PolicyException, resource: GceResource) => {
+  if (exception.resourceId) return exception.resourceId === resource.id;
+  if (!exception.selector || describeScope(exception.selector).length === 0) return false;
+  if (validateScope(exception.selector)) return false;
+  return matchesScope(resource, exception.selector);
+};
+
+/** The active exception waiving `policyId` for the resource, if any. Resource-specific exceptions win over selectors. */
+export const findException = (
+  resource: GceResource,
+  policyId: string,
+  exceptions: PolicyException[],
+  now = Date.now()
+): PolicyException | undefined => {
+  const candidates = exceptions.filter(e => e.policyId === policyId && isExceptionActive(e, now) && appliesTo(e, resource));
+  return candidates.find(e => e.resourceId) || candidates[0];
+};
+
+/** Active exceptions expiring within `days`, soonest first. */
+export const getExpiringExceptions = (exceptions: PolicyException[], days = EXPIRING_SOON_DAYS, now = Date.now()) =>
+  exceptions
+    .filter(e => isExceptionActive(e, now) && e.expiresAt - now <= days * DAY_MS)
+    .sort((a, b) => a.expiresAt - b.expiresAt);
+
+export const daysUntilExpiry = (exception: PolicyException, now = Date.now()) =>
+  Math.ceil((exception.expiresAt - now) / DAY_MS);
+
+export const validateException = (exception: Partial<PolicyException>, now = Date.now()): string | null => {
+  if (!exception.policyId) return 'Select the policy to waive';
+  if (!exception.resourceId) {
+    if (!exception.selector || describeScope(exception.selector).length === 0) return 'Select a resource or narrow the selector';
+    const selectorError = validateScope(exception.selector);
+    if (selectorError) return selectorError;
+  }
+  if (!exception.justification?.trim()) return 'A justification is required';
+  if (!exception.approver?.trim()) return 'An approver is required';
+  if (!exception.expiresAt || exception.expiresAt <= now) return 'Expiry must be in the future';
+  return null;
+};
@@ -0,0 +1,491 @@
+import { GceResource } from '../types';
+
+/**
+ * A small CEL-like expression language for CUSTOM policy rules, e.g.
+ *   labels.environment == "production" && !has(labels.owner)
+ * Expressions are parsed into an AST and interpreted; nothing is ever passed to eval/Function.
+ *
+ * Differences from CEL, chosen for labeling rules: a missing map key or absent field reads as
+ * null instead of raising, and has() treats an empty label value as absent (like REQUIRED_LABEL).
+ */
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_DEPTH = 64;
+
+// Long user patterns are where catastrophic backtracking hides; real label/name patterns are short
+export const MAX_PATTERN_LENGTH = 200;
+
+// Top-level identifiers an expression may reference; everything else on GceResource stays hidden
+export const EXPRESSION_FIELDS = [
+  'id', 'name', 'projectId', 'description', 'type', 'zone', 'machineType', 'cpuPlatform', 'sizeGb', 'status',
+  'creationTimestamp', 'provisioningModel', 'disks', 'ips', 'tags', 'serviceAccount', 'sourceDisk', 'users',
+  'resourcePolicies', 'url', 'memory', 'cpu', 'ingress', 'publicAccess', 'locationType', 'databaseVersion',
+  'storageClass', 'family', 'clusterDetails', 'pubsubDetails', 'networkDetails', 'labels',
+];
+
+// name -> allowed argument counts
+const FUNCTIONS: Record<string, number[]> = { has: [1], size: [1], int: [1], string: [1], matches: [2] };
+const METHODS: Record<string, number[]> = { startsWith: [1], endsWith: [1], contains: [1], matches: [1], size: [0] };
+
+// Position is a character offset into the source, for the editor's caret marker
+export class ExpressionError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'ExpressionError';
+    this.position = position;
+  }
+}
+
+type Value = null | boolean | number | string | Value[] | { [key: string]: Value };
+
+type Node =
+  | { kind: 'literal'; value: Value; pos: number }
+  | { kind: 'ident'; name: string; pos: number }
+  | { kind: 'member'; object: Node; property: string; pos: number }
+  | { kind: 'index'; object: Node; index: Node; pos: number }
+  | { kind: 'call'; name: string; target?: Node; args: Node[]; pos: number; regex?: RegExp }
+  | { kind: 'unary'; op: string; operand: Node; pos: number }
+  | { kind: 'binary'; op: string; left: Node; right: Node; pos: number }
+  | { kind: 'conditional'; test: Node; consequent: Node; alternate: Node; pos: number }
+  | { kind: 'list'; items: Node[]; pos: number };
+
+interface Token {
+  kind: 'number' | 'string' | 'ident' | 'op' | 'eof';
+  value: string;
+  pos: number;
+}
+
+// --- Tokenizer ---
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '!', '+', '-', '*', '/', '%', '(', ')', '[', ']', '.', ',', '?', ':'];
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', '"': '"', "'": "'" };
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const start = i;
+
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\') {
+          const escaped = ESCAPES[source[i + 1]];
+          if (escaped === undefined) throw new ExpressionError(`Unknown escape \\${source[i + 1] ?? ''}`, i);
+          value += escaped;
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      if (i >= source.length) throw new ExpressionError('Unterminated string', start);
+      i++;
+      tokens.push({ kind: 'string', value, pos: start });
+      continue;
+    }
+
+    const number = source.slice(i).match(/^\d+(\.\d+)?/);
+    if (number) {
+      i += number[0].length;
+      tokens.push({ kind: 'number', value: number[0], pos: start });
+      continue;
+    }
+
+    const ident = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (ident) {
+      i += ident[0].length;
+      tokens.push({ kind: 'ident', value: ident[0], pos: start });
+      continue;
+    }
+
+    const op = OPERATORS.find(o => source.startsWith(o, i));
+    if (!op) throw new ExpressionError(`Unexpected character "${ch}"`, i);
+    i += op.length;
+    tokens.push({ kind: 'op', value: op, pos: start });
+  }
+
+  tokens.push({ kind: 'eof', value: '', pos: source.length });
+  return tokens;
+};
+
+// --- Parser (precedence climbing, lowest first: ?:, ||, &&, relations, + -, * / %, unary, postfix) ---
+
+const RELATIONS = ['==', '!=', '<', '<=', '>', '>=', 'in'];
+
+const parse = (source: string): Node => {
+  if (source.length > MAX_EXPRESSION_LENGTH) throw new ExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`, MAX_EXPRESSION_LENGTH);
+  const tokens = tokenize(source);
+  let current = 0;
+  let depth = 0;
+
+  // Reading past the end keeps returning the eof token
+  const peek = () => tokens[Math.min(current, tokens.length - 1)];
+  const next = () => tokens[Math.min(current++, tokens.length - 1)];
+  const isOp = (value: string) => peek().kind === 'op' && peek().value === value;
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new ExpressionError(`Expected "${value}"${peek().kind === 'eof' ? ' before end of expression' : ` but found "${peek().value}"`}`, peek().pos);
+    return next();
+  };
+
+  const nested = <T>(fn: () => T): T => {
+    if (++depth > MAX_DEPTH) throw new ExpressionError('Expression is nested too deeply', peek().pos);
+    try {
+      return fn();
+    } finally {
+      depth--;
+    }
+  };
+
+  const parseArgs = (): Node[] => {
+    const args: Node[] = [];
+    if (!isOp(')')) {
+      do {
+        args.push(parseConditional());
+      } while (isOp(',') && next());
+    }
+    expect(')');
+    return args;
+  };
+
+  const parsePrimary = (): Node => {
+    const token = next();
+    if (token.kind === 'number') return { kind: 'literal', value: Number(token.value), pos: token.pos };
+    if (token.kind === 'string') return { kind: 'literal', value: token.value, pos: token.pos };
+    if (token.kind === 'ident') {
+      if (token.value === 'true' || token.value === 'false') return { kind: 'literal', value: token.value === 'true', pos: token.pos };
+      if (token.value === 'null') return { kind: 'literal', value: null, pos: token.pos };
+      if (isOp('(')) {
+        next();
+        return { kind: 'call', name: token.value, args: parseArgs(), pos: token.pos };
+      }
+      return { kind: 'ident', name: token.value, pos: token.pos };
+    }
+    if (token.kind === 'op' && token.value === '(') {
+      const inner = nested(parseConditional);
+      expect(')');
+      return inner;
+    }
+    if (token.kind === 'op' && token.value === '[') {
+      const items: Node[] = [];
+      if (!isOp(']')) {
+        do {
+          items.push(nested(parseConditional));
+        } while (isOp(',') && next());
+      }
+      expect(']');
+      return { kind: 'list', items, pos: token.pos };
+    }
+    throw new ExpressionError(token.kind === 'eof' ? 'Unexpected end of expression' : `Unexpected "${token.value}"`, token.pos);
+  };
+
+  const parsePostfix = (): Node => {
+    let node = parsePrimary();
+    for (;;) {
+      if (isOp('.')) {
+        next();
+        const property = next();
+        if (property.kind !== 'ident') throw new ExpressionError('Expected a field name after "."', property.pos);
+        if (isOp('(')) {
+          next();
+          node = { kind: 'call', name: property.value, target: node, args: parseArgs(), pos: property.pos };
+        } else {
+          node = { kind: 'member', object: node, property: property.value, pos: property.pos };
+        }
+      } else if (isOp('[')) {
+        const open = next();
+        const index = nested(parseConditional);
+        expect(']');
+        node = { kind: 'index', object: node, index, pos: open.pos };
+      } else {
+        return node;
+      }
+    }
+  };
+
+  const parseUnary = (): Node => {
+    if (isOp('!') || isOp('-')) {
+      const op = next();
+      return { kind: 'unary', op: op.value, operand: nested(parseUnary), pos: op.pos };
+    }
+    return parsePostfix();
+  };
+
+  const binaryLevel = (operators: string[], parseOperand: () => Node) => (): Node => {
+    let left = parseOperand();
+    while ((peek().kind === 'op' || (peek().kind === 'ident' && peek().value === 'in')) && operators.includes(peek().value)) {
+      const op = next();
+      left = { kind: 'binary', op: op.value, left, right: parseOperand(), pos: op.pos };
+    }
+    return left;
+  };
+
+  const parseMultiplicative = binaryLevel(['*', '/', '%'], parseUnary);
+  const parseAdditive = binaryLevel(['+', '-'], parseMultiplicative);
+  const parseRelation = binaryLevel(RELATIONS, parseAdditive);
+  const parseAnd = binaryLevel(['&&'], parseRelation);
+  const parseOr = binaryLevel(['||'], parseAnd);
+
+  const parseConditional = (): Node => {
+    const test = parseOr();
+    if (!isOp('?')) return test;
+    const op = next();
+    const consequent = nested(parseConditional);
+    expect(':');
+    return { kind: 'conditional', test, consequent, alternate: nested(parseConditional), pos: op.pos };
+  };
+
+  const root = parseConditional();
+  if (peek().kind !== 'eof') throw new ExpressionError(`Unexpected "${peek().value}"`, peek().pos);
+  return root;
+};
+
+// --- Static checks ---
+
+const walk = (node: Node, visit: (n: Node) => void) => {
+  visit(node);
+  switch (node.kind) {
+    case 'member': walk(node.object, visit); break;
+    case 'index': walk(node.object, visit); walk(node.index, visit); break;
+    case 'call': if (node.target) walk(node.target, visit); node.args.forEach(a => walk(a, visit)); break;
+    case 'unary': walk(node.operand, visit); break;
+    case 'binary': walk(node.left, visit); walk(node.right, visit); break;
+    case 'conditional': walk(node.test, visit); walk(node.consequent, visit); walk(node.alternate, visit); break;
+    case 'list': node.items.forEach(i => walk(i, visit)); break;
+  }
+};
+
+const checkNode = (node: Node) => {
+  if (node.kind === 'ident' && !EXPRESSION_FIELDS.includes(node.name)) {
+    throw new ExpressionError(`Unknown field "${node.name}"`, node.pos);
+  }
+  if (node.kind !== 'call') return;
+
+  const table = node.target ? METHODS : FUNCTIONS;
+  const arities = Object.prototype.hasOwnProperty.call(table, node.name) ? table[node.name] : undefined;
+  if (!arities) throw new ExpressionError(`Unknown ${node.target ? 'method' : 'function'} "${node.name}"`, node.pos);
+  if (!arities.includes(node.args.length)) {
+    throw new ExpressionError(`${node.name}() takes ${arities.join(' or ')} argument${arities[0] === 1 ? '' : 's'}`, node.pos);
+  }
+  if (node.name === 'has' && !node.target && !['member', 'index'].includes(node.args[0].kind)) {
+    throw new ExpressionError('has() expects a field selection such as labels.owner', node.args[0].pos);
+  }
+  // Patterns are compiled once, here; a pattern computed at run time (e.g. from a label) is not allowed
+  if (node.name === 'matches') {
+    const pattern = node.args[node.args.length - 1];
+    if (pattern.kind !== 'literal' || typeof pattern.value !== 'string') {
+      throw new ExpressionError('matches() expects a string literal pattern', pattern.pos);
+    }
+    if (pattern.value.length > MAX_PATTERN_LENGTH) {
+      throw new ExpressionError(`Pattern is longer than ${MAX_PATTERN_LENGTH} characters`, pattern.pos);
+    }
+    try {
+      node.regex = new RegExp(pattern.value);
+    } catch {
+      throw new ExpressionError(`Invalid regular expression: ${pattern.value}`, pattern.pos);
+    }
+  }
+};
+
+// --- Interpreter ---
+
+const typeName = (v: Value) => v === null ? 'null' : Array.isArray(v) ? 'list' : typeof v === 'object' ? 'map' : typeof v;
+
+const isMap = (v: Value): v is { [key: string]: Value } => v !== null && typeof v === 'object' && !Array.isArray(v);
+
+// Own properties only, so prototype members (constructor, __proto__) are unreachable
+const readKey = (object: { [key: string]: Value }, key: string): Value =>
+  Object.prototype.hasOwnProperty.call(object, key) && object[key] !== undefined ? object[key] : null;
+
+const equals = (a: Value, b: Value): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((v, i) => equals(v, b[i]));
+  if (isMap(a) && isMap(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(k => equals(a[k], readKey(b, k)));
+  }
+  return a === b;
+};
+
+const expectType = <T extends Value>(value: Value, type: string, pos: number, context: string): T => {
+  if (typeName(value) !== type) throw new ExpressionError(`${context} expects ${type}, got ${typeName(value)}`, pos);
+  return value as T;
+};
+
+const sizeOf = (value: Value, pos: number) => {
+  if (typeof value === 'string' || Array.isArray(value)) return value.length;
+  if (isMap(value)) return Object.keys(value).length;
+  throw new ExpressionError(`size() expects string, list or map, got ${typeName(value)}`, pos);
+};
+
+const evaluate = (node: Node, root: { [key: string]: Value }): Value => {
+  const ev = (n: Node) => evaluate(n, root);
+
+  switch (node.kind) {
+    case 'literal': return node.value;
+    case 'ident': return readKey(root, node.name);
+    case 'list': return node.items.map(ev);
+
+    case 'member': {
+      const object = ev(node.object);
+      if (object === null) return null;
+      if (!isMap(object)) throw new ExpressionError(`Cannot read "${node.property}" of ${typeName(object)}`, node.pos);
+      return readKey(object, node.property);
+    }
+
+    case 'index': {
+      const object = ev(node.object);
+      const index = ev(node.index);
+      if (object === null) return null;
+      if (Array.isArray(object)) {
+        const i = expectType<number>(index, 'number', node.pos, 'List index');
+        return Number.isInteger(i) && i >= 0 && i < object.length ? object[i] : null;
+      }
+      if (isMap(object)) return readKey(object, expectType<string>(index, 'string', node.pos, 'Map key'));
+      throw new ExpressionError(`Cannot index ${typeName(object)}`, node.pos);
+    }
+
+    case 'call': {
+      if (!node.target && node.name === 'has') {
+        const field = node.args[0] as Extract<Node, { kind: 'member' | 'index' }>;
+        const object = ev(field.object);
+        if (!isMap(object)) return false;
+        const key = field.kind === 'member' ? field.property : ev(field.index);
+        const value = typeof key === 'string' ? readKey(object, key) : null;
+        return value !== null && value !== '';
+      }
+
+      const args = node.args.map(ev);
+      if (!node.target) {
+        switch (node.name) {
+          case 'size': return sizeOf(args[0], node.pos);
+          case 'int': {
+            const n = typeof args[0] === 'number' ? args[0] : typeof args[0] === 'string' ? Number(args[0]) : NaN;
+            if (!Number.isFinite(n)) throw new ExpressionError(`int() cannot convert ${typeName(args[0])} "${String(args[0])}"`, node.pos);
+            return Math.trunc(n);
+          }
+          case 'string':
+            if (args[0] !== null && typeof args[0] === 'object') throw new ExpressionError(`string() cannot convert ${typeName(args[0])}`, node.pos);
+            return String(args[0]);
+          case 'matches':
+            return node.regex!.test(expectType<string>(args[0], 'string', node.pos, 'matches()'));
+        }
+      }
+
+      const target = ev(node.target!);
+      if (node.name === 'size') return sizeOf(target, node.pos);
+      if (node.name === 'contains' && Array.isArray(target)) return target.some(v => equals(v, args[0]));
+      const subject = expectType<string>(target, 'string', node.pos, `${node.name}()`);
+      const argument = expectType<string>(args[0], 'string', node.pos, `${node.name}()`);
+      switch (node.name) {
+        case 'startsWith': return subject.startsWith(argument);
+        case 'endsWith': return subject.endsWith(argument);
+        case 'contains': return subject.includes(argument);
+        case 'matches': return node.regex!.test(subject);
+      }
+      throw new ExpressionError(`Unknown method "${node.name}"`, node.pos);
+    }
+
+    case 'unary': {
+      const operand = ev(node.operand);
+      if (node.op === '!') return !expectType<boolean>(operand, 'boolean', node.pos, '"!"');
+      return -expectType<number>(operand, 'number', node.pos, 'Unary "-"');
+    }
+
+    case 'conditional':
+      return expectType<boolean>(ev(node.test), 'boolean', node.test.pos, 'Condition')
+        ? ev(node.consequent)
+        : ev(node.alternate);
+
+    case 'binary': {
+      // CEL semantics: && and || are commutative over errors, so a decisive side wins
+      if (node.op === '&&' || node.op === '||') {
+        const decisive = node.op === '||';
+        let leftError: unknown;
+        try {
+          if (expectType<boolean>(ev(node.left), 'boolean', node.pos, `"${node.op}"`) === decisive) return decisive;
+        } catch (e) {
+          leftError = e;
+        }
+        const right = expectType<boolean>(ev(node.right), 'boolean', node.pos, `"${node.op}"`);
+        if (right === decisive) return decisive;
+        if (leftError) throw leftError;
+        return !decisive;
+      }
+
+      const left = ev(node.left);
+      const right = ev(node.right);
+      switch (node.op) {
+        case '==': return equals(left, right);
+        case '!=': return !equals(left, right);
+        case 'in':
+          if (Array.isArray(right)) return right.some(v => equals(v, left));
+          if (isMap(right)) return readKey(right, expectType<string>(left, 'string', node.pos, '"in" on a map')) !== null;
+          throw new ExpressionError(`"in" expects a list or map, got ${typeName(right)}`, node.pos);
+        case '<': case '<=': case '>': case '>=': {
+          const type = typeName(left);
+          if ((type !== 'number' && type !== 'string') || typeName(right) !== type) {
+            throw new ExpressionError(`Cannot compare ${type} with ${typeName(right)}`, node.pos);
+          }
+          const [a, b] = [left as number | string, right as number | string];
+          return node.op === '<' ? a < b : node.op === '<=' ? a <= b : node.op === '>' ? a > b : a >= b;
+        }
+        case '+':
+          if (typeof left === 'string' && typeof right === 'string') return left + right;
+          if (Array.isArray(left) && Array.isArray(right)) return [...left, ...right];
+          return expectType<number>(left, 'number', node.pos, '"+"') + expectType<number>(right, 'number', node.pos, '"+"');
+      }
+
+      const a = expectType<number>(left, 'number', node.pos, `"${node.op}"`);
+      const b = expectType<number>(right, 'number', node.pos, `"${node.op}"`);
+      if ((node.op === '/' || node.op === '%') && b === 0) throw new ExpressionError('Division by zero', node.pos);
+      switch (node.op) {
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        case '%': return a % b;
+      }
+      throw new ExpressionError(`Unknown operator "${node.op}"`, node.pos);
+    }
+  }
+};
+
+// Resource view the interpreter sees: whitelisted fields only, labels always present
+const toRoot = (r: GceResource): { [key: string]: Value } => {
+  const root: { [key: string]: Value } = {};
+  EXPRESSION_FIELDS.forEach(field => {
+    const value = (r as any)[field];
+    if (value !== undefined) root[field] = value as Value;
+  });
+  root.labels = { ...(r.labels || {}) };
+  return root;
+};
+
+/**
+ * Parses and statically checks an expression. Returns a predicate that is true when the
+ * resource matches (for policies: violates); it throws ExpressionError for runtime type errors
+ * or a non-boolean result.
+ */
+export const compileExpression = (source: string): ((r: GceResource) => boolean) => {
+  const ast = parse(source);
+  walk(ast, checkNode);
+  return (r) => expectType<boolean>(evaluate(ast, toRoot(r)), 'boolean', 0, 'Expression');
+};
+
+// Editor-facing check: null when the expression compiles, otherwise the first problem found
+export const validateExpression = (source: string): ExpressionError | null => {
+  if (!source.trim()) return new ExpressionError('Expression is empty', 0);
+  try {
+    compileExpression(source);
+    return null;
+  } catch (e) {
+    return e instanceof ExpressionError ? e : new ExpressionError(String(e), 0);
+  }
+};
@@ -0,0 +1,145 @@
+import { GceResource, PolicyScope } from '../types';
+import { RESOURCE_TYPE_LABELS } from '../constants';
+
+type LabelRequirement =
+  | { key: string; op: 'exists' | 'absent' }
+  | { key: string; op: '=' | '!='; value: string }
+  | { key: string; op: 'in' | 'notin'; values: string[] };
+
+const KEY = '[a-z0-9_./-]+';
+const VALUE = '[a-zA-Z0-9_./-]*';
+
+// Commas inside "in (a, b)" belong to the value list, not the requirement list
+const splitTerms = (selector: string) => {
+  const terms: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of selector) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth--;
+    if (ch === ',' && depth === 0) {
+      terms.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  terms.push(current);
+  return terms.map(t => t.trim()).filter(Boolean);
+};
+
+/**
+ * Parses a Kubernetes-style label selector: `key`, `!key`, `key=value`, `key!=value`,
+ * `key in (a,b)` and `key notin (a,b)`, comma separated (all must hold). Throws on bad syntax.
+ */
+export const parseLabelSelector = (selector: string): LabelRequirement[] => splitTerms(selector).map(term => {
+  let m = term.match(new RegExp(`^!\\s*(${KEY})$`));
+  if (m) return { key: m[1], op: 'absent' };
+  m = term.match(new RegExp(`^(${KEY})\\s+(in|notin)\\s*\\(([^)]*)\\)$`));
+  if (m) return { key: m[1], op: m[2] as 'in' | 'notin', values: m[3].split(',').map(v => v.trim()).filter(Boolean) };
+  m = term.match(new RegExp(`^(${KEY})\\s*(==|=|!=)\\s*(${VALUE})$`));
+  if (m) return { key: m[1], op: m[2] === '!=' ? '!=' : '=', value: m[3] };
+  m = term.match(new RegExp(`^(${KEY})$`));
+  if (m) return { key: m[1], op: 'exists' };
+  throw new Error(`Invalid selector term "${term}"`);
+});
+
+const selectorCache = new Map<string, LabelRequirement[] | null>();
+
+const compiledSelector = (selector: string) => {
+  if (!selectorCache.has(selector)) {
+    try {
+      selectorCache.set(selector, parseLabelSelector(selector));
+    } catch {
+      selectorCache.set(selector, null);
+    }
+  }
+  return selectorCache.get(selector)!;
+};
+
+// Empty label values count as absent, the same way REQUIRED_LABEL treats them
+const matchesRequirement = (labels: Record<string, string>, req: LabelRequirement) => {
+  const value = labels[req.key] || undefined;
+  switch (req.op) {
+    case 'exists': return value !== undefined;
+    case 'absent': return value === undefined;
+    case '=': return value === req.value;
+    case '!=': return value !== req.value;
+    case 'in': return value !== undefined && req.values.includes(value);
+    case 'notin': return value === undefined || !req.values.includes(value);
+  }
+};
+
+/** True when the labels satisfy every requirement of the selector. An unparseable selector matches nothing. */
+export const matchesLabelSelector = (labels: Record<string, string>, selector: string): boolean => {
+  const requirements = compiledSelector(selector.trim());
+  return !!requirements && requirements.every(req => matchesRequirement(labels, req));
+};
+
+const globCache = new Map<string, RegExp>();
+
+const globToRegex = (glob: string) => {
+  let re = globCache.get(glob);
+  if (!re) {
+    const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    re = new RegExp(`^${escaped}$`, 'i');
+    globCache.set(glob, re);
+  }
+  return re;
+};
+
+// Any "!" pattern that matches excludes; otherwise at least one positive pattern must match, if there are any
+const matchesPatterns = (candidates: string[], patterns?: string[]) => {
+  const cleaned = (patterns || []).map(p => p.trim()).filter(p => p && p !== '!');
+  if (cleaned.length === 0) return true;
+  const hits = (glob: string) => candidates.some(c => globToRegex(glob).test(c));
+  const negatives = cleaned.filter(p => p.startsWith('!')).map(p => p.slice(1));
+  const positives = cleaned.filter(p => !p.startsWith('!'));
+  if (negatives.some(hits)) return false;
+  return positives.length === 0 || positives.some(hits);
+};
+
+const regionOf = (zone: string) => zone.replace(/-[a-z]$/, '');
+
+/**
+ * True when the policy applies to the resource. An unparseable label selector does not narrow
+ * the scope, so a typo widens enforcement rather than silently disabling it.
+ */
+export const matchesScope = (r: GceResource, scope?: PolicyScope): boolean => {
+  if (!scope) return true;
+  if (scope.includeTypes?.length && !scope.includeTypes.includes(r.type)) return false;
+  if (scope.excludeTypes?.includes(r.type)) return false;
+  if (!matchesPatterns([r.zone, regionOf(r.zone)], scope.locations)) return false;
+  if (r.projectId && !matchesPatterns([r.projectId], scope.projects)) return false;
+  if (!matchesPatterns([r.name], scope.namePatterns)) return false;
+  if (scope.labelSelector?.trim()) {
+    const requirements = compiledSelector(scope.labelSelector.trim());
+    if (requirements && !requirements.every(req => matchesRequirement(r.labels, req))) return false;
+  }
+  return true;
+};
+
+export const validateScope = (scope?: PolicyScope): string | null => {
+  if (!scope?.labelSelector?.trim()) return null;
+  try {
+    parseLabelSelector(scope.labelSelector);
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+};
+
+const listOf = (patterns?: string[]) => (patterns || []).map(p => p.trim()).filter(Boolean).join(', ');
+
+// One short line per narrowing field, for policy cards; empty when the policy applies everywhere
+export const describeScope = (scope?: PolicyScope): string[] => {
+  if (!scope) return [];
+  const lines: string[] = [];
+  if (scope.includeTypes?.length) lines.push(`Only ${scope.includeTypes.map(t => RESOURCE_TYPE_LABELS[t]).join(', ')}`);
+  if (scope.excludeTypes?.length) lines.push(`Except ${scope.excludeTypes.map(t => RESOURCE_TYPE_LABELS[t]).join(', ')}`);
+  if (listOf(scope.locations)) lines.push(`Locations: ${listOf(scope.locations)}`);
+  if (listOf(scope.projects)) lines.push(`Projects: ${listOf(scope.projects)}`);
+  if (listOf(scope.namePatterns)) lines.push(`Names: ${listOf(scope.namePatterns)}`);
+  if (scope.labelSelector?.trim()) lines.push(`Labels: ${scope.labelSelector.trim()}`);
+  return lines;
+};
@@ -1,5 +1,10 @@
 
-import { GceResource, GovernancePolicy, PolicyViolation, TaxonomyRule, PolicyRuleConfig, PolicySeverity } from '../types';
+import { GceResource, GovernancePolicy, PolicyViolation, TaxonomyRule, PolicyRuleConfig, PolicySeverity, PolicyException } from '../types';
+import { UNLABELABLE_RESOURCE_TYPES } from '../constants';
+import { compileExpression, MAX_PATTERN_LENGTH } from './policyExpression';
+import { matchesScope, matchesLabelSelector, validateScope } from './policyScope';
+import { findException } from './policyExceptions';
+import { getAllowedValues } from './taxonomyHierarchy';
 
 // --- Default Taxonomy Rules (Enterprise Standards) ---
 export const DEFAULT_TAXONOMY: TaxonomyRule[] = [
@@ -11,22 +16,78 @@ export const DEFAULT_TAXONOMY: TaxonomyRule[] = [
 
 // --- Policy Logic Implementation ---
 
+// Rules without a condition are always required; conditional ones only when their selector matches
+const isRuleRequired = (r: GceResource, rule: TaxonomyRule) =>
+  rule.isRequired || (!!rule.requiredWhen?.trim() && matchesLabelSelector(r.labels, rule.requiredWhen));
+
 const checkRequiredLabels = (r: GceResource, rules: TaxonomyRule[]): string | null => {
-  const missing = rules.filter(rule => rule.isRequired && !r.labels[rule.key]);
+  if (UNLABELABLE_RESOURCE_TYPES.includes(r.type)) return null;
+  const missing = rules.filter(rule => isRuleRequired(r, rule) && !r.labels[rule.key]);
   if (missing.length > 0) {
-    return `Missing required labels: ${missing.map(m => m.key).join(', ')}`;
+    const describe = (rule: TaxonomyRule) => rule.isRequired ? rule.key : `${rule.key} (required when ${rule.requiredWhen!.trim()})`;
+    return `Missing required labels: ${missing.map(describe).join(', ')}`;
+  }
+  return null;
+};
+
+// Null when the pattern can be used as a valuePattern, otherwise why not
+export const validateValuePattern = (pattern: string): string | null => {
+  if (pattern.length > MAX_PATTERN_LENGTH) return `Pattern is longer than ${MAX_PATTERN_LENGTH} characters`;
+  try {
+    new RegExp(pattern);
+    return null;
+  } catch {
+    return `Invalid regular expression: ${pattern}`;
+  }
+};
+
+// Checked before a taxonomy is saved; the first problem found, or null
+export const validateTaxonomy = (taxonomy: TaxonomyRule[]): string | null => {
+  for (const rule of taxonomy) {
+    const error = (rule.valuePattern ? validateValuePattern(rule.valuePattern) : null)
+      || validateScope({ labelSelector: rule.requiredWhen });
+    if (error) return `${rule.key}: ${error}`;
   }
   return null;
 };
 
-const checkAllowedValues = (r: GceResource, rules: TaxonomyRule[]): string | null => {
-  const invalid = rules.filter(rule => {
+// Compiled once per taxonomy. Taxonomy also comes from storage, so a pattern that fails
+// validation is ignored rather than failing every resource.
+const compileValuePatterns = (rules: TaxonomyRule[]) => {
+  const patterns = new Map<string, RegExp>();
+  rules.forEach(rule => {
+    if (rule.valuePattern && !validateValuePattern(rule.valuePattern)) {
+      patterns.set(rule.key, new RegExp(`^(?:${rule.valuePattern})$`));
+    }
+  });
+  return patterns;
+};
+
+const checkAllowedValues = (r: GceResource, rules: TaxonomyRule[], patterns: Map<string, RegExp>): string | null => {
+  const problems: string[] = [];
+  rules.forEach(rule => {
     const val = r.labels[rule.key];
-    return val && rule.allowedValues.length > 0 && !rule.allowedValues.includes(val);
+    if (!val) return;
+    if (rule.allowedValues.length > 0 && !rule.allowedValues.includes(val)) {
+      problems.push(`${rule.key} (found: ${val})`);
+      return;
+    }
+    const pattern = patterns.get(rule.key);
+    if (pattern && !pattern.test(val)) {
+      problems.push(`${rule.key} (found: ${val}, expected pattern ${rule.valuePattern})`);
+      return;
+    }
+    // Hierarchical keys: the value must belong to the parent's branch. Same lookup as the editor's
+    // dropdown, so an unknown parent value falls back to the key's full list (checked above).
+    const parentValue = rule.parentKey && r.labels[rule.parentKey];
+    const branch = parentValue ? getAllowedValues(rules, rule.key, r.labels) : [];
+    if (branch.length > 0 && !branch.includes(val)) {
+      problems.push(`${rule.key} (found: ${val}, not valid for ${rule.parentKey}=${parentValue})`);
+    }
   });
 
-  if (invalid.length > 0) {
-    return `Invalid label values for: ${invalid.map(i => `${i.key} (found: ${r.labels[i.key]})`).join(', ')}`;
+  if (problems.length > 0) {
+    return `Invalid label values for: ${problems.join(', ')}`;
   }
   return null;
 };
@@ -36,6 +97,7 @@ const createDynamicCheck = (config: PolicyRuleConfig): ((r: GceResource) => stri
   switch (config.type) {
     case 'REQUIRED_LABEL':
       return (r) => {
+        if (UNLABELABLE_RESOURCE_TYPES.includes(r.type)) return null;
         if (config.params.key && !r.labels[config.params.key]) {
           return `Missing mandatory label: "${config.params.key}"`;
         }
@@ -78,6 +140,22 @@ const createDynamicCheck = (config: PolicyRuleConfig): ((r: GceResource) => stri
         }
         return null;
       };
+    case 'CUSTOM': {
+      if (!config.params.expression) return () => null;
+      let matches: (r: GceResource) => boolean;
+      try {
+        matches = compileExpression(config.params.expression);
+      } catch (e) {
+        return () => `Invalid expression configuration`;
+      }
+      return (r) => {
+        try {
+          return matches(r) ? (config.params.message || `Matches rule: ${config.params.expression}`) : null;
+        } catch (e) {
+          return `Rule could not be evaluated: ${e instanceof Error ? e.message : String(e)}`;
+        }
+      };
+    }
     default:
       return () => null;
   }
@@ -134,6 +212,9 @@ const checkPublicExposure = (r: GceResource): string | null => {
   if (hasPublicIp && r.type === 'CLOUD_SQL') {
       return "Database instance has public IP assignment.";
   }
+  if (r.type === 'FIREWALL_RULE' && r.networkDetails?.openToInternet) {
+      return `Firewall rule allows ingress from 0.0.0.0/0 (${r.networkDetails.allowed?.join(', ')}).`;
+  }
   return null;
 };
 
@@ -145,65 +226,74 @@ const checkCostCenterFormat = (r: GceResource): string | null => {
 
 const checkUtilization = (r: GceResource): string | null => {
     if (r.type === 'INSTANCE' && r.status === 'STOPPED') return "Resource is STOPPED but incurring storage costs.";
+    if (r.type === 'ADDRESS' && r.status === 'RESERVED' && r.networkDetails?.addressType === 'EXTERNAL') {
+        return "Static external IP is reserved but not attached to any resource.";
+    }
+    if (r.type === 'FORWARDING_RULE' && r.status === 'IDLE') return "Forwarding rule has no target and serves no traffic.";
     return null;
 };
 
-export const getPolicies = (taxonomy: TaxonomyRule[]): GovernancePolicy[] => [
-  {
-    id: 'req-labels',
-    name: 'Mandatory Labeling',
-    description: 'Ensure all resources have the critical labels defined in the Taxonomy.',
-    category: 'OPERATIONS',
-    isEnabled: true,
-    severity: 'CRITICAL',
-    check: (r) => checkRequiredLabels(r, taxonomy)
-  },
-  {
-    id: 'taxonomy-values',
-    name: 'Controlled Vocabulary',
-    description: 'Labels must match the allowed values list.',
-    category: 'OPERATIONS',
-    isEnabled: true,
-    severity: 'WARNING',
-    check: (r) => checkAllowedValues(r, taxonomy)
-  },
-  {
-    id: 'naming-std',
-    name: 'Naming Convention',
-    description: 'Resources must be lowercase, hyphenated, and follow standard patterns.',
-    category: 'OPERATIONS',
-    isEnabled: true,
-    severity: 'INFO',
-    check: (r) => checkNamingConvention(r)
-  },
-  {
-    id: 'security-exposure',
-    name: 'Public Exposure Risk',
-    description: 'Confidential assets and Databases must not have external IP addresses.',
-    category: 'SECURITY',
-    isEnabled: true,
-    severity: 'CRITICAL',
-    check: (r) => checkPublicExposure(r)
-  },
-  {
-    id: 'cost-center-fmt',
-    name: 'Cost Center Format',
-    description: 'Cost centers must follow the "cc-XXXX" accounting format.',
-    category: 'COST',
-    isEnabled: true,
-    severity: 'WARNING',
-    check: (r) => checkCostCenterFormat(r)
-  },
-  {
-    id: 'idle-waste',
-    name: 'Idle Resource Waste',
-    description: 'Detects resources that are stopped but still incurring storage costs.',
-    category: 'COST',
-    isEnabled: true,
-    severity: 'MEDIUM',
-    check: (r) => checkUtilization(r)
-  }
-];
+export const getPolicies = (taxonomy: TaxonomyRule[]): GovernancePolicy[] => {
+  const valuePatterns = compileValuePatterns(taxonomy);
+  return [
+    {
+      id: 'req-labels',
+      name: 'Mandatory Labeling',
+      description: 'Ensure all resources have the critical labels defined in the Taxonomy.',
+      category: 'OPERATIONS',
+      isEnabled: true,
+      severity: 'CRITICAL',
+      check: (r) => checkRequiredLabels(r, taxonomy)
+    },
+    {
+      id: 'taxonomy-values',
+      name: 'Controlled Vocabulary',
+      description: 'Labels must match the allowed values list.',
+      category: 'OPERATIONS',
+      isEnabled: true,
+      severity: 'WARNING',
+      check: (r) => checkAllowedValues(r, taxonomy, valuePatterns)
+    },
+    {
+      id: 'naming-std',
+      name: 'Naming Convention',
+      description: 'Resources must be lowercase, hyphenated, and follow standard patterns.',
+      category: 'OPERATIONS',
+      isEnabled: true,
+      severity: 'INFO',
+      check: (r) => checkNamingConvention(r)
+    },
+    {
+      id: 'security-exposure',
+      name: 'Public Exposure Risk',
+      description: 'Confidential assets and Databases must not have external IP addresses; firewalls must not be open to the internet.',
+      category: 'SECURITY',
+      isEnabled: true,
+      severity: 'CRITICAL',
+      scope: { includeTypes: ['INSTANCE', 'CLOUD_RUN', 'CLOUD_SQL', 'FIREWALL_RULE'] },
+      check: (r) => checkPublicExposure(r)
+    },
+    {
+      id: 'cost-center-fmt',
+      name: 'Cost Center Format',
+      description: 'Cost centers must follow the "cc-XXXX" accounting format.',
+      category: 'COST',
+      isEnabled: true,
+      severity: 'WARNING',
+      check: (r) => checkCostCenterFormat(r)
+    },
+    {
+      id: 'idle-waste',
+      name: 'Idle Resource Waste',
+      description: 'Detects stopped VMs, unattached static IPs and targetless forwarding rules that still incur costs.',
+      category: 'COST',
+      isEnabled: true,
+      severity: 'MEDIUM',
+      scope: { includeTypes: ['INSTANCE', 'ADDRESS', 'FORWARDING_RULE'] },
+      check: (r) => checkUtilization(r)
+    }
+  ];
+};
 
 /**
  * Re-attaches logic to loaded policies.
@@ -245,9 +335,14 @@ export const restoreGovernanceContext = (
   return restored;
 };
 
+/**
+ * Runs every enabled, in-scope policy against the resource. Violations covered by an active
+ * exception are still returned, marked with the waiving exception's id.
+ */
 export const evaluateResource = (
   resource: GceResource, 
-  policies: GovernancePolicy[]
+  policies: GovernancePolicy[],
+  exceptions: PolicyException[] = []
 ): PolicyViolation[] => {
   const violations: PolicyViolation[] = [];
 
@@ -255,13 +350,16 @@ export const evaluateResource = (
     if (policy.isEnabled) {
       // Defensive check in case hydration failed
       if (!policy.check) return; 
+      if (!matchesScope(resource, policy.scope)) return;
       
       const result = policy.check(resource);
       if (result) {
+        const exception = findException(resource, policy.id, exceptions);
         violations.push({
           policyId: policy.id,
           message: result,
-          severity: policy.severity
+          severity: policy.severity,
+          ...(exception ? { exceptionId: exception.id } : {})
         });
       }
     }
@@ -273,14 +371,21 @@ export const evaluateResource = (
 export const evaluateInventory = (
   resources: GceResource[],
   taxonomy: TaxonomyRule[] = DEFAULT_TAXONOMY,
-  customPolicies?: GovernancePolicy[]
+  customPolicies?: GovernancePolicy[],
+  includeSystemManaged = false,
+  exceptions: PolicyException[] = []
 ): GceResource[] => {
   // If custom policies provided, use them. Otherwise default.
   // NOTE: If using custom, ensure default static ones are included if desired in caller.
   const activePolicies = customPolicies || getPolicies(taxonomy);
 
-  return resources.map(r => ({
-    ...r,
-    violations: evaluateResource(r, activePolicies)
-  }));
+  return resources.map(r => {
+    // Yalla's own infrastructure (governance bucket) is excluded unless explicitly requested
+    const all = r.isSystemManaged && !includeSystemManaged ? [] : evaluateResource(r, activePolicies, exceptions);
+    return {
+      ...r,
+      violations: all.filter(v => !v.exceptionId),
+      waivedViolations: all.filter(v => v.exceptionId)
+    };
+  });
 };
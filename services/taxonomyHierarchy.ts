@@ -0,0 +1,184 @@
+import { TaxonomyRule } from '../types';
+
+/** Ordered hierarchy levels (e.g. department, cost-center, application) and every valid path through them. */
+export interface TaxonomyHierarchy {
+  levels: string[];
+  paths: string[][];
+}
+
+const cleanRow = (row: unknown[]) => row.map(cell => String(cell ?? '').trim());
+
+// Minimal RFC 4180 reader: quoted cells may contain commas, newlines and doubled quotes
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows.map(cleanRow).filter(r => r.some(Boolean));
+};
+
+// Nested form: { "engineering": { "cc-100": ["web", "api"] } }, leaves may be arrays or empty objects
+const flattenTree = (node: unknown, prefix: string[], depth: number, out: string[][]) => {
+  if (Array.isArray(node)) {
+    if (prefix.length + 1 !== depth) throw new Error(`Leaf list under "${prefix.join(' > ')}" is at the wrong level`);
+    if (node.length === 0) out.push(prefix);
+    node.forEach(v => out.push([...prefix, String(v)]));
+    return;
+  }
+  if (!node || typeof node !== 'object') throw new Error(`Unexpected value under "${prefix.join(' > ')}"`);
+  const entries = Object.entries(node as Record<string, unknown>);
+  if (entries.length === 0 || prefix.length === depth) {
+    if (prefix.length > 0) out.push(prefix);
+    return;
+  }
+  entries.forEach(([key, child]) => flattenTree(child, [...prefix, key], depth, out));
+};
+
+const normalize = (levels: string[], paths: string[][]): TaxonomyHierarchy => {
+  const cleanLevels = cleanRow(levels);
+  if (cleanLevels.length < 2) throw new Error('A hierarchy needs at least two levels (e.g. department, cost-center)');
+  if (cleanLevels.some(l => !l)) throw new Error('Hierarchy level names cannot be empty');
+  if (new Set(cleanLevels).size !== cleanLevels.length) throw new Error('Hierarchy levels must be unique');
+
+  const cleanPaths = paths.map(p => cleanRow(p).slice(0, cleanLevels.length));
+  cleanPaths.forEach((path, i) => {
+    const gap = path.findIndex((v, idx) => !v && path.slice(idx + 1).some(Boolean));
+    if (gap !== -1) throw new Error(`Row ${i + 1} sets ${cleanLevels[gap + 1]} without a ${cleanLevels[gap]}`);
+  });
+  const nonEmpty = cleanPaths.map(p => p.slice(0, p.filter(Boolean).length)).filter(p => p.length > 0);
+  if (nonEmpty.length === 0) throw new Error('The hierarchy file contains no values');
+  return { levels: cleanLevels, paths: nonEmpty };
+};
+
+/**
+ * Reads a hierarchy from CSV (header row = levels, one path per row; trailing cells may be blank)
+ * or JSON: either an array of row objects, or `{ levels: [...], tree: { parent: { child: [leaf] } } }`.
+ */
+export const parseHierarchyFile = (text: string, fileName = ''): TaxonomyHierarchy => {
+  const trimmed = text.trim();
+  const isJson = fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('{') || trimmed.startsWith('[');
+
+  if (!isJson) {
+    const [header, ...rows] = parseCsvRows(trimmed);
+    if (!header) throw new Error('The CSV file is empty');
+    return normalize(header, rows);
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(trimmed);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (Array.isArray(data)) {
+    if (!data.length || typeof data[0] !== 'object') throw new Error('Expected an array of objects, one per hierarchy path');
+    const levels = Object.keys(data[0]);
+    return normalize(levels, data.map((row: Record<string, unknown>) => levels.map(l => row[l] as string)));
+  }
+
+  if (data && Array.isArray(data.levels) && data.tree) {
+    const paths: string[][] = [];
+    flattenTree(data.tree, [], data.levels.length, paths);
+    return normalize(data.levels, paths);
+  }
+
+  throw new Error('Expected a JSON array of rows or an object with "levels" and "tree"');
+};
+
+const unique = (values: string[]) => Array.from(new Set(values));
+
+/**
+ * Merges a hierarchy into the taxonomy. Each level's allowed values and parent links are replaced;
+ * requirement settings on existing keys are kept and missing keys are added as optional.
+ */
+export const applyHierarchy = (taxonomy: TaxonomyRule[], hierarchy: TaxonomyHierarchy): TaxonomyRule[] => {
+  const byKey = new Map(taxonomy.map(rule => [rule.key, rule]));
+
+  const levelRules = hierarchy.levels.map((key, depth) => {
+    const atDepth = hierarchy.paths.filter(p => p.length > depth);
+    const rule: TaxonomyRule = { ...(byKey.get(key) || { key, isRequired: false }), allowedValues: unique(atDepth.map(p => p[depth])) };
+    delete rule.parentKey;
+    delete rule.valuesByParent;
+    if (depth > 0) {
+      const valuesByParent: Record<string, string[]> = {};
+      atDepth.forEach(p => {
+        valuesByParent[p[depth - 1]] = unique([...(valuesByParent[p[depth - 1]] || []), p[depth]]);
+      });
+      rule.parentKey = hierarchy.levels[depth - 1];
+      rule.valuesByParent = valuesByParent;
+    }
+    return rule;
+  });
+
+  const levelSet = new Set(hierarchy.levels);
+  return [
+    ...taxonomy.map(rule => levelSet.has(rule.key) ? levelRules[hierarchy.levels.indexOf(rule.key)] : rule),
+    ...levelRules.filter(rule => !byKey.has(rule.key)),
+  ];
+};
+
+/**
+ * Values a key may take given the other labels: the parent-specific list when the parent is set
+ * and known, otherwise the key's full allowed list. Empty means free text. The policy engine
+ * validates hierarchy values with this same lookup, so the editor and violations always agree.
+ */
+export const getAllowedValues = (taxonomy: TaxonomyRule[], key: string, labels: Record<string, string>): string[] => {
+  const rule = taxonomy.find(t => t.key === key);
+  if (!rule) return [];
+  const parentValue = rule.parentKey ? labels[rule.parentKey] : undefined;
+  if (parentValue && rule.valuesByParent && Object.prototype.hasOwnProperty.call(rule.valuesByParent, parentValue)) {
+    return rule.valuesByParent[parentValue];
+  }
+  return rule.allowedValues;
+};
+
+/** Keys below `key` in the hierarchy, nearest first, so they can be re-validated when it changes. */
+export const getDescendantKeys = (taxonomy: TaxonomyRule[], key: string): string[] => {
+  const result: string[] = [];
+  let frontier = [key];
+  while (frontier.length) {
+    const children = taxonomy.filter(t => t.parentKey && frontier.includes(t.parentKey) && !result.includes(t.key)).map(t => t.key);
+    result.push(...children);
+    frontier = children;
+  }
+  return result;
+};
+
+/**
+ * Clears descendant values that are no longer valid after `key` was set in `labels`, including
+ * values whose parent was just cleared. Keys absent from `labels` are left absent.
+ */
+export const pruneDependentValues = (taxonomy: TaxonomyRule[], key: string, labels: Record<string, string>): Record<string, string> => {
+  const next = { ...labels };
+  getDescendantKeys(taxonomy, key).forEach(child => {
+    if (!next[child]) return;
+    const parentKey = taxonomy.find(t => t.key === child)?.parentKey;
+    const allowed = getAllowedValues(taxonomy, child, next);
+    if ((parentKey && next[parentKey] === '') || (allowed.length > 0 && !allowed.includes(next[child]))) next[child] = '';
+  });
+  return next;
+};
@@ -0,0 +1,221 @@
+import { RecordedExchange, TrafficBundle, TrafficMode } from '../types';
+import { APP_VERSION } from '../constants';
+
+/**
+ * Record/replay transport underneath fetchWithBackoff. Recording captures every API round trip
+ * (secrets redacted) into a bundle a customer can send to support; replay serves the app entirely
+ * from such a bundle, so the same inventory and failure sequence can be reproduced offline.
+ * Retries, 401 refresh and rate control still run above this layer, exactly as they did live.
+ */
+
+const BUNDLE_FORMAT = 'yalla-traffic';
+const BUNDLE_VERSION = 1;
+const MAX_EXCHANGES = 5000;
+
+// Security: Redact bearer tokens and OAuth secrets from anything that leaves the browser or hits the console
+export const redactSecrets = (str: string) => str
+  .replace(/Bearer\s+[a-zA-Z0-9\-\._~\+\/]+=*/gi, 'Bearer [REDACTED]')
+  .replace(/"(access_token|refresh_token|id_token|client_secret)"\s*:\s*"[^"]*"/g, '"$1":"[REDACTED]"')
+  .replace(/([?&](?:access_token|key)=)[^&#\s"]+/g, '$1[REDACTED]');
+
+interface ReplayState {
+  bundle: TrafficBundle;
+  index: Map<string, RecordedExchange[]>;
+  cursors: Map<string, number>;
+}
+
+let mode: TrafficMode = 'OFF';
+let recorded: RecordedExchange[] = [];
+let truncated = false;
+let replay: ReplayState | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const getTrafficMode = () => mode;
+
+// Exchanges captured so far, or served from the loaded bundle
+export const getTrafficCount = () => mode === 'REPLAYING' ? replay?.bundle.exchanges.length || 0 : recorded.length;
+
+export const subscribeTraffic = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Requests with a body (POST entries:list, testIamPermissions) are matched on it first, then on URL alone
+const looseKey = (method: string, url: string) => `${method} ${url}`;
+const exactKey = (method: string, url: string, body?: string) => body ? `${looseKey(method, url)} ${body}` : looseKey(method, url);
+
+const isTextual = (contentType: string | null) => !contentType || /json|text|xml|javascript/i.test(contentType);
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (encoded: string) => Uint8Array.from(atob(encoded), c => c.charCodeAt(0));
+
+const describeRequestBody = (body: BodyInit | null | undefined) => {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === 'string') return redactSecrets(body);
+  if (body instanceof Blob) return `[binary ${body.size} bytes]`;
+  return `[${Object.prototype.toString.call(body).slice(8, -1)}]`;
+};
+
+const projectIdsOf = (exchanges: RecordedExchange[]) => Array.from(new Set(
+  exchanges.flatMap(e => Array.from(e.url.matchAll(/\/projects\/([^/:?&]+)/g), m => decodeURIComponent(m[1])))
+)).filter(id => id !== '_' && id !== '-');
+
+const record = async (method: string, url: string, options: RequestInit, response: Response, startedAt: number) => {
+  if (recorded.length >= MAX_EXCHANGES) {
+    truncated = true;
+    return;
+  }
+  const contentType = response.headers.get('Content-Type');
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => { headers[key] = value; });
+  const textual = isTextual(contentType);
+  const payload = response.clone();
+
+  recorded.push({
+    method,
+    url: redactSecrets(url),
+    requestBody: describeRequestBody(options.body),
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    body: textual ? redactSecrets(await payload.text()) : toBase64(await payload.arrayBuffer()),
+    bodyEncoding: textual ? 'text' : 'base64',
+    durationMs: Math.round(performance.now() - startedAt),
+  });
+  notify();
+};
+
+// Repeats the last recorded response once a key's sequence is used up, so re-scans keep working
+const nextReplayed = (state: ReplayState, method: string, url: string, body?: string) => {
+  const exact = exactKey(method, url, body);
+  const key = state.index.has(exact) ? exact : looseKey(method, url);
+  const sequence = state.index.get(key);
+  if (!sequence) return undefined;
+  const position = state.cursors.get(key) || 0;
+  state.cursors.set(key, position + 1);
+  return sequence[Math.min(position, sequence.length - 1)];
+};
+
+const toResponse = (exchange: RecordedExchange, url: string) => {
+  const hasBody = exchange.status !== 204 && exchange.status !== 304 && exchange.body !== '';
+  const body = !hasBody ? null : exchange.bodyEncoding === 'base64' ? fromBase64(exchange.body) : exchange.body;
+  const response = new Response(body, { status: exchange.status, statusText: exchange.statusText, headers: exchange.headers });
+  // Constructed Responses have an empty url; error classification reads the service from it
+  Object.defineProperty(response, 'url', { value: url });
+  return response;
+};
+
+const notRecorded = (method: string, url: string) => {
+  const message = `No recorded response for ${method} ${url.split('?')[0]}`;
+  const response = new Response(JSON.stringify({
+    error: { code: 404, message, status: 'NOT_FOUND', errors: [{ reason: 'notRecorded', message }] },
+  }), { status: 404, headers: { 'Content-Type': 'application/json' } });
+  Object.defineProperty(response, 'url', { value: url });
+  return response;
+};
+
+/**
+ * The single network call fetchWithBackoff makes per attempt. Passes straight through to fetch
+ * unless a recording or replay session is active.
+ */
+export const transportFetch = async (url: string, options: RequestInit): Promise<Response> => {
+  const method = (options.method || 'GET').toUpperCase();
+
+  if (mode === 'REPLAYING' && replay) {
+    if (options.signal?.aborted) throw new DOMException('Request aborted', 'AbortError');
+    const exchange = nextReplayed(replay, method, redactSecrets(url), describeRequestBody(options.body));
+    return exchange ? toResponse(exchange, url) : notRecorded(method, url);
+  }
+
+  const startedAt = performance.now();
+  const response = await fetch(url, options);
+  if (mode === 'RECORDING') {
+    // A capture failure (e.g. the body stream was aborted) must never fail the real request
+    await record(method, url, options, response, startedAt).catch(e => console.warn(`Traffic capture skipped for ${method} ${redactSecrets(url)}`, e));
+  }
+  return response;
+};
+
+export const startRecording = () => {
+  recorded = [];
+  truncated = false;
+  replay = null;
+  mode = 'RECORDING';
+  notify();
+};
+
+// Ends the session and returns everything captured as a self-describing bundle
+export const stopRecording = (): TrafficBundle => {
+  const bundle: TrafficBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    appVersion: APP_VERSION,
+    recordedAt: new Date().toISOString(),
+    projectIds: projectIdsOf(recorded),
+    truncated: truncated || undefined,
+    exchanges: recorded,
+  };
+  recorded = [];
+  truncated = false;
+  mode = 'OFF';
+  notify();
+  return bundle;
+};
+
+export const parseTrafficBundle = (text: string): TrafficBundle => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Traffic bundle is not valid JSON');
+  }
+  if (parsed?.format !== BUNDLE_FORMAT || !Array.isArray(parsed.exchanges)) {
+    throw new Error('File is not a Yalla traffic bundle');
+  }
+  if (parsed.version > BUNDLE_VERSION) {
+    throw new Error(`Traffic bundle version ${parsed.version} is newer than this app supports`);
+  }
+  return parsed as TrafficBundle;
+};
+
+export const startReplay = (bundle: TrafficBundle) => {
+  const index = new Map<string, RecordedExchange[]>();
+  const add = (key: string, exchange: RecordedExchange) => index.set(key, [...(index.get(key) || []), exchange]);
+  bundle.exchanges.forEach(exchange => {
+    const method = exchange.method.toUpperCase();
+    add(looseKey(method, exchange.url), exchange);
+    if (exchange.requestBody) add(exactKey(method, exchange.url, exchange.requestBody), exchange);
+  });
+  recorded = [];
+  replay = { bundle, index, cursors: new Map() };
+  mode = 'REPLAYING';
+  notify();
+};
+
+export const stopReplay = () => {
+  replay = null;
+  mode = 'OFF';
+  notify();
+};
+
+export const downloadTrafficBundle = (bundle: TrafficBundle) => {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `yalla_traffic_${bundle.recordedAt.replace(/[:.]/g, '-')}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -7,9 +7,29 @@ export enum AppState {
   REPORTING = 'REPORTING',
 }
 
+// Where discovery runs. PROJECT scans only the connected project; FOLDER and
+// ORGANIZATION enumerate every active project beneath the node.
+export interface ScanScope {
+  type: 'PROJECT' | 'FOLDER' | 'ORGANIZATION';
+  id: string;
+}
+
 export interface GcpCredentials {
-  projectId: string;
+  projectId: string; // Home project: governance storage and audit logs live here
   accessToken: string;
+  scope?: ScanScope;
+  authMode?: AuthMode; // Absent for pasted tokens and demo mode
+}
+
+// OAUTH signs in via authorization code + PKCE and refreshes silently; TOKEN uses a pasted access token
+export type AuthMode = 'OAUTH' | 'TOKEN';
+
+export interface OAuthConfig {
+  clientId: string;
+  clientSecret?: string; // Only for providers that demand one from public clients (e.g. Google desktop clients)
+  scopes: string[];
+  authorizationEndpoint: string; // Point both endpoints at a local stand-in server for testing
+  tokenEndpoint: string;
 }
 
 export interface AppSettings {
@@ -17,9 +37,19 @@ export interface AppSettings {
   autoAnalyze: boolean;
   costCenterFormat: string;
   departmentList: string[];
+  propagateClusterLabels?: boolean; // Push GKE cluster labels down to node-pool resourceLabels
+  discoveryMode?: DiscoveryMode;
 }
 
-export type ResourceType = 'INSTANCE' | 'DISK' | 'SNAPSHOT' | 'IMAGE' | 'CLOUD_RUN' | 'CLOUD_SQL' | 'BUCKET' | 'GKE_CLUSTER';
+// SERVICE_APIS calls each product API directly; ASSET_INVENTORY uses one Cloud Asset search
+export type DiscoveryMode = 'SERVICE_APIS' | 'ASSET_INVENTORY';
+
+// ASSET covers labeled types discovered via Cloud Asset Inventory that Yalla does not model natively
+export type ResourceType =
+  | 'INSTANCE' | 'DISK' | 'SNAPSHOT' | 'IMAGE' | 'CLOUD_RUN' | 'CLOUD_SQL' | 'BUCKET' | 'GKE_CLUSTER'
+  | 'VPC_NETWORK' | 'FIREWALL_RULE' | 'FORWARDING_RULE' | 'ADDRESS'
+  | 'BIGQUERY_DATASET' | 'PUBSUB_TOPIC' | 'PUBSUB_SUBSCRIPTION'
+  | 'ASSET';
 export type ProvisioningModel = 'STANDARD' | 'SPOT' | 'RESERVED';
 
 export interface LabelHistoryEntry {
@@ -57,13 +87,44 @@ export interface PolicyRuleConfig {
     key?: string;       // For label keys
     values?: string[];  // For allowed values / regions
     regex?: string;     // For name matching
+    expression?: string; // CUSTOM: CEL-like condition; a resource matching it is in violation
+    message?: string;    // CUSTOM: violation message shown instead of the expression
   };
 }
 
+/**
+ * Which resources a policy applies to; it is checked before the policy's rule. Absent or empty
+ * fields do not narrow. Pattern lists take globs (`*`, `?`) and "!"-prefixed exclusions.
+ */
+export interface PolicyScope {
+  includeTypes?: ResourceType[];
+  excludeTypes?: ResourceType[];
+  locations?: string[];    // Zone/region globs; a region pattern also covers its zones
+  projects?: string[];     // Ignored for resources without a projectId (single-project demo data)
+  namePatterns?: string[];
+  labelSelector?: string;  // Kubernetes-style, e.g. "environment=production,!legacy,tier in (web,api)"
+}
+
 export interface PolicyViolation {
   policyId: string;
   message: string;
   severity: PolicySeverity;
+  exceptionId?: string; // Set when an active PolicyException waives this violation
+}
+
+/**
+ * A time-bound waiver of one policy for a single resource or for every resource a selector matches.
+ * Waived violations are still reported, but do not count against compliance until the exception expires.
+ */
+export interface PolicyException {
+  id: string;
+  policyId: string;
+  resourceId?: string;
+  selector?: PolicyScope; // Used when resourceId is absent; must narrow at least one field
+  justification: string;
+  approver: string;
+  createdAt: number;
+  expiresAt: number;
 }
 
 export interface GovernancePolicy {
@@ -75,6 +136,7 @@ export interface GovernancePolicy {
   severity: PolicySeverity;
   isCustom?: boolean;
   ruleConfig?: PolicyRuleConfig; // Store config to allow editing
+  scope?: PolicyScope;
   check: (r: GceResource) => string | null; // Returns error message or null
 }
 
@@ -82,6 +144,10 @@ export interface TaxonomyRule {
   key: string;
   allowedValues: string[];
   isRequired: boolean;
+  requiredWhen?: string;  // Label selector (PolicyScope syntax); the key becomes required when it matches
+  valuePattern?: string;  // Regex the whole value must match, checked alongside allowedValues
+  parentKey?: string;     // Hierarchy level above this key, e.g. department for cost-center
+  valuesByParent?: Record<string, string[]>; // Parent value -> values of this key valid under it
 }
 
 // --- AI Report Types (NEW) ---
@@ -157,6 +223,8 @@ export interface SavedPipeline {
 export interface GceResource {
   id: string;
   name: string;
+  projectId?: string; // Owning project, stamped during discovery
+  assetType?: string; // Cloud Asset type (e.g. pubsub.googleapis.com/Topic), set by asset discovery
   description?: string;
   type: ResourceType;
   zone: string;
@@ -175,6 +243,7 @@ export interface GceResource {
   
   // Snapshots / Disks
   sourceDisk?: string;
+  users?: string[]; // Instances a disk is attached to (empty = unattached)
   resourcePolicies?: string[]; // For Auto-Snapshot policies
 
   // Cloud Run Specifics
@@ -185,8 +254,12 @@ export interface GceResource {
 
   // Bucket Specifics
   publicAccess?: boolean;
+  publicAccessUnknown?: boolean; // IAM policy could not be read (e.g. 403); exposure is not known either way
   locationType?: string; // region, dual-region, multi-region
 
+  // Infrastructure owned by Yalla itself (e.g. the governance bucket); skipped by policy evaluation
+  isSystemManaged?: boolean;
+
   databaseVersion?: string;
   storageClass?: string;
   family?: string;
@@ -205,9 +278,35 @@ export interface GceResource {
       status: string;
       nodeCount: number;
       machineType?: string;
+      resourceLabels?: Record<string, string>;
     }[];
   };
 
+  // Pub/Sub Specifics
+  pubsubDetails?: {
+    topic?: string; // Subscriptions: parent topic
+    deliveryType?: 'PULL' | 'PUSH' | 'BIGQUERY' | 'CLOUD_STORAGE';
+    messageRetention?: string;
+    ackDeadlineSeconds?: number;
+  };
+
+  // Networking Specifics (VPCs, firewalls, forwarding rules, static addresses)
+  networkDetails?: {
+    network?: string;
+    subnetworkCount?: number;
+    routingMode?: string;
+    direction?: 'INGRESS' | 'EGRESS';
+    priority?: number;
+    sourceRanges?: string[];
+    allowed?: string[]; // protocol[:port], e.g. tcp:22
+    openToInternet?: boolean; // Enabled ingress from 0.0.0.0/0
+    ipAddress?: string;
+    addressType?: 'INTERNAL' | 'EXTERNAL';
+    target?: string;
+    loadBalancingScheme?: string;
+    portRange?: string;
+  };
+
   labels: Record<string, string>;
   labelFingerprint: string;
   
@@ -219,6 +318,7 @@ export interface GceResource {
   
   // New Governance Field
   violations?: PolicyViolation[];
+  waivedViolations?: PolicyViolation[]; // Covered by an active exception; excluded from compliance
   
   // Drift State (Calculated on Load)
   driftStatus?: 'DRIFTED' | 'SYNCED' | 'UNKNOWN';
@@ -239,6 +339,94 @@ export interface LogEntry {
   location?: string;
   metadata?: Record<string, any>;
   serviceName?: string;
+  resourcePath?: string; // Full protoPayload.resourceName (resourceName is only the last segment)
+}
+
+// A resource touched by an admin-activity audit entry, used for incremental sync
+export interface ResourceChange {
+  type: ResourceType;
+  name: string;
+  zone?: string; // Absent when the audit resource name carries no location
+  projectId: string;
+  action: 'UPSERT' | 'DELETE';
+  timestamp: Date;
+}
+
+// Failure classes of the typed GCP error model (services/gcpErrors.ts)
+export type GcpErrorKind =
+  | 'AUTH' | 'PERMISSION' | 'NOT_FOUND' | 'PRECONDITION' | 'QUOTA' | 'INVALID_LABEL' | 'SERVICE_DISABLED' | 'UNKNOWN';
+
+export type ScanSourceState = 'RUNNING' | 'DONE' | 'FAILED' | 'CANCELLED';
+
+// Live counters for one discovery source (e.g. "Cloud SQL · my-project") during a scan
+export interface ScanSourceProgress {
+  source: string;
+  state: ScanSourceState;
+  pages: number;
+  items: number;
+  errors: number;
+  retries: number;
+  lastError?: string;
+  errorKind?: GcpErrorKind;
+  remediation?: string;
+}
+
+// Live state of the adaptive rate controller for one GCP API service (e.g. "compute")
+export interface ServiceRateStatus {
+  service: string;
+  concurrency: number; // Current AIMD window
+  maxConcurrency: number;
+  active: number;
+  queued: number;
+  throttleCount: number;
+  cooldownUntil?: number; // Epoch ms while dispatch is paused for Retry-After
+}
+
+// What the caller may do with one resource type in one project, per testIamPermissions
+export interface TypeCapability {
+  canList: boolean;
+  canUpdate: boolean;
+  missing: string[];
+}
+
+export interface ProjectCapabilities {
+  projectId: string;
+  checkedAt: Date;
+  granted: string[];
+  types: Partial<Record<ResourceType, TypeCapability>>;
+  error?: string; // Preflight itself failed (e.g. project not found); capabilities are unknown
+}
+
+export type TrafficMode = 'OFF' | 'RECORDING' | 'REPLAYING';
+
+// One API round trip as captured by the traffic recorder; secrets are already redacted
+export interface RecordedExchange {
+  method: string;
+  url: string;
+  requestBody?: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  bodyEncoding: 'text' | 'base64';
+  durationMs: number;
+}
+
+export interface TrafficBundle {
+  format: 'yalla-traffic';
+  version: number;
+  appVersion: string;
+  recordedAt: string;
+  projectIds: string[];
+  truncated?: boolean; // Recording hit the exchange cap; later calls are missing
+  exchanges: RecordedExchange[];
+}
+
+export interface BatchProgress {
+  processed: number;
+  total: number;
+  status: 'updating' | 'rolling-back';
+  rates?: ServiceRateStatus[];
 }
 
 export interface AnalysisResult {
@@ -259,6 +447,7 @@ export interface FilterConfig {
   types: string[];
   zones: string[];
   machineTypes: string[];
+  projects?: string[];
   hasPublicIp: boolean | null;
   dateStart: string;
   dateEnd: string;